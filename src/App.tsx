@@ -8,6 +8,10 @@ import Dashboard from './components/dashboard/Dashboard';
 import CalendarView from './components/calendar/CalendarView';
 import TimelineView from './components/timeline/TimelineView';
 import ActivityList from './components/activities/ActivityList';
+import TemplateList from './components/templates/TemplateList';
+import ApprovalInbox from './components/approvals/ApprovalInbox';
+import StaffList from './components/staff/StaffList';
+import WorkloadView from './components/workload/WorkloadView';
 import { initBackupBridge } from './services/backupBridge';
 import { initializeActivityBridge } from './services/activityBridge';
 
@@ -39,6 +43,10 @@ function AppWithBridges() {
           <Route path="calendar" element={<CalendarView />} />
           <Route path="timeline" element={<TimelineView />} />
           <Route path="activities" element={<ActivityList />} />
+          <Route path="templates" element={<TemplateList />} />
+          <Route path="approvals" element={<ApprovalInbox />} />
+          <Route path="staff" element={<StaffList />} />
+          <Route path="workload" element={<WorkloadView />} />
         </Route>
       </Routes>
     </BrowserRouter>
@@ -5,6 +5,17 @@ import { useActivities } from '../../context/ActivityContext';
 import type { TradeActivity, EducationalActivity, ConsultationActivity, ActivityStatus, ActivityLocation } from '../../types';
 import { getActivityCategory } from '../../types';
 import ChecklistPanel from '../checklist/ChecklistPanel';
+import ChecklistRebaselineDialog from '../checklist/ChecklistRebaselineDialog';
+import CustomReminderDialog from '../reminders/CustomReminderDialog';
+import ScheduleRiskPanel from './ScheduleRiskPanel';
+import { previewChecklistDateShifts } from '../../utils/reminderScheduler';
+import type { ChecklistDateShift } from '../../utils/reminderScheduler';
+import { INITIAL_TEMPLATE_VERSION, findProcedureTemplate, getTemplateAtVersion } from '../../utils/procedureTemplates';
+import { getLocationHolidayConflicts, summarizeHolidays } from '../../utils/holidays';
+import { generateActivitiesICS, toCalendarFileName } from '../../utils/icalendar';
+import { downloadFile } from '../../utils/download';
+import { getActivityScheduleAnalysis } from '../../utils/scheduleRisk';
+import { isCompleteDate } from '../../utils/dateUtils';
 
 interface ActivityDetailProps {
   activityId: string;
@@ -15,10 +26,14 @@ interface ActivityDetailProps {
 type TabType = 'overview' | 'checklist' | 'notes';
 
 export default function ActivityDetail({ activityId, onClose, onDelete }: ActivityDetailProps) {
-  const { activities, updateActivity, getChecklistForActivity, archiveActivity, unarchiveActivity, getActivityTypeInfo, customActivityTypes } = useActivities();
+  const { activities, updateActivity, getChecklistForActivity, archiveActivity, unarchiveActivity, getActivityTypeInfo, customActivityTypes, procedureTemplates, rebaselineChecklist, staffMembers, getStaffMember, deleteCustomReminder, can, getHoliday } = useActivities();
   const [activeTab, setActiveTab] = useState<TabType>('overview');
   const [isEditing, setIsEditing] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [startDateBeforeEdit, setStartDateBeforeEdit] = useState<string | null>(null);
+  const [startDateDraft, setStartDateDraft] = useState<string | null>(null); // Typed but not yet a whole date
+  const [pendingDateShifts, setPendingDateShifts] = useState<ChecklistDateShift[] | null>(null);
+  const [showReminderDialog, setShowReminderDialog] = useState(false);
 
   const activity = activities.find((a) => a.id === activityId);
   const checklist = getChecklistForActivity(activityId);
@@ -36,9 +51,23 @@ export default function ActivityDetail({ activityId, onClose, onDelete }: Activi
   const isTradeActivity = activityCategory === 'trade';
   const isEducationalActivity = activityCategory === 'educational';
   const isConsultationActivity = activityCategory === 'consultation';
+  const scheduleAnalysis = getActivityScheduleAnalysis(activity, checklist, procedureTemplates);
+  const defaultTemplate = findProcedureTemplate({ ...activity, procedureTemplateId: '' }, procedureTemplates, customActivityTypes);
+  const procedureTemplate = checklist
+    ? procedureTemplates.find((t) => t.id === checklist.procedureTemplateId)
+    : findProcedureTemplate(activity, procedureTemplates, customActivityTypes);
   const tradeActivity = activity as TradeActivity;
   const eduActivity = activity as EducationalActivity;
   const consultActivity = activity as ConsultationActivity;
+  const activeStaff = staffMembers.filter((s) => s.isActive);
+  const canEdit = can('activity:edit', activity);
+  const canDelete = can('activity:delete');
+  const holidayConflicts = getLocationHolidayConflicts(activity);
+
+  const handleExportCalendar = () => {
+    const ics = generateActivitiesICS([activity], activity.name, checklist ? [checklist] : []);
+    downloadFile(ics, toCalendarFileName(activity.name), 'text/calendar');
+  };
 
   const handleStatusChange = (newStatus: ActivityStatus) => {
     updateActivity(activityId, { status: newStatus });
@@ -48,6 +77,35 @@ export default function ActivityDetail({ activityId, onClose, onDelete }: Activi
     updateActivity(activityId, { [field]: value });
   };
 
+  // Save the start date only once it is a whole date, so the checklist isn't generated or
+  // shifted for a year that is still being typed
+  const handleStartDateChange = (value: string) => {
+    setStartDateDraft(value);
+    if (isCompleteDate(value)) handleFieldChange('startDate', value);
+  };
+
+  // Once the start date input loses focus, preview how the checklist dates would move
+  const handleStartDateBlur = () => {
+    const previousStartDate = startDateBeforeEdit;
+    setStartDateBeforeEdit(null);
+    setStartDateDraft(null);
+    if (previousStartDate === null || previousStartDate === activity.startDate || !checklist) return;
+
+    const template = procedureTemplates.find((t) => t.id === checklist.procedureTemplateId);
+    if (!template) return;
+
+    const shifts = previewChecklistDateShifts(
+      checklist,
+      getTemplateAtVersion(template, checklist.procedureTemplateVersion),
+      previousStartDate,
+      activity.startDate,
+      getHoliday
+    );
+    if (shifts.length > 0) {
+      setPendingDateShifts(shifts);
+    }
+  };
+
   const getStatusColor = (status: ActivityStatus) => {
     switch (status) {
       case 'draft':
@@ -83,12 +141,21 @@ export default function ActivityDetail({ activityId, onClose, onDelete }: Activi
           </button>
           <div className="flex items-center gap-2">
             <button
-              onClick={() => setIsEditing(!isEditing)}
+              onClick={handleExportCalendar}
+              title="Download the activity and its open task deadlines as an .ics file"
               className="px-3 py-1.5 text-sm border dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300"
             >
-              {isEditing ? 'Done' : 'Edit'}
+              Export .ics
             </button>
-            {activity.isArchived ? (
+            {canEdit && (
+              <button
+                onClick={() => setIsEditing(!isEditing)}
+                className="px-3 py-1.5 text-sm border dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300"
+              >
+                {isEditing ? 'Done' : 'Edit'}
+              </button>
+            )}
+            {!canDelete ? null : activity.isArchived ? (
               <button
                 onClick={() => unarchiveActivity(activityId)}
                 className="px-3 py-1.5 text-sm border border-green-200 dark:border-green-700 text-green-600 dark:text-green-400 rounded-lg hover:bg-green-50 dark:hover:bg-green-900/30 flex items-center gap-1"
@@ -109,12 +176,14 @@ export default function ActivityDetail({ activityId, onClose, onDelete }: Activi
                 Archive
               </button>
             )}
-            <button
-              onClick={() => setShowDeleteConfirm(true)}
-              className="px-3 py-1.5 text-sm border border-red-200 dark:border-red-700 text-red-600 dark:text-red-400 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30"
-            >
-              Delete
-            </button>
+            {canDelete && (
+              <button
+                onClick={() => setShowDeleteConfirm(true)}
+                className="px-3 py-1.5 text-sm border border-red-200 dark:border-red-700 text-red-600 dark:text-red-400 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30"
+              >
+                Delete
+              </button>
+            )}
           </div>
         </div>
 
@@ -165,7 +234,8 @@ export default function ActivityDetail({ activityId, onClose, onDelete }: Activi
           <select
             value={activity.status}
             onChange={(e) => handleStatusChange(e.target.value as ActivityStatus)}
-            className={`px-3 py-1.5 rounded-lg border text-sm font-medium ${getStatusColor(activity.status)}`}
+            disabled={!canEdit}
+            className={`px-3 py-1.5 rounded-lg border text-sm font-medium disabled:cursor-not-allowed ${getStatusColor(activity.status)}`}
           >
             <option value="draft">Draft</option>
             <option value="planning">Planning</option>
@@ -214,8 +284,10 @@ export default function ActivityDetail({ activityId, onClose, onDelete }: Activi
                   {isEditing ? (
                     <input
                       type="date"
-                      value={activity.startDate}
-                      onChange={(e) => handleFieldChange('startDate', e.target.value)}
+                      value={startDateDraft ?? activity.startDate}
+                      onFocus={() => setStartDateBeforeEdit(activity.startDate)}
+                      onChange={(e) => handleStartDateChange(e.target.value)}
+                      onBlur={handleStartDateBlur}
                       className="w-full border dark:border-gray-600 rounded px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
                     />
                   ) : (
@@ -246,6 +318,175 @@ export default function ActivityDetail({ activityId, onClose, onDelete }: Activi
               </div>
             </div>
 
+            {/* Procedure template the checklist is generated from */}
+            {(isTradeActivity || isEducationalActivity || activity.procedureTemplateId) && (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow dark:shadow-gray-900/50 p-4">
+                <h3 className="font-semibold text-gray-900 dark:text-gray-100 mb-3">Procedure</h3>
+                {isEditing && !checklist ? (
+                  <>
+                    <select
+                      value={activity.procedureTemplateId}
+                      onChange={(e) => handleFieldChange('procedureTemplateId', e.target.value)}
+                      className="w-full border dark:border-gray-600 rounded px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                    >
+                      <option value="">
+                        Default for this type{defaultTemplate ? ` (${defaultTemplate.name})` : ''}
+                      </option>
+                      {procedureTemplates
+                        .filter((t) => t.isActive || t.id === activity.procedureTemplateId)
+                        .map((t) => (
+                          <option key={t.id} value={t.id}>
+                            {t.name} (v{t.version})
+                          </option>
+                        ))}
+                    </select>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      The checklist is generated from this template once the start date is set.
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-gray-900 dark:text-gray-100">
+                    {procedureTemplate
+                      ? `${procedureTemplate.name}${checklist ? ` (v${checklist.procedureTemplateVersion || INITIAL_TEMPLATE_VERSION})` : ''}`
+                      : 'None'}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {scheduleAnalysis && (
+              <ScheduleRiskPanel
+                analysis={scheduleAnalysis}
+                getAssigneeName={(staffId) => (staffId ? getStaffMember(staffId)?.name : undefined)}
+              />
+            )}
+
+            {/* Team */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow dark:shadow-gray-900/50 p-4">
+              <h3 className="font-semibold text-gray-900 dark:text-gray-100 mb-3">Team</h3>
+              <div className="space-y-3">
+                <div>
+                  <label className="block text-sm text-gray-600 dark:text-gray-400 mb-1">Lead</label>
+                  {isEditing ? (
+                    <select
+                      value={activity.leadStaffId}
+                      onChange={(e) => handleFieldChange('leadStaffId', e.target.value)}
+                      className="w-full border dark:border-gray-600 rounded px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                    >
+                      <option value="">Unassigned</option>
+                      {staffMembers.filter((s) => s.isActive || s.id === activity.leadStaffId).map((s) => (
+                        <option key={s.id} value={s.id}>
+                          {s.name}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <p className="text-gray-900 dark:text-gray-100">
+                      {getStaffMember(activity.leadStaffId)?.name || 'Unassigned'}
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-600 dark:text-gray-400 mb-1">Team Members</label>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {activity.teamMemberIds.length === 0 && !isEditing && (
+                      <p className="text-gray-500 dark:text-gray-400">None</p>
+                    )}
+                    {activity.teamMemberIds.map((staffId) => (
+                      <span
+                        key={staffId}
+                        className="px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-sm rounded flex items-center gap-1"
+                      >
+                        {getStaffMember(staffId)?.name || 'Unknown'}
+                        {isEditing && (
+                          <button
+                            onClick={() =>
+                              handleFieldChange(
+                                'teamMemberIds',
+                                activity.teamMemberIds.filter((id) => id !== staffId)
+                              )
+                            }
+                            className="hover:text-red-600"
+                            title="Remove from team"
+                          >
+                            ×
+                          </button>
+                        )}
+                      </span>
+                    ))}
+                    {isEditing && (
+                      <select
+                        value=""
+                        onChange={(e) => handleFieldChange('teamMemberIds', [...activity.teamMemberIds, e.target.value])}
+                        className="text-sm border dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                      >
+                        <option value="">Add team member...</option>
+                        {activeStaff
+                          .filter((s) => s.id !== activity.leadStaffId && !activity.teamMemberIds.includes(s.id))
+                          .map((s) => (
+                            <option key={s.id} value={s.id}>
+                              {s.name}
+                            </option>
+                          ))}
+                      </select>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* Reminders */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow dark:shadow-gray-900/50 p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-semibold text-gray-900 dark:text-gray-100">Reminders</h3>
+                {canEdit && (
+                  <button
+                    onClick={() => setShowReminderDialog(true)}
+                    className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    + Add reminder
+                  </button>
+                )}
+              </div>
+              {(activity.customReminders || []).length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No custom reminders.</p>
+              ) : (
+                <ul className="divide-y dark:divide-gray-700">
+                  {[...(activity.customReminders || [])]
+                    .sort((a, b) => a.remindOn.localeCompare(b.remindOn))
+                    .map((reminder) => {
+                      const item = checklist?.items.find((i) => i.id === reminder.checklistItemId);
+                      return (
+                        <li key={reminder.id} className="py-2 flex items-start justify-between gap-3 text-sm">
+                          <div className="min-w-0">
+                            <div className="text-gray-900 dark:text-gray-100">{reminder.message}</div>
+                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                              {format(parseISO(reminder.remindOn), 'MMM d, yyyy')}
+                              {item && ` • ${item.title}`}
+                              {' • '}
+                              {reminder.recipientIds.length === 0
+                                ? 'Everyone'
+                                : reminder.recipientIds.map((id) => getStaffMember(id)?.name || 'Unknown').join(', ')}
+                            </div>
+                          </div>
+                          {canEdit && (
+                            <button
+                              onClick={() => deleteCustomReminder(activity.id, reminder.id)}
+                              className="text-gray-400 hover:text-red-600 dark:hover:text-red-400 flex-shrink-0"
+                              title="Delete reminder"
+                            >
+                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                              </svg>
+                            </button>
+                          )}
+                        </li>
+                      );
+                    })}
+                </ul>
+              )}
+            </div>
+
             {/* Description */}
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow dark:shadow-gray-900/50 p-4">
               <h3 className="font-semibold text-gray-900 dark:text-gray-100 mb-3">Description</h3>
@@ -435,6 +676,25 @@ export default function ActivityDetail({ activityId, onClose, onDelete }: Activi
                 </div>
               )}
 
+              {/* Destination holidays during the stops */}
+              {holidayConflicts.length > 0 && (
+                <div className="mt-3 p-3 rounded-lg bg-purple-50 dark:bg-purple-900/30 border border-purple-200 dark:border-purple-700">
+                  <p className="text-sm font-medium text-purple-800 dark:text-purple-200 mb-1">
+                    Local holidays during this trip
+                  </p>
+                  <ul className="text-sm text-purple-700 dark:text-purple-300 space-y-0.5">
+                    {holidayConflicts.map((conflict) => (
+                      <li key={conflict.location?.id ?? conflict.country}>
+                        <span className="font-medium">
+                          {conflict.location?.city ? `${conflict.location.city}, ${conflict.country}` : conflict.country}:
+                        </span>{' '}
+                        {summarizeHolidays(conflict.holidays).join('; ')}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Hint for trade missions */}
               {isEditing && isTradeActivity && (activity.activityType === 'outbound_trade_mission' || activity.activityType === 'inbound_trade_mission') && (
                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
@@ -793,6 +1053,7 @@ export default function ActivityDetail({ activityId, onClose, onDelete }: Activi
             <textarea
               value={activity.notes}
               onChange={(e) => handleFieldChange('notes', e.target.value)}
+              readOnly={!canEdit}
               rows={10}
               className="w-full border dark:border-gray-600 rounded px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
               placeholder="Add notes about this activity..."
@@ -801,6 +1062,23 @@ export default function ActivityDetail({ activityId, onClose, onDelete }: Activi
         )}
       </div>
 
+      {/* Custom Reminder */}
+      {showReminderDialog && (
+        <CustomReminderDialog activity={activity} onClose={() => setShowReminderDialog(false)} />
+      )}
+
+      {/* Checklist Reschedule Preview */}
+      {pendingDateShifts && checklist && (
+        <ChecklistRebaselineDialog
+          shifts={pendingDateShifts}
+          onCancel={() => setPendingDateShifts(null)}
+          onApply={(accepted) => {
+            rebaselineChecklist(checklist.id, accepted);
+            setPendingDateShifts(null);
+          }}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -1,9 +1,14 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { format, parseISO } from 'date-fns';
 import { useSearchParams } from 'react-router-dom';
 import { useActivities } from '../../context/ActivityContext';
 import type { AnyActivity, ActivityStatus } from '../../types';
 import ActivityDetail from './ActivityDetail';
+import ICSImportDialog from './ICSImportDialog';
+import ScheduleRiskBadge from './ScheduleRiskBadge';
+import { generateActivitiesICS } from '../../utils/icalendar';
+import { downloadFile } from '../../utils/download';
+import { getActivityScheduleAnalysis } from '../../utils/scheduleRisk';
 
 export default function ActivityList() {
   const {
@@ -16,9 +21,13 @@ export default function ActivityList() {
     deleteActivity,
     archivedCount,
     activities,
+    checklistInstances,
+    procedureTemplates,
+    can,
   } = useActivities();
 
   const [showFilters, setShowFilters] = useState(false);
+  const [showICSImport, setShowICSImport] = useState(false);
   const { getActivityTypeInfo } = useActivities();
   const [searchParams, setSearchParams] = useSearchParams();
 
@@ -36,6 +45,21 @@ export default function ActivityList() {
     }
   }, [searchParams, activities, selectActivity, setSearchParams]);
 
+  const scheduleAnalyses = useMemo(
+    () =>
+      new Map(
+        filteredActivities.map((activity) => [
+          activity.id,
+          getActivityScheduleAnalysis(
+            activity,
+            checklistInstances.find((c) => c.activityId === activity.id),
+            procedureTemplates
+          ),
+        ])
+      ),
+    [filteredActivities, checklistInstances, procedureTemplates]
+  );
+
   const getActivityTypeColor = (activityType: string) => {
     const typeInfo = getActivityTypeInfo(activityType);
     const colorMap: Record<string, string> = {
@@ -83,24 +107,49 @@ export default function ActivityList() {
         <div className="p-4 border-b dark:border-gray-700">
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Activities</h2>
-            <button
-              onClick={() => setShowFilters(!showFilters)}
-              className={`px-3 py-1.5 rounded-lg border transition-colors ${
-                showFilters || Object.keys(filters).length > 0
-                  ? 'bg-blue-50 dark:bg-blue-900/50 border-blue-200 dark:border-blue-700 text-blue-700 dark:text-blue-300'
-                  : 'hover:bg-gray-50 dark:hover:bg-gray-700 dark:border-gray-600'
-              }`}
-            >
-              <svg className="w-5 h-5 inline-block mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z"
-                />
-              </svg>
-              Filters
-            </button>
+            <div className="flex items-center gap-2">
+              {can('activity:create') && (
+                <button
+                  onClick={() => setShowICSImport(true)}
+                  title="Create activities from an .ics file"
+                  className="px-3 py-1.5 rounded-lg border hover:bg-gray-50 dark:hover:bg-gray-700 dark:border-gray-600 text-gray-700 dark:text-gray-300"
+                >
+                  Import .ics
+                </button>
+              )}
+              <button
+                onClick={() =>
+                  downloadFile(
+                    generateActivitiesICS(filteredActivities, 'CDFA Activities'),
+                    `cdfa-activities-${format(new Date(), 'yyyy-MM-dd')}.ics`,
+                    'text/calendar'
+                  )
+                }
+                disabled={filteredActivities.length === 0}
+                title="Download the activities shown as an .ics file"
+                className="px-3 py-1.5 rounded-lg border hover:bg-gray-50 dark:hover:bg-gray-700 dark:border-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Export .ics
+              </button>
+              <button
+                onClick={() => setShowFilters(!showFilters)}
+                className={`px-3 py-1.5 rounded-lg border transition-colors ${
+                  showFilters || Object.keys(filters).length > 0
+                    ? 'bg-blue-50 dark:bg-blue-900/50 border-blue-200 dark:border-blue-700 text-blue-700 dark:text-blue-300'
+                    : 'hover:bg-gray-50 dark:hover:bg-gray-700 dark:border-gray-600'
+                }`}
+              >
+                <svg className="w-5 h-5 inline-block mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z"
+                  />
+                </svg>
+                Filters
+              </button>
+            </div>
           </div>
 
           {/* Filters */}
@@ -327,6 +376,9 @@ export default function ActivityList() {
                               archived
                             </span>
                           )}
+                          {scheduleAnalyses.get(activity.id) && (
+                            <ScheduleRiskBadge analysis={scheduleAnalyses.get(activity.id)!} />
+                          )}
                           <span
                             className={`px-2 py-0.5 rounded text-xs font-medium ${getStatusColor(
                               activity.status
@@ -364,6 +416,8 @@ export default function ActivityList() {
           />
         </div>
       )}
+
+      {showICSImport && <ICSImportDialog onClose={() => setShowICSImport(false)} />}
     </div>
   );
 }
@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useActivities } from '../../context/ActivityContext';
+import type { ActivityType, AnyActivity } from '../../types';
+import { parseICS, findDuplicateActivity, type ParsedCalendarEvent } from '../../utils/icalendar';
+import { getFiscalYearFromDateString } from '../../utils/fiscalYear';
+
+interface ICSImportDialogProps {
+  onClose: () => void;
+}
+
+interface ImportRow {
+  key: string;
+  event: ParsedCalendarEvent;
+  duplicate?: AnyActivity;
+  include: boolean;
+  activityType: ActivityType;
+}
+
+const selectClass =
+  'border dark:border-gray-600 rounded px-2 py-1 text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+
+// Webinar invites are the most common non-trade-show events staff receive
+function guessActivityType(event: ParsedCalendarEvent): ActivityType {
+  const text = `${event.summary} ${event.description}`.toLowerCase();
+  if (text.includes('webinar')) return 'webinar';
+  if (text.includes('seminar')) return 'seminar';
+  return 'trade_show';
+}
+
+function formatDateRange(event: ParsedCalendarEvent): string {
+  const start = format(parseISO(event.startDate), 'MMM d, yyyy');
+  if (event.endDate === event.startDate) return start;
+  return `${start} - ${format(parseISO(event.endDate), 'MMM d, yyyy')}`;
+}
+
+export default function ICSImportDialog({ onClose }: ICSImportDialogProps) {
+  const { activities, createActivity, getAllActivityTypes } = useActivities();
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const activityTypes = getAllActivityTypes();
+  const selectedCount = rows?.filter((r) => r.include).length ?? 0;
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const events = parseICS((e.target?.result as string) || '');
+      if (events.length === 0) {
+        setError('No events found in this file.');
+        setRows(null);
+        return;
+      }
+      setError(null);
+      setRows(
+        events.map((parsed, index) => {
+          const duplicate = findDuplicateActivity(parsed, activities);
+          return {
+            key: parsed.uid || `event-${index}`,
+            event: parsed,
+            duplicate,
+            include: !duplicate && !parsed.isCancelled,
+            activityType: guessActivityType(parsed),
+          };
+        })
+      );
+    };
+    reader.readAsText(file);
+  };
+
+  const updateRow = (key: string, updates: Partial<ImportRow>) => {
+    setRows((current) => current && current.map((r) => (r.key === key ? { ...r, ...updates } : r)));
+  };
+
+  const setTypeForAll = (activityType: ActivityType) => {
+    setRows((current) => current && current.map((r) => ({ ...r, activityType })));
+  };
+
+  // Same path as manual creation, so each activity gets its checklist
+  const handleImport = () => {
+    if (!rows) return;
+    for (const row of rows) {
+      if (!row.include) continue;
+      createActivity(row.activityType, {
+        name: row.event.summary || 'Imported Event',
+        description: row.event.description,
+        startDate: row.event.startDate,
+        endDate: row.event.endDate,
+        location: row.event.location,
+        fiscalYear: getFiscalYearFromDateString(row.event.startDate),
+        externalUid: row.event.uid,
+      });
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl dark:shadow-gray-900/50 p-6 max-w-4xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-1">Import from Calendar</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Choose an .ics file, then review which events become activities.
+        </p>
+
+        <input
+          type="file"
+          accept=".ics,text/calendar"
+          onChange={handleFile}
+          className="text-sm text-gray-700 dark:text-gray-300 mb-4"
+        />
+        {error && <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>}
+
+        {rows && (
+          <>
+            <div className="flex items-center gap-2 mb-2 text-sm text-gray-600 dark:text-gray-400">
+              <span>Set type for all:</span>
+              <select
+                value=""
+                onChange={(e) => e.target.value && setTypeForAll(e.target.value)}
+                className={selectClass}
+              >
+                <option value="">Choose...</option>
+                {activityTypes.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex-1 overflow-auto border dark:border-gray-700 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-900 text-left text-gray-600 dark:text-gray-400 sticky top-0">
+                  <tr>
+                    <th className="p-2 w-8"></th>
+                    <th className="p-2">Event</th>
+                    <th className="p-2">Dates</th>
+                    <th className="p-2">Activity Type</th>
+                    <th className="p-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y dark:divide-gray-700">
+                  {rows.map((row) => (
+                    <tr key={row.key} className={row.include ? '' : 'opacity-60'}>
+                      <td className="p-2">
+                        <input
+                          type="checkbox"
+                          checked={row.include}
+                          onChange={(e) => updateRow(row.key, { include: e.target.checked })}
+                          className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:bg-gray-800"
+                        />
+                      </td>
+                      <td className="p-2">
+                        <div className="font-medium text-gray-900 dark:text-gray-100">
+                          {row.event.summary || 'Untitled event'}
+                        </div>
+                        {row.event.location && (
+                          <div className="text-xs text-gray-500 dark:text-gray-400">{row.event.location}</div>
+                        )}
+                      </td>
+                      <td className="p-2 whitespace-nowrap text-gray-700 dark:text-gray-300">
+                        {formatDateRange(row.event)}
+                      </td>
+                      <td className="p-2">
+                        <select
+                          value={row.activityType}
+                          onChange={(e) => updateRow(row.key, { activityType: e.target.value })}
+                          className={selectClass}
+                        >
+                          {activityTypes.map((t) => (
+                            <option key={t.id} value={t.id}>
+                              {t.name}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="p-2">
+                        {row.duplicate ? (
+                          <span
+                            className="px-2 py-0.5 rounded text-xs font-medium bg-amber-100 dark:bg-amber-900/50 text-amber-700 dark:text-amber-300"
+                            title={`Matches "${row.duplicate.name}"`}
+                          >
+                            Duplicate
+                          </span>
+                        ) : row.event.isCancelled ? (
+                          <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                            Cancelled
+                          </span>
+                        ) : (
+                          <span className="px-2 py-0.5 rounded text-xs font-medium bg-green-100 dark:bg-green-900/50 text-green-700 dark:text-green-300">
+                            New
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={selectedCount === 0}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Import {selectedCount} {selectedCount === 1 ? 'Activity' : 'Activities'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
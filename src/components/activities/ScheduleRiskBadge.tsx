@@ -0,0 +1,26 @@
+import type { ScheduleAnalysis, ScheduleRiskLevel } from '../../utils/scheduleRisk';
+
+const LEVEL_STYLES: Record<ScheduleRiskLevel, string> = {
+  low: 'bg-green-100 dark:bg-green-900/50 text-green-700 dark:text-green-300',
+  medium: 'bg-amber-100 dark:bg-amber-900/50 text-amber-700 dark:text-amber-300',
+  high: 'bg-red-100 dark:bg-red-900/50 text-red-700 dark:text-red-300',
+};
+
+interface ScheduleRiskBadgeProps {
+  analysis: ScheduleAnalysis;
+}
+
+export default function ScheduleRiskBadge({ analysis }: ScheduleRiskBadgeProps) {
+  return (
+    <span
+      className={`px-2 py-0.5 rounded text-xs font-medium ${LEVEL_STYLES[analysis.riskLevel]}`}
+      title={
+        analysis.riskFactors.length > 0
+          ? `Schedule risk ${analysis.riskScore}/100:\n${analysis.riskFactors.map((f) => `• ${f}`).join('\n')}`
+          : `Schedule risk ${analysis.riskScore}/100`
+      }
+    >
+      {analysis.riskLevel} risk
+    </span>
+  );
+}
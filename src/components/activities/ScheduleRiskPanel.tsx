@@ -0,0 +1,97 @@
+import { format, parseISO } from 'date-fns';
+import { WORK_HOURS_PER_DAY, type ScheduleAnalysis } from '../../utils/scheduleRisk';
+import ScheduleRiskBadge from './ScheduleRiskBadge';
+
+interface ScheduleRiskPanelProps {
+  analysis: ScheduleAnalysis;
+  getAssigneeName: (staffId: string | undefined) => string | undefined;
+}
+
+// How many of the tightest tasks to list below the critical path
+const TIGHTEST_TASK_COUNT = 5;
+
+function formatSlack(days: number): string {
+  if (days < 0) return `${Math.abs(days)}d late`;
+  if (days === 0) return 'No slack';
+  return `${days}d slack`;
+}
+
+export default function ScheduleRiskPanel({ analysis, getAssigneeName }: ScheduleRiskPanelProps) {
+  const tightest = analysis.tasks
+    .filter((task) => !task.isCritical)
+    .sort((a, b) => a.slackDays - b.slackDays)
+    .slice(0, TIGHTEST_TASK_COUNT);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow dark:shadow-gray-900/50 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-gray-900 dark:text-gray-100">Schedule Risk</h3>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-500 dark:text-gray-400">{analysis.riskScore}/100</span>
+          <ScheduleRiskBadge analysis={analysis} />
+        </div>
+      </div>
+
+      {analysis.riskFactors.length > 0 ? (
+        <ul className="mb-4 text-sm text-gray-700 dark:text-gray-300 list-disc pl-5 space-y-0.5">
+          {analysis.riskFactors.map((factor) => (
+            <li key={factor}>{factor}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">No risks found in the remaining tasks.</p>
+      )}
+
+      <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">Critical Path</h4>
+      <ol className="divide-y dark:divide-gray-700 text-sm">
+        {analysis.criticalPath.map((task) => (
+          <li key={task.item.id} className="py-1.5 flex items-center gap-3">
+            <span
+              className={`flex-1 min-w-0 truncate ${
+                task.isOverdue ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-gray-100'
+              }`}
+            >
+              {task.item.title}
+            </span>
+            <span className="text-xs text-gray-500 dark:text-gray-400 truncate max-w-[30%]">
+              {getAssigneeName(task.item.assigneeId) || 'Unassigned'}
+            </span>
+            <span className="text-xs text-gray-500 dark:text-gray-400 w-16 text-right">
+              {format(parseISO(task.item.dueDate), 'MMM d')}
+            </span>
+            <span
+              className={`text-xs w-20 text-right ${
+                task.slackDays < 0 ? 'text-red-600 dark:text-red-400 font-medium' : 'text-gray-500 dark:text-gray-400'
+              }`}
+            >
+              {formatSlack(task.slackDays)}
+            </span>
+          </li>
+        ))}
+      </ol>
+
+      {tightest.length > 0 && (
+        <>
+          <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100 mt-4 mb-2">Next Tightest Tasks</h4>
+          <ul className="divide-y dark:divide-gray-700 text-sm">
+            {tightest.map((task) => (
+              <li key={task.item.id} className="py-1.5 flex items-center gap-3">
+                <span className="flex-1 min-w-0 truncate text-gray-700 dark:text-gray-300">{task.item.title}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400 w-16 text-right">
+                  {format(parseISO(task.item.dueDate), 'MMM d')}
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400 w-20 text-right">
+                  {formatSlack(task.slackDays)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <p className="mt-3 text-xs text-gray-400 dark:text-gray-500">
+        Slack assumes work starts today and takes the estimated hours at {WORK_HOURS_PER_DAY} hours a day.
+      </p>
+    </div>
+  );
+}
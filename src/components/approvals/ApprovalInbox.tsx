@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useActivities } from '../../context/ActivityContext';
+import type { StaffRole } from '../../types';
+import { getRequiredApproverRole } from '../../utils/approvals';
+import { formatDueDateWithStatus } from '../../utils/reminderScheduler';
+
+type Decision = 'approve' | 'reject';
+
+export default function ApprovalInbox() {
+  const {
+    pendingApprovals,
+    approveChecklistItem,
+    rejectChecklistItem,
+    getStaffMember,
+    currentUserId,
+  } = useActivities();
+  const [roleFilter, setRoleFilter] = useState<StaffRole | 'all'>('all');
+  const [review, setReview] = useState<{ itemId: string; decision: Decision } | null>(null);
+  const [comment, setComment] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const currentStaff = currentUserId ? getStaffMember(currentUserId) : undefined;
+  const roles = Array.from(new Set(pendingApprovals.map(({ item }) => getRequiredApproverRole(item))));
+  const visibleApprovals = pendingApprovals.filter(
+    ({ item }) => roleFilter === 'all' || getRequiredApproverRole(item) === roleFilter
+  );
+
+  const startReview = (itemId: string, decision: Decision) => {
+    setReview({ itemId, decision });
+    setComment('');
+    setError(null);
+  };
+
+  const submitReview = (checklistId: string, itemId: string) => {
+    if (!review) return;
+    try {
+      if (review.decision === 'approve') {
+        approveChecklistItem(checklistId, itemId, comment);
+      } else {
+        rejectChecklistItem(checklistId, itemId, comment);
+      }
+      setReview(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save review');
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="p-4 border-b dark:border-gray-700 flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Approvals</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {currentStaff
+              ? `Tasks awaiting sign-off that a ${currentStaff.role} can approve`
+              : 'Your staff profile has not been set up, so there is nothing for you to approve'}
+          </p>
+        </div>
+        {roles.length > 1 && (
+          <select
+            value={roleFilter}
+            onChange={(e) => setRoleFilter(e.target.value as StaffRole | 'all')}
+            className="text-sm border dark:border-gray-600 rounded-lg px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 capitalize"
+          >
+            <option value="all">All approver roles</option>
+            {roles.map((role) => (
+              <option key={role} value={role}>
+                {role}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-auto p-4">
+        {visibleApprovals.length === 0 ? (
+          <div className="p-6 text-center text-gray-500 dark:text-gray-400">No tasks are waiting for your approval.</div>
+        ) : (
+          <div className="space-y-3">
+            {visibleApprovals.map(({ activity, checklist, item }) => {
+              const dueDateInfo = formatDueDateWithStatus(item.dueDate);
+              const requestedBy = item.approvalRequestedById ? getStaffMember(item.approvalRequestedById) : undefined;
+              const isReviewing = review?.itemId === item.id;
+
+              return (
+                <div key={item.id} className="bg-white dark:bg-gray-800 rounded-lg shadow dark:shadow-gray-900/50 p-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="text-xs text-gray-500 dark:text-gray-400">{activity.name}</div>
+                      <h3 className="font-medium text-gray-900 dark:text-gray-100">{item.title}</h3>
+                      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{item.description}</p>
+                      <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-gray-400 dark:text-gray-500">
+                        <span className="px-1.5 py-0.5 bg-purple-100 dark:bg-purple-900/50 text-purple-700 dark:text-purple-300 rounded capitalize">
+                          {getRequiredApproverRole(item)}
+                        </span>
+                        <span>{dueDateInfo.text}</span>
+                        {item.approvalRequestedAt && (
+                          <span>
+                            Submitted {format(parseISO(item.approvalRequestedAt), 'MMM d, h:mm a')}
+                            {requestedBy && ` by ${requestedBy.name}`}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    {!isReviewing && (
+                      <div className="flex gap-2 flex-shrink-0">
+                        <button
+                          onClick={() => startReview(item.id, 'reject')}
+                          className="px-3 py-1.5 text-sm border border-red-200 dark:border-red-700 text-red-600 dark:text-red-400 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30"
+                        >
+                          Reject
+                        </button>
+                        <button
+                          onClick={() => startReview(item.id, 'approve')}
+                          className="px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700"
+                        >
+                          Approve
+                        </button>
+                      </div>
+                    )}
+                  </div>
+
+                  {isReviewing && (
+                    <div className="mt-3 space-y-2">
+                      <textarea
+                        value={comment}
+                        onChange={(e) => setComment(e.target.value)}
+                        rows={2}
+                        autoFocus
+                        placeholder={review.decision === 'approve' ? 'Approval comment (required)' : 'Reason for rejection (required)'}
+                        className="w-full border dark:border-gray-600 rounded px-3 py-2 text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                      />
+                      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => setReview(null)}
+                          className="px-3 py-1.5 text-sm border dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => submitReview(checklist.id, item.id)}
+                          disabled={!comment.trim()}
+                          className={`px-3 py-1.5 text-sm text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed ${
+                            review.decision === 'approve' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'
+                          }`}
+                        >
+                          {review.decision === 'approve' ? 'Confirm Approval' : 'Confirm Rejection'}
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useMemo } from 'react';
+import { format, addDays, differenceInCalendarDays, eachDayOfInterval, isToday, parseISO, startOfDay } from 'date-fns';
+import type { AnyActivity, ClosureDay } from '../../types';
+import { getActivityCategory } from '../../types';
+import { getHolidaysForYears, isForeignHolidayDate, describeHolidays } from '../../utils/holidays';
+import type { DatedChecklistItem } from '../../utils/reminderScheduler';
+
+interface AgendaViewProps {
+  startDate: Date;
+  weeks: number; // How far ahead the agenda runs
+  activities: AnyActivity[];
+  tasksByDate: Map<string, DatedChecklistItem[]>; // Checklist items keyed by due date
+  onActivityClick: (activity: AnyActivity) => void;
+  holidayCalendarIds?: string[]; // Holiday calendars to show (defaults to CA state)
+  closureDays?: ClosureDay[];
+}
+
+interface AgendaDay {
+  date: Date;
+  activities: AnyActivity[];
+  tasks: DatedChecklistItem[];
+}
+
+export default function AgendaView({
+  startDate,
+  weeks,
+  activities,
+  tasksByDate,
+  onActivityClick,
+  holidayCalendarIds,
+  closureDays,
+}: AgendaViewProps) {
+  const endDate = useMemo(() => addDays(startDate, weeks * 7 - 1), [startDate, weeks]);
+
+  const holidays = useMemo(
+    () => getHolidaysForYears(startDate.getFullYear(), endDate.getFullYear(), holidayCalendarIds, closureDays),
+    [startDate, endDate, holidayCalendarIds, closureDays]
+  );
+
+  // Only days with something on them make it into the list
+  const agendaDays = useMemo(() => {
+    const result: AgendaDay[] = [];
+    for (const date of eachDayOfInterval({ start: startDate, end: endDate })) {
+      const dateStr = format(date, 'yyyy-MM-dd');
+      const dayActivities = activities.filter(
+        (a) => a.startDate && a.startDate <= dateStr && (a.endDate || a.startDate) >= dateStr
+      );
+      const tasks = tasksByDate.get(dateStr) || [];
+      if (dayActivities.length > 0 || tasks.length > 0) {
+        result.push({ date, activities: dayActivities, tasks });
+      }
+    }
+    return result;
+  }, [startDate, endDate, activities, tasksByDate]);
+
+  const getActivityColor = (activity: AnyActivity) => {
+    if (activity.status === 'completed') return 'bg-emerald-500';
+    if (activity.status === 'draft') return 'bg-gray-400';
+    if (activity.status === 'cancelled') return 'bg-red-400';
+    const category = getActivityCategory(activity.activityType);
+    if (category === 'trade') return 'bg-blue-500';
+    if (category === 'educational') return 'bg-green-500';
+    if (category === 'consultation') return 'bg-amber-500';
+    return 'bg-gray-500';
+  };
+
+  // "Starts", "Ends", or "Day 2 of 5" for multi-day activities
+  const getSpanLabel = (activity: AnyActivity, date: Date) => {
+    const start = parseISO(activity.startDate);
+    const totalDays = differenceInCalendarDays(parseISO(activity.endDate || activity.startDate), start) + 1;
+    if (totalDays === 1) return null;
+    const dayNumber = differenceInCalendarDays(date, start) + 1;
+    if (dayNumber === 1) return 'Starts';
+    if (dayNumber === totalDays) return 'Ends';
+    return `Day ${dayNumber} of ${totalDays}`;
+  };
+
+  const today = startOfDay(new Date());
+
+  if (agendaDays.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-48 text-gray-500 dark:text-gray-400">
+        <p>Nothing scheduled in the next {weeks} weeks</p>
+        <p className="text-sm text-gray-400 dark:text-gray-500 mt-1">Try adjusting the filters or date range</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-auto divide-y dark:divide-gray-700">
+      {agendaDays.map(({ date, activities: dayActivities, tasks }) => {
+        const holiday = holidays.get(format(date, 'yyyy-MM-dd'));
+        const isForeignHoliday = !!holiday && isForeignHolidayDate(holiday);
+        return (
+          <div key={date.getTime()} className="flex gap-4 px-4 py-3">
+            {/* Date column */}
+            <div className="w-24 flex-shrink-0">
+              <div
+                className={`text-sm font-semibold ${
+                  isToday(date) ? 'text-blue-600 dark:text-blue-400' : 'text-gray-900 dark:text-gray-100'
+                }`}
+              >
+                {format(date, 'EEE, MMM d')}
+              </div>
+              {isToday(date) && <div className="text-xs text-blue-600 dark:text-blue-400">Today</div>}
+              {holiday && (
+                <div
+                  className={`text-xs truncate ${
+                    isForeignHoliday ? 'text-purple-600 dark:text-purple-400' : 'text-red-600 dark:text-red-400'
+                  }`}
+                  title={describeHolidays(holiday)}
+                >
+                  {holiday[0].name}
+                </div>
+              )}
+            </div>
+
+            {/* Activities and checklist items */}
+            <div className="flex-1 min-w-0 space-y-1">
+              {dayActivities.map((activity) => {
+                const spanLabel = getSpanLabel(activity, date);
+                return (
+                  <button
+                    key={activity.id}
+                    onClick={() => onActivityClick(activity)}
+                    className="w-full flex items-center gap-2 px-2 py-1 rounded text-left hover:bg-gray-50 dark:hover:bg-gray-700"
+                  >
+                    <span className={`w-3 h-3 rounded flex-shrink-0 ${getActivityColor(activity)}`} />
+                    <span className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{activity.name}</span>
+                    {activity.location && (
+                      <span className="text-xs text-gray-500 dark:text-gray-400 truncate">{activity.location}</span>
+                    )}
+                    {spanLabel && (
+                      <span className="ml-auto flex-shrink-0 text-xs text-gray-500 dark:text-gray-400">{spanLabel}</span>
+                    )}
+                  </button>
+                );
+              })}
+              {tasks.map(({ activity, item }) => {
+                const isDone = item.status === 'completed' || item.status === 'skipped';
+                const isOverdue = !isDone && date < today;
+                return (
+                  <button
+                    key={item.id}
+                    onClick={() => onActivityClick(activity)}
+                    className="w-full flex items-center gap-2 px-2 py-1 rounded text-left hover:bg-gray-50 dark:hover:bg-gray-700"
+                  >
+                    <span
+                      className={`w-3 h-3 rounded-full border-2 flex-shrink-0 ${
+                        isDone ? 'border-emerald-500 bg-emerald-500' : 'border-gray-400 dark:border-gray-500'
+                      }`}
+                    />
+                    <span
+                      className={`text-sm truncate ${
+                        isDone
+                          ? 'text-gray-400 dark:text-gray-500 line-through'
+                          : isOverdue
+                          ? 'text-red-600 dark:text-red-400'
+                          : 'text-gray-700 dark:text-gray-300'
+                      }`}
+                    >
+                      {item.title}
+                    </span>
+                    <span className="ml-auto flex-shrink-0 text-xs text-gray-500 dark:text-gray-400 truncate max-w-[40%]">
+                      {activity.name}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,19 +1,81 @@
-import { useState } from 'react';
-import { format, addMonths, subMonths, addYears, subYears } from 'date-fns';
+import { useMemo, useState } from 'react';
+import {
+  format,
+  addMonths,
+  subMonths,
+  addYears,
+  subYears,
+  addWeeks,
+  subWeeks,
+  addDays,
+  startOfDay,
+  startOfWeek,
+  endOfWeek,
+} from 'date-fns';
 import { useActivities } from '../../context/ActivityContext';
 import MonthView from './MonthView';
+import WeekView from './WeekView';
+import AgendaView from './AgendaView';
 import QuarterView from './QuarterView';
 import YearView from './YearView';
+import HolidaySettings from './HolidaySettings';
+import RescheduleDialog from './RescheduleDialog';
+import UndoToast from './UndoToast';
+import type { AnyActivity, CalendarViewMode } from '../../types';
+import type { ActivityDates, RescheduleUndo } from '../../utils/reschedule';
+import { getShiftedDueDates } from '../../utils/businessDays';
+import { DEFAULT_HOLIDAY_CALENDAR_IDS, getActivityHolidayCalendarIds } from '../../utils/holidays';
+import { getChecklistItemsByDueDate } from '../../utils/reminderScheduler';
+import { DEFAULT_AGENDA_WEEKS } from '../../utils/userPreferences';
 
-type ViewMode = 'month' | 'quarter' | 'year';
+const VIEW_MODES: CalendarViewMode[] = ['week', 'month', 'quarter', 'year', 'agenda'];
+const AGENDA_WEEK_OPTIONS = [2, 4, 8, 12];
 
 export default function CalendarView() {
   const [currentDate, setCurrentDate] = useState(new Date());
-  const [viewMode, setViewMode] = useState<ViewMode>('month');
-  const { filteredActivities, selectActivity } = useActivities();
+  const [pendingReschedule, setPendingReschedule] = useState<{ activity: AnyActivity; dates: ActivityDates } | null>(
+    null
+  );
+  const [lastReschedule, setLastReschedule] = useState<{ name: string; undo: RescheduleUndo } | null>(null);
+  const {
+    filteredActivities,
+    selectActivity,
+    checklistInstances,
+    closureDays,
+    userPreferences,
+    updateUserPreferences,
+    can,
+    undoReschedule,
+  } = useActivities();
+  const [viewMode, setViewMode] = useState<CalendarViewMode>(userPreferences.defaultCalendarView);
+  const agendaWeeks = userPreferences.agendaWeeks ?? DEFAULT_AGENDA_WEEKS;
+  const agendaStart = useMemo(() => startOfDay(currentDate), [currentDate]);
+
+  // The user's chosen calendars plus those of every country the shown activities visit
+  const holidayCalendarIds = useMemo(() => {
+    const selected = userPreferences.holidayCalendarIds ?? DEFAULT_HOLIDAY_CALENDAR_IDS;
+    if (userPreferences.overlayDestinationHolidays === false) return selected;
+    return [...new Set([...selected, ...filteredActivities.flatMap(getActivityHolidayCalendarIds)])];
+  }, [userPreferences.holidayCalendarIds, userPreferences.overlayDestinationHolidays, filteredActivities]);
+
+  const shiftedDueDates = useMemo(
+    () => getShiftedDueDates(checklistInstances, filteredActivities),
+    [checklistInstances, filteredActivities]
+  );
+
+  const tasksByDate = useMemo(
+    () => getChecklistItemsByDueDate(checklistInstances, filteredActivities),
+    [checklistInstances, filteredActivities]
+  );
 
   const handlePrevious = () => {
     switch (viewMode) {
+      case 'week':
+        setCurrentDate(subWeeks(currentDate, 1));
+        break;
+      case 'agenda':
+        setCurrentDate(subWeeks(currentDate, agendaWeeks));
+        break;
       case 'month':
         setCurrentDate(subMonths(currentDate, 1));
         break;
@@ -28,6 +90,12 @@ export default function CalendarView() {
 
   const handleNext = () => {
     switch (viewMode) {
+      case 'week':
+        setCurrentDate(addWeeks(currentDate, 1));
+        break;
+      case 'agenda':
+        setCurrentDate(addWeeks(currentDate, agendaWeeks));
+        break;
       case 'month':
         setCurrentDate(addMonths(currentDate, 1));
         break;
@@ -44,8 +112,17 @@ export default function CalendarView() {
     setCurrentDate(new Date());
   };
 
+  const formatRangeTitle = (start: Date, end: Date) =>
+    start.getFullYear() === end.getFullYear()
+      ? `${format(start, 'MMM d')} - ${format(end, 'MMM d, yyyy')}`
+      : `${format(start, 'MMM d, yyyy')} - ${format(end, 'MMM d, yyyy')}`;
+
   const getTitle = () => {
     switch (viewMode) {
+      case 'week':
+        return formatRangeTitle(startOfWeek(currentDate), endOfWeek(currentDate));
+      case 'agenda':
+        return formatRangeTitle(agendaStart, addDays(agendaStart, agendaWeeks * 7 - 1));
       case 'month':
         return format(currentDate, 'MMMM yyyy');
       case 'quarter':
@@ -71,9 +148,34 @@ export default function CalendarView() {
         </div>
 
         <div className="flex items-center gap-4">
+          <HolidaySettings />
+
+          {viewMode === 'agenda' && (
+            <select
+              value={agendaWeeks}
+              onChange={(e) => updateUserPreferences({ agendaWeeks: Number(e.target.value) })}
+              className="text-sm border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            >
+              {AGENDA_WEEK_OPTIONS.map((weeks) => (
+                <option key={weeks} value={weeks}>
+                  Next {weeks} weeks
+                </option>
+              ))}
+            </select>
+          )}
+
+          {viewMode !== userPreferences.defaultCalendarView && (
+            <button
+              onClick={() => updateUserPreferences({ defaultCalendarView: viewMode })}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+            >
+              Make default
+            </button>
+          )}
+
           {/* View mode selector */}
           <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
-            {(['month', 'quarter', 'year'] as ViewMode[]).map((mode) => (
+            {VIEW_MODES.map((mode) => (
               <button
                 key={mode}
                 onClick={() => setViewMode(mode)}
@@ -136,16 +238,39 @@ export default function CalendarView() {
           <span className="w-3 h-3 rounded bg-red-100 dark:bg-red-900/50 border border-red-200 dark:border-red-700"></span>
           <span className="text-gray-600 dark:text-gray-400">Holiday</span>
         </div>
+        <div className="flex items-center gap-1.5">
+          <span className="w-3 h-3 rounded bg-purple-100 dark:bg-purple-900/50 border border-purple-200 dark:border-purple-700"></span>
+          <span className="text-gray-600 dark:text-gray-400">Destination holiday</span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <span className="px-1 text-xs rounded bg-amber-100 dark:bg-amber-900/50 text-amber-700 dark:text-amber-300">↤</span>
+          <span className="text-gray-600 dark:text-gray-400">Due dates moved off weekends/holidays</span>
+        </div>
       </div>
 
       {/* Calendar content */}
       <div className="flex-1 bg-white dark:bg-gray-800 rounded-lg shadow dark:shadow-gray-900/50 overflow-hidden">
+        {viewMode === 'week' && (
+          <WeekView
+            currentDate={currentDate}
+            activities={filteredActivities}
+            tasksByDate={tasksByDate}
+            onActivityClick={(activity) => selectActivity(activity.id)}
+            holidayCalendarIds={holidayCalendarIds}
+            closureDays={closureDays}
+          />
+        )}
         {viewMode === 'month' && (
           <MonthView
             currentDate={currentDate}
             activities={filteredActivities}
             onActivityClick={(activity) => selectActivity(activity.id)}
             onDateClick={(date) => console.log('Date clicked:', date)}
+            holidayCalendarIds={holidayCalendarIds}
+            closureDays={closureDays}
+            shiftedDueDates={shiftedDueDates}
+            onActivityReschedule={(activity, dates) => setPendingReschedule({ activity, dates })}
+            canReschedule={(activity) => can('activity:edit', activity)}
           />
         )}
         {viewMode === 'quarter' && (
@@ -153,17 +278,32 @@ export default function CalendarView() {
             currentDate={currentDate}
             activities={filteredActivities}
             onActivityClick={(activity) => selectActivity(activity.id)}
+            holidayCalendarIds={holidayCalendarIds}
+            closureDays={closureDays}
             onMonthClick={(date) => {
               setCurrentDate(date);
               setViewMode('month');
             }}
           />
         )}
+        {viewMode === 'agenda' && (
+          <AgendaView
+            startDate={agendaStart}
+            weeks={agendaWeeks}
+            activities={filteredActivities}
+            tasksByDate={tasksByDate}
+            onActivityClick={(activity) => selectActivity(activity.id)}
+            holidayCalendarIds={holidayCalendarIds}
+            closureDays={closureDays}
+          />
+        )}
         {viewMode === 'year' && (
           <YearView
             year={currentDate.getFullYear()}
             activities={filteredActivities}
             onActivityClick={(activity) => selectActivity(activity.id)}
+            holidayCalendarIds={holidayCalendarIds}
+            closureDays={closureDays}
             onMonthClick={(date) => {
               setCurrentDate(date);
               setViewMode('month');
@@ -171,6 +311,28 @@ export default function CalendarView() {
           />
         )}
       </div>
+
+      {pendingReschedule && (
+        <RescheduleDialog
+          activity={pendingReschedule.activity}
+          dates={pendingReschedule.dates}
+          onCancel={() => setPendingReschedule(null)}
+          onRescheduled={(undo) => {
+            setLastReschedule({ name: pendingReschedule.activity.name, undo });
+            setPendingReschedule(null);
+          }}
+        />
+      )}
+      {lastReschedule && (
+        <UndoToast
+          message={`Rescheduled ${lastReschedule.name}`}
+          onUndo={() => {
+            undoReschedule(lastReschedule.undo);
+            setLastReschedule(null);
+          }}
+          onClose={() => setLastReschedule(null)}
+        />
+      )}
     </div>
   );
 }
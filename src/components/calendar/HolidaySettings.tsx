@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useActivities } from '../../context/ActivityContext';
+import { HOLIDAY_CALENDARS, DEFAULT_HOLIDAY_CALENDAR_IDS } from '../../utils/holidays';
+
+const inputClass =
+  'border dark:border-gray-600 rounded px-2 py-1.5 text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+
+// Picks which holiday calendars the calendar shades and manages office closure days
+export default function HolidaySettings() {
+  const { userPreferences, updateUserPreferences, closureDays, addClosureDay, deleteClosureDay, can } =
+    useActivities();
+  const [isOpen, setIsOpen] = useState(false);
+  const [closureDate, setClosureDate] = useState('');
+  const [closureName, setClosureName] = useState('');
+
+  const selectedIds = userPreferences.holidayCalendarIds ?? DEFAULT_HOLIDAY_CALENDAR_IDS;
+  const overlayDestinations = userPreferences.overlayDestinationHolidays ?? true;
+  const canManageClosures = can('staff:manage');
+
+  const toggleCalendar = (calendarId: string) => {
+    updateUserPreferences({
+      holidayCalendarIds: selectedIds.includes(calendarId)
+        ? selectedIds.filter((id) => id !== calendarId)
+        : [...selectedIds, calendarId],
+    });
+  };
+
+  const handleAddClosure = () => {
+    if (!closureDate || !closureName.trim()) return;
+    if (addClosureDay({ date: closureDate, name: closureName.trim() })) {
+      setClosureDate('');
+      setClosureName('');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-900 dark:text-gray-100 rounded-md transition-colors"
+      >
+        Holidays
+      </button>
+
+      {isOpen && (
+        <>
+          {/* Backdrop to close panel */}
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+
+          <div className="absolute right-0 top-full mt-2 z-20 w-80 max-h-[32rem] overflow-auto bg-white dark:bg-gray-800 rounded-lg shadow-xl dark:shadow-gray-900/50 border border-gray-200 dark:border-gray-700">
+            <div className="px-4 py-3 border-b dark:border-gray-700">
+              <h3 className="font-semibold text-gray-900 dark:text-gray-100">Holiday Calendars</h3>
+            </div>
+
+            <div className="px-4 py-3 space-y-2 border-b dark:border-gray-700">
+              {HOLIDAY_CALENDARS.map((calendar) => (
+                <label
+                  key={calendar.id}
+                  className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(calendar.id)}
+                    onChange={() => toggleCalendar(calendar.id)}
+                    className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:bg-gray-800"
+                  />
+                  <span className="flex-1">{calendar.name}</span>
+                  {calendar.foreign && (
+                    <span className="text-xs text-purple-600 dark:text-purple-400">Destination</span>
+                  )}
+                </label>
+              ))}
+              <label className="flex items-start gap-2 pt-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={overlayDestinations}
+                  onChange={(e) => updateUserPreferences({ overlayDestinationHolidays: e.target.checked })}
+                  className="mt-0.5 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:bg-gray-800"
+                />
+                Also show holidays for the countries activities visit
+              </label>
+            </div>
+
+            <div className="px-4 py-3">
+              <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">Office Closures</h4>
+              {closureDays.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No closure days added.</p>
+              ) : (
+                <ul className="space-y-1 mb-3">
+                  {closureDays.map((closure) => (
+                    <li key={closure.id} className="flex items-center gap-2 text-sm">
+                      <span className="w-24 text-gray-500 dark:text-gray-400">
+                        {format(parseISO(closure.date), 'MMM d, yyyy')}
+                      </span>
+                      <span className="flex-1 truncate text-gray-700 dark:text-gray-300">{closure.name}</span>
+                      {canManageClosures && (
+                        <button
+                          onClick={() => deleteClosureDay(closure.id)}
+                          className="text-gray-400 hover:text-red-500"
+                          title="Remove closure"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {canManageClosures && (
+                <div className="flex flex-col gap-2">
+                  <div className="flex gap-2">
+                    <input
+                      type="date"
+                      value={closureDate}
+                      onChange={(e) => setClosureDate(e.target.value)}
+                      className={inputClass}
+                    />
+                    <input
+                      type="text"
+                      value={closureName}
+                      onChange={(e) => setClosureName(e.target.value)}
+                      placeholder="e.g., Office move"
+                      className={`${inputClass} flex-1 min-w-0`}
+                    />
+                  </div>
+                  <button
+                    onClick={handleAddClosure}
+                    disabled={!closureDate || !closureName.trim()}
+                    className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Add Closure Day
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
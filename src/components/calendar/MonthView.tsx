@@ -1,18 +1,28 @@
-import { useMemo } from 'react';
+import { useCallback, useMemo, useRef } from 'react';
 import { format, isSameMonth, isToday, parseISO, isSameDay, startOfWeek, endOfWeek, isWithinInterval, getDay } from 'date-fns';
-import type { AnyActivity } from '../../types';
+import type { AnyActivity, ClosureDay } from '../../types';
 import { getActivityCategory } from '../../types';
 import { generateMonthWeeks } from '../../utils/dateUtils';
-import { getHolidaysForYears } from '../../utils/holidays';
+import { getHolidaysForYears, isForeignHolidayDate, describeHolidays } from '../../utils/holidays';
+import { describeDueDateAdjustment, type ShiftedDueDate } from '../../utils/businessDays';
+import type { ActivityDates, DragMode } from '../../utils/reschedule';
+import { useActivityDrag } from '../../hooks/useActivityDrag';
 
 interface MonthViewProps {
   currentDate: Date;
   activities: AnyActivity[];
   onActivityClick: (activity: AnyActivity) => void;
   onDateClick: (date: Date) => void;
+  holidayCalendarIds?: string[]; // Holiday calendars to shade (defaults to CA state)
+  closureDays?: ClosureDay[];
+  shiftedDueDates?: Map<string, ShiftedDueDate[]>; // Task due dates rolled off weekends/holidays
+  onActivityReschedule?: (activity: AnyActivity, dates: ActivityDates) => void; // Enables drag-to-reschedule
+  canReschedule?: (activity: AnyActivity) => boolean;
   compact?: boolean;
 }
 
+const noopReschedule = () => {};
+
 interface EventPosition {
   activity: AnyActivity;
   row: number;
@@ -27,15 +37,55 @@ export default function MonthView({
   activities,
   onActivityClick,
   onDateClick,
+  holidayCalendarIds,
+  closureDays,
+  shiftedDueDates,
+  onActivityReschedule,
+  canReschedule,
   compact = false,
 }: MonthViewProps) {
   const weeks = useMemo(() => generateMonthWeeks(currentDate), [currentDate]);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const { preview, beginDrag, isDragClick } = useActivityDrag(onActivityReschedule ?? noopReschedule);
+
+  // While dragging, the dragged activity is drawn at its preview dates
+  const displayedActivities = useMemo(
+    () => (preview ? activities.map((a) => (a.id === preview.activityId ? { ...a, startDate: preview.startDate, endDate: preview.endDate } : a)) : activities),
+    [activities, preview]
+  );
+
+  // Week rows are the grid's children; columns are equal sevenths of the row width
+  const getDateAtPoint = useCallback(
+    (clientX: number, clientY: number) => {
+      const rows = gridRef.current?.children;
+      if (!rows || rows.length === 0) return null;
+      let weekIdx = rows.length - 1;
+      for (let i = 0; i < rows.length; i++) {
+        if (clientY < rows[i].getBoundingClientRect().bottom) {
+          weekIdx = i;
+          break;
+        }
+      }
+      const rect = rows[weekIdx].getBoundingClientRect();
+      const col = Math.min(6, Math.max(0, Math.floor(((clientX - rect.left) / rect.width) * 7)));
+      return weeks[weekIdx]?.[col] ?? null;
+    },
+    [weeks]
+  );
+
+  const isDraggable = (activity: AnyActivity) =>
+    !!onActivityReschedule && !compact && (canReschedule ? canReschedule(activity) : true);
+
+  const startDrag = (event: React.PointerEvent, activity: AnyActivity, mode: DragMode) => {
+    const original = activities.find((a) => a.id === activity.id);
+    if (original && isDraggable(original)) beginDrag(event, original, mode, getDateAtPoint);
+  };
 
   // Get holidays for the current year and adjacent years (to handle month boundaries)
   const holidays = useMemo(() => {
     const year = currentDate.getFullYear();
-    return getHolidaysForYears(year - 1, year + 1);
-  }, [currentDate]);
+    return getHolidaysForYears(year - 1, year + 1, holidayCalendarIds, closureDays);
+  }, [currentDate, holidayCalendarIds, closureDays]);
 
   // Calculate event positions for each week (for spanning bars)
   const weekEventPositions = useMemo(() => {
@@ -47,7 +97,7 @@ export default function MonthView({
       const positions: EventPosition[] = [];
       const rowOccupancy: boolean[][] = [];
 
-      const weekActivities = activities
+      const weekActivities = displayedActivities
         .filter((activity) => {
           if (!activity.startDate) return false;
           const actStart = parseISO(activity.startDate);
@@ -107,7 +157,7 @@ export default function MonthView({
     });
 
     return result;
-  }, [weeks, activities]);
+  }, [weeks, displayedActivities]);
 
   const getActivityColor = (activity: AnyActivity) => {
     if (activity.status === 'completed') return 'bg-emerald-500';
@@ -166,7 +216,7 @@ export default function MonthView({
       </div>
 
       {/* Calendar grid */}
-      <div className="flex-1 flex flex-col">
+      <div ref={gridRef} className="flex-1 flex flex-col">
         {weeks.map((week, weekIdx) => {
           const weekPositions = weekEventPositions[weekIdx] || [];
 
@@ -179,21 +229,38 @@ export default function MonthView({
                   const isTodayDate = isToday(date);
                   const dateStr = format(date, 'yyyy-MM-dd');
                   const holiday = holidays.get(dateStr);
+                  const isForeignHoliday = !!holiday && isForeignHolidayDate(holiday);
+                  const shifted = shiftedDueDates?.get(dateStr);
 
                   return (
                     <div
                       key={dayIdx}
                       className={`border-b border-r dark:border-gray-700 overflow-hidden cursor-pointer hover:bg-gray-50/50 dark:hover:bg-gray-700/50 transition-colors ${
-                        !isCurrentMonth ? 'bg-gray-50/50 dark:bg-gray-800/50' : holiday ? 'bg-red-50 dark:bg-red-900/30' : 'bg-white dark:bg-gray-900'
+                        !isCurrentMonth ? 'bg-gray-50/50 dark:bg-gray-800/50' : isForeignHoliday ? 'bg-purple-50 dark:bg-purple-900/30' : holiday ? 'bg-red-50 dark:bg-red-900/30' : 'bg-white dark:bg-gray-900'
                       }`}
-                      onClick={() => onDateClick(date)}
-                      title={holiday?.name}
+                      onClick={() => !isDragClick() && onDateClick(date)}
+                      title={holiday && describeHolidays(holiday)}
                     >
                       <div className={`p-1 ${compact ? 'text-center' : 'text-right'}`}>
+                        {!compact && shifted && (
+                          <span
+                            className="float-left px-1 text-xs rounded bg-amber-100 dark:bg-amber-900/50 text-amber-700 dark:text-amber-300"
+                            title={`Task due dates moved here:\n${shifted
+                              .map(({ activity, item, adjustment }) =>
+                                `• ${item.title} (${activity.name}): ${describeDueDateAdjustment(adjustment)}`
+                              )
+                              .join('\n')}`}
+                            onClick={(e) => e.stopPropagation()}
+                          >
+                            ↤ {shifted.length}
+                          </span>
+                        )}
                         <span
                           className={`inline-flex items-center justify-center ${compact ? 'text-xs' : 'text-sm'} ${
                             isTodayDate
                               ? 'bg-blue-600 text-white rounded-full w-6 h-6 font-semibold'
+                              : isForeignHoliday
+                              ? 'text-purple-600 dark:text-purple-400 font-medium'
                               : holiday
                               ? 'text-red-600 dark:text-red-400 font-medium'
                               : isCurrentMonth
@@ -235,6 +302,8 @@ export default function MonthView({
 
                     const leftPercent = (pos.startCol / 7) * 100;
                     const widthPercent = ((pos.endCol - pos.startCol + 1) / 7) * 100;
+                    const draggable = isDraggable(pos.activity);
+                    const isDragging = preview?.activityId === pos.activity.id;
 
                     return (
                       <div
@@ -243,24 +312,39 @@ export default function MonthView({
                           getActivityColor(pos.activity)
                         } ${getActivityHoverColor(pos.activity)} ${
                           pos.isStart ? 'rounded-l-md ml-1' : ''
-                        } ${pos.isEnd ? 'rounded-r-md mr-1' : ''}`}
+                        } ${pos.isEnd ? 'rounded-r-md mr-1' : ''} ${draggable ? 'select-none touch-none' : ''} ${
+                          isDragging ? 'opacity-80 ring-2 ring-blue-300 z-10' : ''
+                        }`}
                         style={{
                           left: `calc(${leftPercent}% + ${pos.isStart ? '2px' : '0px'})`,
                           width: `calc(${widthPercent}% - ${pos.isStart && pos.isEnd ? '4px' : pos.isStart || pos.isEnd ? '2px' : '0px'})`,
                           top: `${pos.row * 24}px`,
                         }}
+                        onPointerDown={draggable ? (e) => startDrag(e, pos.activity, 'move') : undefined}
                         onClick={(e) => {
                           e.stopPropagation();
-                          onActivityClick(pos.activity);
+                          if (!isDragClick()) onActivityClick(pos.activity);
                         }}
                         title={`${pos.activity.name}\n${format(parseISO(pos.activity.startDate), 'MMM d')}${pos.activity.endDate && pos.activity.endDate !== pos.activity.startDate ? ' - ' + format(parseISO(pos.activity.endDate), 'MMM d') : ''}\nStatus: ${pos.activity.status.replace('_', ' ')}`}
                       >
+                        {draggable && pos.isStart && (
+                          <span
+                            className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize"
+                            onPointerDown={(e) => startDrag(e, pos.activity, 'start')}
+                          />
+                        )}
                         {pos.isStart && (
                           <span className="truncate flex items-center">
                             {getStatusIcon(pos.activity)}
                             {pos.activity.name}
                           </span>
                         )}
+                        {draggable && pos.isEnd && (
+                          <span
+                            className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize"
+                            onPointerDown={(e) => startDrag(e, pos.activity, 'end')}
+                          />
+                        )}
                       </div>
                     );
                   })}
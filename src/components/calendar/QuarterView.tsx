@@ -13,15 +13,17 @@ import {
   isWithinInterval,
   addMonths,
 } from 'date-fns';
-import type { AnyActivity } from '../../types';
+import type { AnyActivity, ClosureDay } from '../../types';
 import { getActivityCategory } from '../../types';
-import { getHolidaysForYears, type Holiday } from '../../utils/holidays';
+import { getHolidaysForYears, isForeignHolidayDate, describeHolidays, type Holiday } from '../../utils/holidays';
 
 interface QuarterViewProps {
   currentDate: Date;
   activities: AnyActivity[];
   onActivityClick: (activity: AnyActivity) => void;
   onMonthClick: (date: Date) => void;
+  holidayCalendarIds?: string[]; // Holiday calendars to shade (defaults to CA state)
+  closureDays?: ClosureDay[];
 }
 
 interface EventPosition {
@@ -38,6 +40,8 @@ export default function QuarterView({
   activities,
   onActivityClick,
   onMonthClick,
+  holidayCalendarIds,
+  closureDays,
 }: QuarterViewProps) {
   // Get the three months of the quarter
   const quarterStart = new Date(currentDate.getFullYear(), Math.floor(currentDate.getMonth() / 3) * 3, 1);
@@ -47,8 +51,8 @@ export default function QuarterView({
 
   // Get holidays for the year
   const holidays = useMemo(() => {
-    return getHolidaysForYears(quarterStart.getFullYear(), quarterStart.getFullYear());
-  }, [quarterStart]);
+    return getHolidaysForYears(quarterStart.getFullYear(), quarterStart.getFullYear(), holidayCalendarIds, closureDays);
+  }, [quarterStart, holidayCalendarIds, closureDays]);
 
   const getActivityColor = (activity: AnyActivity) => {
     if (activity.status === 'completed') return 'bg-emerald-500';
@@ -81,7 +85,7 @@ export default function QuarterView({
 interface QuarterMonthViewProps {
   monthDate: Date;
   activities: AnyActivity[];
-  holidays: Map<string, Holiday>;
+  holidays: Map<string, Holiday[]>;
   onActivityClick: (activity: AnyActivity) => void;
   onMonthClick: (date: Date) => void;
   getActivityColor: (activity: AnyActivity) => string;
@@ -211,6 +215,7 @@ function QuarterMonthView({
                   {week.map((date, dayIdx) => {
                     const dateStr = format(date, 'yyyy-MM-dd');
                     const holiday = holidays.get(dateStr);
+                    const isForeignHoliday = !!holiday && isForeignHolidayDate(holiday);
                     const isTodayDate = isToday(date);
                     const isCurrentMonth = date.getMonth() === monthDate.getMonth();
 
@@ -218,14 +223,16 @@ function QuarterMonthView({
                       <div
                         key={dayIdx}
                         className={`border-b border-r dark:border-gray-700 text-center relative ${
-                          !isCurrentMonth ? 'bg-gray-50 dark:bg-gray-800' : holiday ? 'bg-red-50 dark:bg-red-900/30' : 'bg-white dark:bg-gray-900'
+                          !isCurrentMonth ? 'bg-gray-50 dark:bg-gray-800' : isForeignHoliday ? 'bg-purple-50 dark:bg-purple-900/30' : holiday ? 'bg-red-50 dark:bg-red-900/30' : 'bg-white dark:bg-gray-900'
                         }`}
-                        title={holiday?.name}
+                        title={holiday && describeHolidays(holiday)}
                       >
                         <span
                           className={`inline-block text-xs mt-0.5 ${
                             isTodayDate
                               ? 'bg-blue-600 text-white rounded-full w-5 h-5 leading-5'
+                              : isForeignHoliday
+                              ? 'text-purple-600 dark:text-purple-400 font-medium'
                               : holiday
                               ? 'text-red-600 dark:text-red-400 font-medium'
                               : isCurrentMonth
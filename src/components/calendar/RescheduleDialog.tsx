@@ -0,0 +1,113 @@
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useActivities } from '../../context/ActivityContext';
+import type { AnyActivity } from '../../types';
+import { getFiscalYearFromDateString } from '../../utils/fiscalYear';
+import {
+  getRescheduleWarnings,
+  previewRescheduleShifts,
+  type ActivityDates,
+  type RescheduleUndo,
+} from '../../utils/reschedule';
+
+interface RescheduleDialogProps {
+  activity: AnyActivity;
+  dates: ActivityDates;
+  onCancel: () => void;
+  onRescheduled: (undo: RescheduleUndo) => void;
+}
+
+function formatRange({ startDate, endDate }: ActivityDates): string {
+  const start = format(parseISO(startDate), 'MMM d, yyyy');
+  if (!endDate || endDate === startDate) return start;
+  return `${start} - ${format(parseISO(endDate), 'MMM d, yyyy')}`;
+}
+
+// Confirms a drag-and-drop reschedule before anything is saved
+export default function RescheduleDialog({ activity, dates, onCancel, onRescheduled }: RescheduleDialogProps) {
+  const { getChecklistForActivity, procedureTemplates, rescheduleActivity, getHoliday } = useActivities();
+  const [moveTasks, setMoveTasks] = useState(true);
+
+  const shifts = useMemo(
+    () =>
+      previewRescheduleShifts(activity, getChecklistForActivity(activity.id), procedureTemplates, dates.startDate, getHoliday),
+    [activity, getChecklistForActivity, procedureTemplates, dates.startDate, getHoliday]
+  );
+  // Manually adjusted due dates stay put, as when the start date is edited
+  const movingShifts = shifts.filter((s) => !s.isManualOverride);
+  const keptCount = shifts.length - movingShifts.length;
+  const warnings = getRescheduleWarnings(dates, getHoliday);
+  const newFiscalYear = getFiscalYearFromDateString(dates.startDate);
+
+  const handleConfirm = () => {
+    const undo = rescheduleActivity(activity.id, dates, moveTasks ? movingShifts : []);
+    if (undo) onRescheduled(undo);
+    else onCancel();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl dark:shadow-gray-900/50 p-6 max-w-md w-full mx-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-1">Reschedule Activity</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{activity.name}</p>
+
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm mb-4">
+          <dt className="text-gray-500 dark:text-gray-400">From</dt>
+          <dd className="text-gray-700 dark:text-gray-300">{formatRange(activity)}</dd>
+          <dt className="text-gray-500 dark:text-gray-400">To</dt>
+          <dd className="font-medium text-gray-900 dark:text-gray-100">{formatRange(dates)}</dd>
+        </dl>
+
+        {newFiscalYear !== activity.fiscalYear && (
+          <p className="text-sm text-blue-700 dark:text-blue-300 mb-3">
+            Fiscal year changes from {activity.fiscalYear} to {newFiscalYear}.
+          </p>
+        )}
+
+        {warnings.length > 0 && (
+          <ul className="mb-3 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/30 text-sm text-amber-700 dark:text-amber-300 space-y-0.5">
+            {warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        )}
+
+        {movingShifts.length > 0 ? (
+          <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={moveTasks}
+              onChange={(e) => setMoveTasks(e.target.checked)}
+              className="mt-0.5 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:bg-gray-800"
+            />
+            <span>
+              Move {movingShifts.length} checklist due date{movingShifts.length !== 1 ? 's' : ''} with it
+              {keptCount > 0 && (
+                <span className="block text-xs text-gray-500 dark:text-gray-400">
+                  {keptCount} manually adjusted date{keptCount !== 1 ? 's' : ''} will be kept
+                </span>
+              )}
+            </span>
+          </label>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No checklist due dates will move.</p>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            Reschedule
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
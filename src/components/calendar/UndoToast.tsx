@@ -0,0 +1,34 @@
+import { useEffect, useRef } from 'react';
+
+const UNDO_TOAST_MS = 10000;
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onClose: () => void;
+}
+
+export default function UndoToast({ message, onUndo, onClose }: UndoToastProps) {
+  // Parents pass inline handlers, so keep the latest without restarting the timer
+  const onCloseRef = useRef(onClose);
+  useEffect(() => {
+    onCloseRef.current = onClose;
+  });
+
+  useEffect(() => {
+    const timer = setTimeout(() => onCloseRef.current(), UNDO_TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [message]);
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 px-4 py-3 bg-gray-900 dark:bg-gray-700 text-white rounded-lg shadow-lg"
+    >
+      <span className="text-sm">{message}</span>
+      <button onClick={onUndo} className="text-sm font-medium text-blue-300 hover:text-blue-200">
+        Undo
+      </button>
+    </div>
+  );
+}
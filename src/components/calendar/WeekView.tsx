@@ -0,0 +1,200 @@
+import { useMemo } from 'react';
+import { format, isToday, parseISO, startOfWeek, endOfWeek, eachDayOfInterval, getDay, startOfDay } from 'date-fns';
+import type { AnyActivity, ClosureDay } from '../../types';
+import { getActivityCategory } from '../../types';
+import { getHolidaysForYears, isForeignHolidayDate, describeHolidays } from '../../utils/holidays';
+import type { DatedChecklistItem } from '../../utils/reminderScheduler';
+
+interface WeekViewProps {
+  currentDate: Date;
+  activities: AnyActivity[];
+  tasksByDate: Map<string, DatedChecklistItem[]>; // Checklist items keyed by due date
+  onActivityClick: (activity: AnyActivity) => void;
+  holidayCalendarIds?: string[]; // Holiday calendars to shade (defaults to CA state)
+  closureDays?: ClosureDay[];
+}
+
+interface EventPosition {
+  activity: AnyActivity;
+  row: number;
+  startCol: number;
+  endCol: number;
+  isStart: boolean;
+  isEnd: boolean;
+}
+
+export default function WeekView({
+  currentDate,
+  activities,
+  tasksByDate,
+  onActivityClick,
+  holidayCalendarIds,
+  closureDays,
+}: WeekViewProps) {
+  const days = useMemo(
+    () => eachDayOfInterval({ start: startOfWeek(currentDate), end: endOfWeek(currentDate) }),
+    [currentDate]
+  );
+
+  const holidays = useMemo(() => {
+    const year = currentDate.getFullYear();
+    return getHolidaysForYears(year - 1, year + 1, holidayCalendarIds, closureDays);
+  }, [currentDate, holidayCalendarIds, closureDays]);
+
+  // Activity spans for the week, stacked into rows so overlapping activities don't collide
+  const positions = useMemo(() => {
+    const weekStart = days[0];
+    const weekEnd = days[6];
+    const result: EventPosition[] = [];
+    const rowOccupancy: boolean[][] = [];
+
+    const weekActivities = activities
+      .filter((activity) => {
+        if (!activity.startDate) return false;
+        const actStart = parseISO(activity.startDate);
+        const actEnd = activity.endDate ? parseISO(activity.endDate) : actStart;
+        return actStart <= weekEnd && actEnd >= weekStart;
+      })
+      .sort((a, b) => a.startDate.localeCompare(b.startDate) || (b.endDate || '').localeCompare(a.endDate || ''));
+
+    for (const activity of weekActivities) {
+      const actStart = parseISO(activity.startDate);
+      const actEnd = activity.endDate ? parseISO(activity.endDate) : actStart;
+      const startCol = actStart < weekStart ? 0 : getDay(actStart);
+      const endCol = actEnd > weekEnd ? 6 : getDay(actEnd);
+
+      let row = 0;
+      while (rowOccupancy[row]?.slice(startCol, endCol + 1).some(Boolean)) row++;
+      if (!rowOccupancy[row]) rowOccupancy[row] = [false, false, false, false, false, false, false];
+      for (let col = startCol; col <= endCol; col++) rowOccupancy[row][col] = true;
+
+      result.push({ activity, row, startCol, endCol, isStart: actStart >= weekStart, isEnd: actEnd <= weekEnd });
+    }
+    return result;
+  }, [days, activities]);
+
+  const rowCount = positions.reduce((max, pos) => Math.max(max, pos.row + 1), 0);
+
+  const getActivityColor = (activity: AnyActivity) => {
+    if (activity.status === 'completed') return 'bg-emerald-500';
+    if (activity.status === 'draft') return 'bg-gray-400';
+    if (activity.status === 'cancelled') return 'bg-red-400';
+    const category = getActivityCategory(activity.activityType);
+    if (category === 'trade') return 'bg-blue-500';
+    if (category === 'educational') return 'bg-green-500';
+    if (category === 'consultation') return 'bg-amber-500';
+    return 'bg-gray-500';
+  };
+
+  const getTaskDotColor = ({ item }: DatedChecklistItem) => {
+    if (item.status === 'completed' || item.status === 'skipped') return 'bg-emerald-500';
+    if (item.status === 'blocked') return 'bg-red-500';
+    if (item.status === 'in_progress') return 'bg-blue-500';
+    return 'bg-gray-400';
+  };
+
+  const today = startOfDay(new Date());
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Day headers */}
+      <div className="grid grid-cols-7 border-b bg-gray-50 dark:bg-gray-800 dark:border-gray-700">
+        {days.map((date) => {
+          const holiday = holidays.get(format(date, 'yyyy-MM-dd'));
+          const isForeignHoliday = !!holiday && isForeignHolidayDate(holiday);
+          return (
+            <div
+              key={date.getTime()}
+              className={`py-2 text-center border-r dark:border-gray-700 ${
+                isForeignHoliday ? 'bg-purple-50 dark:bg-purple-900/30' : holiday ? 'bg-red-50 dark:bg-red-900/30' : ''
+              }`}
+              title={holiday && describeHolidays(holiday)}
+            >
+              <div className="text-xs font-medium text-gray-500 dark:text-gray-400">{format(date, 'EEE')}</div>
+              <div
+                className={`inline-flex items-center justify-center w-8 h-8 text-lg ${
+                  isToday(date)
+                    ? 'bg-blue-600 text-white rounded-full font-semibold'
+                    : isForeignHoliday
+                    ? 'text-purple-600 dark:text-purple-400 font-medium'
+                    : holiday
+                    ? 'text-red-600 dark:text-red-400 font-medium'
+                    : 'text-gray-900 dark:text-gray-100'
+                }`}
+              >
+                {format(date, 'd')}
+              </div>
+              {holiday && (
+                <div className="px-1 text-[10px] truncate text-gray-500 dark:text-gray-400">{holiday[0].name}</div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Activity spans */}
+      {rowCount > 0 && (
+        <div className="relative border-b dark:border-gray-700 flex-shrink-0" style={{ height: `${rowCount * 24 + 8}px` }}>
+          {positions.map((pos) => (
+            <div
+              key={pos.activity.id}
+              className={`absolute h-5 flex items-center px-1.5 text-xs text-white font-medium cursor-pointer shadow-sm hover:opacity-90 ${getActivityColor(
+                pos.activity
+              )} ${pos.isStart ? 'rounded-l-md' : ''} ${pos.isEnd ? 'rounded-r-md' : ''}`}
+              style={{
+                left: `calc(${(pos.startCol / 7) * 100}% + 2px)`,
+                width: `calc(${((pos.endCol - pos.startCol + 1) / 7) * 100}% - 4px)`,
+                top: `${pos.row * 24 + 4}px`,
+              }}
+              onClick={() => onActivityClick(pos.activity)}
+              title={`${pos.activity.name}\nStatus: ${pos.activity.status.replace('_', ' ')}`}
+            >
+              <span className="truncate">{pos.activity.name}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Checklist items due each day */}
+      <div className="flex-1 grid grid-cols-7 overflow-auto">
+        {days.map((date) => {
+          const tasks = tasksByDate.get(format(date, 'yyyy-MM-dd')) || [];
+          return (
+            <div key={date.getTime()} className="border-r dark:border-gray-700 p-1 space-y-1 min-h-[120px]">
+              {tasks.map((task) => {
+                const isDone = task.item.status === 'completed' || task.item.status === 'skipped';
+                const isOverdue = !isDone && date < today;
+                return (
+                  <button
+                    key={task.item.id}
+                    onClick={() => onActivityClick(task.activity)}
+                    className="w-full text-left px-1.5 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                    title={`${task.item.title}\n${task.activity.name}\nStatus: ${task.item.status.replace('_', ' ')}`}
+                  >
+                    <div className="flex items-center gap-1.5">
+                      <span className={`w-2 h-2 rounded-full flex-shrink-0 ${getTaskDotColor(task)}`} />
+                      <span
+                        className={`text-xs truncate ${
+                          isDone
+                            ? 'text-gray-400 dark:text-gray-500 line-through'
+                            : isOverdue
+                            ? 'text-red-600 dark:text-red-400 font-medium'
+                            : 'text-gray-900 dark:text-gray-100'
+                        }`}
+                      >
+                        {task.item.title}
+                      </span>
+                    </div>
+                    <div className="pl-3.5 text-[10px] truncate text-gray-500 dark:text-gray-400">
+                      {task.activity.name}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -12,15 +12,17 @@ import {
   endOfWeek,
   isWithinInterval,
 } from 'date-fns';
-import type { AnyActivity } from '../../types';
+import type { AnyActivity, ClosureDay } from '../../types';
 import { getActivityCategory } from '../../types';
-import { getHolidaysForYears, type Holiday } from '../../utils/holidays';
+import { getHolidaysForYears, isForeignHolidayDate, describeHolidays, type Holiday } from '../../utils/holidays';
 
 interface YearViewProps {
   year: number;
   activities: AnyActivity[];
   onActivityClick: (activity: AnyActivity) => void;
   onMonthClick: (date: Date) => void;
+  holidayCalendarIds?: string[]; // Holiday calendars to shade (defaults to CA state)
+  closureDays?: ClosureDay[];
 }
 
 interface EventPosition {
@@ -37,6 +39,8 @@ export default function YearView({
   activities,
   onActivityClick,
   onMonthClick,
+  holidayCalendarIds,
+  closureDays,
 }: YearViewProps) {
   const months = useMemo(() => {
     return Array.from({ length: 12 }, (_, i) => new Date(year, i, 1));
@@ -44,8 +48,8 @@ export default function YearView({
 
   // Get holidays for the year
   const holidays = useMemo(() => {
-    return getHolidaysForYears(year, year);
-  }, [year]);
+    return getHolidaysForYears(year, year, holidayCalendarIds, closureDays);
+  }, [year, holidayCalendarIds, closureDays]);
 
   const getActivityColor = (activity: AnyActivity) => {
     if (activity.status === 'completed') return 'bg-emerald-500';
@@ -78,7 +82,7 @@ export default function YearView({
 interface YearMonthViewProps {
   monthDate: Date;
   activities: AnyActivity[];
-  holidays: Map<string, Holiday>;
+  holidays: Map<string, Holiday[]>;
   onActivityClick: (activity: AnyActivity) => void;
   onMonthClick: (date: Date) => void;
   getActivityColor: (activity: AnyActivity) => string;
@@ -229,6 +233,7 @@ function YearMonthView({
                   {week.map((date, dayIdx) => {
                     const dateStr = format(date, 'yyyy-MM-dd');
                     const holiday = holidays.get(dateStr);
+                    const isForeignHoliday = !!holiday && isForeignHolidayDate(holiday);
                     const isTodayDate = isToday(date);
                     const isCurrentMonth = date.getMonth() === monthDate.getMonth();
 
@@ -236,14 +241,16 @@ function YearMonthView({
                       <div
                         key={dayIdx}
                         className={`text-center relative ${
-                          !isCurrentMonth ? 'bg-gray-50 dark:bg-gray-800' : holiday ? 'bg-red-50 dark:bg-red-900/30' : 'bg-white dark:bg-gray-800'
+                          !isCurrentMonth ? 'bg-gray-50 dark:bg-gray-800' : isForeignHoliday ? 'bg-purple-50 dark:bg-purple-900/30' : holiday ? 'bg-red-50 dark:bg-red-900/30' : 'bg-white dark:bg-gray-800'
                         }`}
-                        title={holiday?.name}
+                        title={holiday && describeHolidays(holiday)}
                       >
                         <span
                           className={`inline-block text-[9px] leading-3 ${
                             isTodayDate
                               ? 'bg-blue-600 text-white rounded-full w-3 h-3 leading-3'
+                              : isForeignHoliday
+                              ? 'text-purple-600 dark:text-purple-400 font-medium'
                               : holiday
                               ? 'text-red-600 dark:text-red-400 font-medium'
                               : isCurrentMonth
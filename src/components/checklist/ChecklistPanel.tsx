@@ -1,25 +1,56 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { format, parseISO } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
 import { useActivities } from '../../context/ActivityContext';
 import type { ChecklistItem, ChecklistItemStatus } from '../../types';
 import { getTasksByPhase, getPhaseStatus, formatDueDateWithStatus } from '../../utils/reminderScheduler';
+import { getTemplateAtVersion } from '../../utils/procedureTemplates';
+import { getChecklistUpgrade } from '../../utils/checklistMigration';
+import { getOpenPredecessors } from '../../utils/taskDependencies';
+import { describeDueDateAdjustment } from '../../utils/businessDays';
+import { getRequiredApproverRole, isAwaitingApproval } from '../../utils/approvals';
+import ChecklistUpgradeDialog from './ChecklistUpgradeDialog';
+import DependencyGraph from './DependencyGraph';
+import CustomReminderDialog from '../reminders/CustomReminderDialog';
 
 interface ChecklistPanelProps {
   activityId: string;
 }
 
 export default function ChecklistPanel({ activityId }: ChecklistPanelProps) {
-  const { getChecklistForActivity, updateChecklistItem, procedureTemplates, activities } = useActivities();
+  const {
+    getChecklistForActivity,
+    updateChecklistItem,
+    upgradeChecklistToLatestTemplate,
+    procedureTemplates,
+    activities,
+    currentUserId,
+    submitForApproval,
+    getStaffMember,
+    staffMembers,
+    can,
+  } = useActivities();
+  const [showUpgradeDialog, setShowUpgradeDialog] = useState(false);
+  const [viewMode, setViewMode] = useState<'list' | 'graph'>('list');
+  const [overrideItem, setOverrideItem] = useState<{ item: ChecklistItem; openPredecessors: ChecklistItem[] } | null>(null);
+  const [overrideReason, setOverrideReason] = useState('');
+  const [reminderItem, setReminderItem] = useState<ChecklistItem | null>(null);
 
   const activity = activities.find((a) => a.id === activityId);
   const checklist = getChecklistForActivity(activityId);
-  const template = procedureTemplates.find((t) => t.id === activity?.procedureTemplateId);
+  const template = procedureTemplates.find((t) => t.id === checklist?.procedureTemplateId);
 
   const phaseData = useMemo(() => {
     if (!checklist || !template) return null;
-    return getTasksByPhase(checklist, template);
+    // Group by the template version the checklist was generated from
+    return getTasksByPhase(checklist, getTemplateAtVersion(template, checklist.procedureTemplateVersion));
   }, [checklist, template]);
 
+  const upgradeDiff = useMemo(
+    () => (checklist && template ? getChecklistUpgrade(checklist, template) : null),
+    [checklist, template]
+  );
+
   if (!checklist || !template || !phaseData) {
     return (
       <div className="p-6 text-center text-gray-500 dark:text-gray-400">
@@ -29,14 +60,63 @@ export default function ChecklistPanel({ activityId }: ChecklistPanelProps) {
     );
   }
 
+  const canEdit = !!activity && can('activity:edit', activity);
+
   const handleStatusChange = (itemId: string, newStatus: ChecklistItemStatus) => {
-    const updates: Partial<ChecklistItem> = { status: newStatus };
+    const item = checklist.items.find((i) => i.id === itemId);
+    if (!item) return;
+
+    // Completing ahead of open predecessors needs an explicit override
+    const openPredecessors = getOpenPredecessors(checklist, item);
+    if (newStatus === 'completed' && openPredecessors.length > 0 && !item.dependencyOverride) {
+      setOverrideReason('');
+      setOverrideItem({ item, openPredecessors });
+      return;
+    }
+
+    // Completing an item that needs sign-off sends it for approval instead
+    if (newStatus === 'completed' && isAwaitingApproval(item)) {
+      if (item.approvalStatus !== 'pending') {
+        submitForApproval(checklist.id, item.id);
+      }
+      return;
+    }
+
+    const updates: Partial<ChecklistItem> = { status: newStatus, blockedFromStatus: undefined };
     if (newStatus === 'completed') {
       updates.completedAt = new Date().toISOString();
     }
+    // Moving an automatically blocked item along means the user accepts the slip
+    if (item.blockedFromStatus && newStatus !== 'blocked') {
+      updates.dependencyOverride = true;
+    }
     updateChecklistItem(checklist.id, itemId, updates);
   };
 
+  const handleOverrideConfirm = () => {
+    if (!overrideItem || !overrideReason.trim()) return;
+    const { item, openPredecessors } = overrideItem;
+
+    const now = new Date().toISOString();
+    updateChecklistItem(checklist.id, item.id, {
+      ...(isAwaitingApproval(item)
+        ? { approvalStatus: 'pending', approvalRequestedById: currentUserId || undefined, approvalRequestedAt: now }
+        : { status: 'completed', completedAt: now }),
+      blockedFromStatus: undefined,
+      dependencyOverride: true,
+      notes: [
+        ...item.notes,
+        {
+          id: uuidv4(),
+          content: `Completed before dependencies (${openPredecessors.map((p) => p.title).join(', ')}): ${overrideReason.trim()}`,
+          authorId: currentUserId || '',
+          createdAt: now,
+        },
+      ],
+    });
+    setOverrideItem(null);
+  };
+
   const getStatusIcon = (status: ChecklistItemStatus) => {
     switch (status) {
       case 'completed':
@@ -100,6 +180,22 @@ export default function ChecklistPanel({ activityId }: ChecklistPanelProps) {
 
   return (
     <div className="space-y-6">
+      {/* Template upgrade */}
+      {upgradeDiff && canEdit && (
+        <div className="bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 rounded-lg p-4 flex items-center justify-between gap-4">
+          <div className="text-sm text-blue-800 dark:text-blue-200">
+            <span className="font-medium">{template.name}</span> has been updated to v{upgradeDiff.toVersion}.
+            This checklist uses v{upgradeDiff.fromVersion}.
+          </div>
+          <button
+            onClick={() => setShowUpgradeDialog(true)}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex-shrink-0"
+          >
+            Review changes
+          </button>
+        </div>
+      )}
+
       {/* Progress overview */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow dark:shadow-gray-900/50 p-4">
         <div className="flex items-center justify-between mb-2">
@@ -121,8 +217,29 @@ export default function ChecklistPanel({ activityId }: ChecklistPanelProps) {
         )}
       </div>
 
+      {/* View toggle */}
+      <div className="flex justify-end">
+        <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
+          {(['list', 'graph'] as const).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => setViewMode(mode)}
+              className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                viewMode === mode
+                  ? 'bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 shadow-sm'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
+              }`}
+            >
+              {mode === 'list' ? 'List' : 'Dependencies'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {viewMode === 'graph' && <DependencyGraph checklist={checklist} />}
+
       {/* Phases */}
-      {Array.from(phaseData.entries()).map(([phaseId, { phase, items }]) => {
+      {viewMode === 'list' && Array.from(phaseData.entries()).map(([phaseId, { phase, items }]) => {
         const phaseStatus = getPhaseStatus(items);
 
         return (
@@ -140,6 +257,7 @@ export default function ChecklistPanel({ activityId }: ChecklistPanelProps) {
             <div className="divide-y dark:divide-gray-700">
               {items.map((item) => {
                 const dueDateInfo = formatDueDateWithStatus(item.dueDate);
+                const openPredecessors = getOpenPredecessors(checklist, item);
 
                 return (
                   <div
@@ -163,7 +281,8 @@ export default function ChecklistPanel({ activityId }: ChecklistPanelProps) {
                             : 'not_started';
                         handleStatusChange(item.id, newStatus);
                       }}
-                      className="flex-shrink-0 mt-0.5"
+                      disabled={!canEdit}
+                      className="flex-shrink-0 mt-0.5 disabled:cursor-not-allowed"
                     >
                       {getStatusIcon(item.status)}
                     </button>
@@ -200,22 +319,99 @@ export default function ChecklistPanel({ activityId }: ChecklistPanelProps) {
                       <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{item.description}</p>
                       <div className="flex items-center gap-3 mt-2 text-xs text-gray-400 dark:text-gray-500">
                         <span className="px-1.5 py-0.5 bg-gray-100 dark:bg-gray-700 rounded">{item.category}</span>
-                        {item.requiresApproval && (
-                          <span className="px-1.5 py-0.5 bg-purple-100 dark:bg-purple-900/50 text-purple-700 dark:text-purple-300 rounded">
-                            Requires approval
+                        {item.dueDateAdjustment && (
+                          <span className="text-amber-600 dark:text-amber-400">
+                            {describeDueDateAdjustment(item.dueDateAdjustment)}
+                          </span>
+                        )}
+                        {item.requiresApproval && item.approvalStatus === 'pending' && (
+                          <span className="px-1.5 py-0.5 bg-yellow-100 dark:bg-yellow-900/50 text-yellow-700 dark:text-yellow-300 rounded">
+                            Awaiting {getRequiredApproverRole(item)} approval
                           </span>
                         )}
+                        {item.requiresApproval && item.approvalStatus === 'approved' && (
+                          <span className="px-1.5 py-0.5 bg-green-100 dark:bg-green-900/50 text-green-700 dark:text-green-300 rounded">
+                            Approved{getStaffMember(item.approvedById || '') ? ` by ${getStaffMember(item.approvedById || '')?.name}` : ''}
+                          </span>
+                        )}
+                        {item.requiresApproval && item.approvalStatus === 'rejected' && (
+                          <span className="px-1.5 py-0.5 bg-red-100 dark:bg-red-900/50 text-red-700 dark:text-red-300 rounded">
+                            Approval rejected
+                          </span>
+                        )}
+                        {item.requiresApproval && (!item.approvalStatus || item.approvalStatus === 'rejected') && (
+                          <>
+                            <span className="px-1.5 py-0.5 bg-purple-100 dark:bg-purple-900/50 text-purple-700 dark:text-purple-300 rounded">
+                              Requires {getRequiredApproverRole(item)} approval
+                            </span>
+                            {item.status !== 'skipped' && canEdit && (
+                              <button
+                                onClick={() => handleStatusChange(item.id, 'completed')}
+                                className="text-blue-600 dark:text-blue-400 hover:underline"
+                              >
+                                Submit for approval
+                              </button>
+                            )}
+                          </>
+                        )}
                         {item.completedAt && (
                           <span>Completed {format(parseISO(item.completedAt), 'MMM d')}</span>
                         )}
+                        {canEdit && item.status !== 'completed' && item.status !== 'skipped' && (
+                          <button
+                            onClick={() => setReminderItem(item)}
+                            className="text-blue-600 dark:text-blue-400 hover:underline"
+                          >
+                            Remind
+                          </button>
+                        )}
                       </div>
+                      {item.notes.length > 0 && (
+                        <ul className="mt-2 space-y-1">
+                          {item.notes.map((note) => (
+                            <li key={note.id} className="text-xs text-gray-600 dark:text-gray-400">
+                              <span className="text-gray-400 dark:text-gray-500">
+                                {getStaffMember(note.authorId)?.name || 'Unknown'} • {format(parseISO(note.createdAt), 'MMM d')}:
+                              </span>{' '}
+                              {note.content}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      {openPredecessors.length > 0 && item.status !== 'completed' && item.status !== 'skipped' && (
+                        <div
+                          className={`mt-1 text-xs ${
+                            item.blockedFromStatus ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'
+                          }`}
+                        >
+                          {item.blockedFromStatus ? 'Blocked by late tasks: ' : 'Waiting on: '}
+                          {openPredecessors.map((p) => p.title).join(', ')}
+                        </div>
+                      )}
                     </div>
 
                     {/* Quick actions */}
-                    <div className="flex-shrink-0">
+                    <div className="flex-shrink-0 flex flex-col items-end gap-1">
+                      <select
+                        value={item.assigneeId || ''}
+                        onChange={(e) => updateChecklistItem(checklist.id, item.id, { assigneeId: e.target.value || undefined })}
+                        disabled={!canEdit}
+                        className="text-xs border dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 max-w-[10rem]"
+                        title="Assignee"
+                      >
+                        <option value="">Unassigned</option>
+                        {staffMembers
+                          .filter((s) => s.isActive || s.id === item.assigneeId)
+                          .map((s) => (
+                            <option key={s.id} value={s.id}>
+                              {s.name}
+                            </option>
+                          ))}
+                      </select>
                       <select
                         value={item.status}
                         onChange={(e) => handleStatusChange(item.id, e.target.value as ChecklistItemStatus)}
+                        disabled={!canEdit}
                         className="text-xs border dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
                       >
                         <option value="not_started">Not Started</option>
@@ -232,6 +428,62 @@ export default function ChecklistPanel({ activityId }: ChecklistPanelProps) {
           </div>
         );
       })}
+
+      {/* Dependency override */}
+      {overrideItem && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl dark:shadow-gray-900/50 p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">Open Dependencies</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">
+              <strong>{overrideItem.item.title}</strong> depends on tasks that are not finished yet:
+            </p>
+            <ul className="text-sm text-gray-700 dark:text-gray-300 list-disc pl-5 mb-4">
+              {overrideItem.openPredecessors.map((p) => (
+                <li key={p.id}>{p.title}</li>
+              ))}
+            </ul>
+            <label className="block text-sm text-gray-600 dark:text-gray-400 mb-1">
+              Reason for completing anyway (saved as a note)
+            </label>
+            <textarea
+              value={overrideReason}
+              onChange={(e) => setOverrideReason(e.target.value)}
+              rows={3}
+              className="w-full border dark:border-gray-600 rounded px-3 py-2 text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            />
+            <div className="flex gap-3 mt-4">
+              <button
+                onClick={() => setOverrideItem(null)}
+                className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleOverrideConfirm}
+                disabled={!overrideReason.trim()}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Complete Anyway
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showUpgradeDialog && upgradeDiff && (
+        <ChecklistUpgradeDialog
+          diff={upgradeDiff}
+          onCancel={() => setShowUpgradeDialog(false)}
+          onConfirm={() => {
+            upgradeChecklistToLatestTemplate(checklist.id);
+            setShowUpgradeDialog(false);
+          }}
+        />
+      )}
+
+      {reminderItem && activity && (
+        <CustomReminderDialog activity={activity} checklistItem={reminderItem} onClose={() => setReminderItem(null)} />
+      )}
     </div>
   );
 }
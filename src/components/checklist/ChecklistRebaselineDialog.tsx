@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import type { ChecklistDateShift } from '../../utils/reminderScheduler';
+import { describeDueDateAdjustment } from '../../utils/businessDays';
+
+interface ChecklistRebaselineDialogProps {
+  shifts: ChecklistDateShift[];
+  onApply: (acceptedShifts: ChecklistDateShift[]) => void;
+  onCancel: () => void;
+}
+
+export default function ChecklistRebaselineDialog({ shifts, onApply, onCancel }: ChecklistRebaselineDialogProps) {
+  // Manually adjusted due dates are kept unless the user opts in
+  const [acceptedIds, setAcceptedIds] = useState<Set<string>>(
+    () => new Set(shifts.filter((s) => !s.isManualOverride).map((s) => s.itemId))
+  );
+
+  const toggle = (itemId: string) => {
+    setAcceptedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(itemId)) {
+        next.delete(itemId);
+      } else {
+        next.add(itemId);
+      }
+      return next;
+    });
+  };
+
+  const allAccepted = acceptedIds.size === shifts.length;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl dark:shadow-gray-900/50 p-6 max-w-lg w-full mx-4 max-h-[80vh] flex flex-col">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-1">Reschedule Checklist</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+          The start date changed. Choose which task due dates should move with it.
+        </p>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 pb-2 border-b dark:border-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={allAccepted}
+            onChange={() => setAcceptedIds(allAccepted ? new Set() : new Set(shifts.map((s) => s.itemId)))}
+            className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:bg-gray-800"
+          />
+          Select all ({acceptedIds.size} of {shifts.length})
+        </label>
+
+        <div className="flex-1 overflow-auto divide-y dark:divide-gray-700">
+          {shifts.map((shift) => (
+            <label key={shift.itemId} className="flex items-start gap-2 py-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={acceptedIds.has(shift.itemId)}
+                onChange={() => toggle(shift.itemId)}
+                className="mt-0.5 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:bg-gray-800"
+              />
+              <div className="min-w-0">
+                <div className="text-gray-900 dark:text-gray-100">{shift.title}</div>
+                <div className="text-gray-500 dark:text-gray-400">
+                  {format(parseISO(shift.fromDueDate), 'MMM d, yyyy')} → {format(parseISO(shift.toDueDate), 'MMM d, yyyy')}
+                  {shift.isManualOverride && (
+                    <span className="ml-2 px-1.5 py-0.5 bg-yellow-100 dark:bg-yellow-900/50 text-yellow-700 dark:text-yellow-300 text-xs rounded">
+                      Manually set
+                    </span>
+                  )}
+                </div>
+                {shift.toDueDateAdjustment && (
+                  <div className="text-xs text-amber-600 dark:text-amber-400">
+                    {describeDueDateAdjustment(shift.toDueDateAdjustment)}
+                  </div>
+                )}
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            Keep Current Dates
+          </button>
+          <button
+            onClick={() => onApply(shifts.filter((s) => acceptedIds.has(s.itemId)))}
+            disabled={acceptedIds.size === 0}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Apply {acceptedIds.size} Change{acceptedIds.size !== 1 ? 's' : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import type { ChecklistItemChangeField, ChecklistTemplateDiff } from '../../utils/checklistMigration';
+
+interface ChecklistUpgradeDialogProps {
+  diff: ChecklistTemplateDiff;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const FIELD_LABELS: Record<ChecklistItemChangeField, string> = {
+  title: 'title',
+  description: 'description',
+  category: 'category',
+  isRequired: 'required',
+  estimatedHours: 'estimated hours',
+  requiresApproval: 'approval',
+  phase: 'phase',
+  dependencies: 'dependencies',
+  dueDate: 'due date',
+};
+
+export default function ChecklistUpgradeDialog({ diff, onConfirm, onCancel }: ChecklistUpgradeDialogProps) {
+  const hasChanges = diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl dark:shadow-gray-900/50 p-6 max-w-lg w-full mx-4 max-h-[80vh] flex flex-col">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-1">Upgrade Checklist</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+          Template v{diff.fromVersion} → v{diff.toVersion}. Status, notes and assignees of existing tasks are kept.
+        </p>
+
+        <div className="flex-1 overflow-auto space-y-4 text-sm">
+          {!hasChanges && (
+            <p className="text-gray-500 dark:text-gray-400">No task changes. Only the version number will be updated.</p>
+          )}
+
+          {diff.added.length > 0 && (
+            <div>
+              <h4 className="font-medium text-green-700 dark:text-green-400 mb-1">
+                Added ({diff.added.length})
+              </h4>
+              <ul className="space-y-1">
+                {diff.added.map(({ task }) => (
+                  <li key={task.id} className="text-gray-700 dark:text-gray-300">+ {task.title}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {diff.changed.length > 0 && (
+            <div>
+              <h4 className="font-medium text-blue-700 dark:text-blue-400 mb-1">
+                Changed ({diff.changed.length})
+              </h4>
+              <ul className="space-y-1">
+                {diff.changed.map(({ item, task, fields }) => (
+                  <li key={item.id} className="text-gray-700 dark:text-gray-300">
+                    ~ {task.title}{' '}
+                    <span className="text-gray-400">({fields.map((f) => FIELD_LABELS[f]).join(', ')})</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {diff.removed.length > 0 && (
+            <div>
+              <h4 className="font-medium text-red-700 dark:text-red-400 mb-1">
+                Removed ({diff.removed.length})
+              </h4>
+              <ul className="space-y-1">
+                {diff.removed.map(({ item, willBeKept }) => (
+                  <li key={item.id} className="text-gray-700 dark:text-gray-300">
+                    − {item.title}
+                    {willBeKept && (
+                      <span className="text-gray-400"> (has progress, kept under "Other Tasks")</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            Upgrade Checklist
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
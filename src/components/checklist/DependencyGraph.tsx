@@ -0,0 +1,115 @@
+import { useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import type { ChecklistInstance, ChecklistItemStatus } from '../../types';
+import { getDependencyLayers } from '../../utils/taskDependencies';
+
+interface DependencyGraphProps {
+  checklist: ChecklistInstance;
+}
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 52;
+const COLUMN_GAP = 64;
+const ROW_GAP = 16;
+const PADDING = 16;
+
+const STATUS_COLORS: Record<ChecklistItemStatus, { fill: string; stroke: string }> = {
+  not_started: { fill: '#f9fafb', stroke: '#d1d5db' },
+  in_progress: { fill: '#eff6ff', stroke: '#3b82f6' },
+  completed: { fill: '#f0fdf4', stroke: '#22c55e' },
+  blocked: { fill: '#fef2f2', stroke: '#ef4444' },
+  skipped: { fill: '#f3f4f6', stroke: '#9ca3af' },
+};
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+export default function DependencyGraph({ checklist }: DependencyGraphProps) {
+  const layout = useMemo(() => {
+    const layers = getDependencyLayers(checklist);
+    const positions = new Map<string, { x: number; y: number }>();
+
+    layers.forEach((layer, column) => {
+      layer.forEach((item, row) => {
+        positions.set(item.taskId, {
+          x: PADDING + column * (NODE_WIDTH + COLUMN_GAP),
+          y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+        });
+      });
+    });
+
+    const maxRows = Math.max(0, ...layers.map((layer) => layer.length));
+    return {
+      positions,
+      width: PADDING * 2 + layers.length * NODE_WIDTH + Math.max(0, layers.length - 1) * COLUMN_GAP,
+      height: PADDING * 2 + maxRows * NODE_HEIGHT + Math.max(0, maxRows - 1) * ROW_GAP,
+    };
+  }, [checklist]);
+
+  const hasDependencies = checklist.items.some((item) => (item.dependsOnTaskIds || []).length > 0);
+  if (!hasDependencies) {
+    return (
+      <div className="p-6 text-center text-gray-500 dark:text-gray-400">
+        No task dependencies are defined for this checklist.
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow dark:shadow-gray-900/50 overflow-auto">
+      <svg width={layout.width} height={layout.height} className="block">
+        <defs>
+          <marker id="dependency-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+            <path d="M0,0 L10,5 L0,10 z" fill="#9ca3af" />
+          </marker>
+        </defs>
+
+        {/* Edges */}
+        {checklist.items.flatMap((item) =>
+          (item.dependsOnTaskIds || []).map((taskId) => {
+            const from = layout.positions.get(taskId);
+            const to = layout.positions.get(item.taskId);
+            if (!from || !to) return null;
+
+            const x1 = from.x + NODE_WIDTH;
+            const y1 = from.y + NODE_HEIGHT / 2;
+            const x2 = to.x;
+            const y2 = to.y + NODE_HEIGHT / 2;
+            const bend = (x2 - x1) / 2;
+            return (
+              <path
+                key={`${taskId}-${item.taskId}`}
+                d={`M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`}
+                fill="none"
+                stroke="#9ca3af"
+                strokeWidth={1.5}
+                markerEnd="url(#dependency-arrow)"
+              />
+            );
+          })
+        )}
+
+        {/* Nodes */}
+        {checklist.items.map((item) => {
+          const position = layout.positions.get(item.taskId);
+          if (!position) return null;
+          const colors = STATUS_COLORS[item.status];
+
+          return (
+            <g key={item.id} transform={`translate(${position.x},${position.y})`}>
+              <title>{item.title}</title>
+              <rect width={NODE_WIDTH} height={NODE_HEIGHT} rx={6} fill={colors.fill} stroke={colors.stroke} strokeWidth={1.5} />
+              <text x={10} y={21} fontSize={12} fontWeight={500} fill="#111827">
+                {truncate(item.title, 28)}
+              </text>
+              <text x={10} y={39} fontSize={11} fill="#6b7280">
+                {item.status.replace('_', ' ')} • due {format(parseISO(item.dueDate), 'MMM d')}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { useActivities } from '../../context/ActivityContext';
 import type { AnyActivity, ChecklistItem, ActivityType } from '../../types';
 import { getActivityCategory, ACTIVITY_TYPES } from '../../types';
 import { getFiscalYear } from '../../utils/fiscalYear';
+import { isReminderActive } from '../../utils/reminderScheduler';
+import { downloadFile } from '../../utils/download';
 
 export default function Dashboard() {
   const {
@@ -18,6 +20,10 @@ export default function Dashboard() {
     importFromJSON,
     customActivityTypes,
     getActivityTypeInfo,
+    reminders,
+    markReminderRead,
+    dismissReminder,
+    can,
   } = useActivities();
 
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -26,16 +32,7 @@ export default function Dashboard() {
   const [showNewActivityMenu, setShowNewActivityMenu] = useState(false);
 
   const handleExport = () => {
-    const data = exportToJSON();
-    const blob = new Blob([data], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `cdfa-activities-backup-${format(new Date(), 'yyyy-MM-dd')}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadFile(exportToJSON(), `cdfa-activities-backup-${format(new Date(), 'yyyy-MM-dd')}.json`, 'application/json');
   };
 
   const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -50,7 +47,7 @@ export default function Dashboard() {
         setImportError(null);
         setShowDataPanel(false);
       } catch (err) {
-        setImportError('Failed to import: Invalid file format');
+        setImportError(`Failed to import: ${err instanceof Error ? err.message : 'Invalid file format'}`);
       }
     };
     reader.readAsText(file);
@@ -113,6 +110,15 @@ export default function Dashboard() {
     return tasks.sort((a, b) => a.item.dueDate.localeCompare(b.item.dueDate)).slice(0, 5);
   }, [checklistInstances, activities, today]);
 
+  // Upcoming-activity and custom reminders that are due
+  const otherReminders = useMemo(
+    () =>
+      reminders
+        .filter((r) => (r.type === 'activity_upcoming' || r.type === 'custom') && isReminderActive(r))
+        .sort((a, b) => a.scheduledFor.localeCompare(b.scheduledFor)),
+    [reminders]
+  );
+
   // Fiscal year stats
   const fyStats = useMemo(() => {
     const fyActivities = activities.filter((a) => a.fiscalYear === currentFY && !a.isArchived);
@@ -216,100 +222,102 @@ export default function Dashboard() {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
             </svg>
           </button>
-          <div className="relative">
-            <button
-              onClick={() => setShowNewActivityMenu(!showNewActivityMenu)}
-              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
-            >
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-              </svg>
-              New Activity
-              <svg className={`w-4 h-4 transition-transform ${showNewActivityMenu ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-              </svg>
-            </button>
-
-            {/* Dropdown Menu */}
-            {showNewActivityMenu && (
-              <>
-                {/* Backdrop to close menu */}
-                <div
-                  className="fixed inset-0 z-10"
-                  onClick={() => setShowNewActivityMenu(false)}
-                />
-                <div className="absolute right-0 mt-2 w-64 bg-white dark:bg-gray-800 rounded-lg shadow-lg dark:shadow-gray-900/50 border dark:border-gray-700 z-20 py-2">
-                  {/* Trade Section */}
-                  <div className="px-3 py-1.5 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                    Trade
-                  </div>
-                  <button
-                    onClick={() => handleCreateActivity('outbound_trade_mission')}
-                    className="w-full px-4 py-2 text-left text-sm hover:bg-blue-50 dark:hover:bg-blue-900/50 flex items-center gap-3 dark:text-gray-100"
-                  >
-                    <span className="w-2 h-2 rounded-full bg-blue-500" />
-                    Outbound Trade Mission
-                  </button>
-                  <button
-                    onClick={() => handleCreateActivity('inbound_trade_mission')}
-                    className="w-full px-4 py-2 text-left text-sm hover:bg-blue-50 dark:hover:bg-blue-900/50 flex items-center gap-3 dark:text-gray-100"
-                  >
-                    <span className="w-2 h-2 rounded-full bg-indigo-500" />
-                    Inbound Trade Mission
-                  </button>
-                  <button
-                    onClick={() => handleCreateActivity('trade_show')}
-                    className="w-full px-4 py-2 text-left text-sm hover:bg-blue-50 dark:hover:bg-blue-900/50 flex items-center gap-3 dark:text-gray-100"
-                  >
-                    <span className="w-2 h-2 rounded-full bg-purple-500" />
-                    Trade Show
-                  </button>
-
-                  <div className="my-2 border-t dark:border-gray-700" />
-
-                  {/* Educational Section */}
-                  <div className="px-3 py-1.5 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                    Educational
-                  </div>
-                  <button
-                    onClick={() => handleCreateActivity('webinar')}
-                    className="w-full px-4 py-2 text-left text-sm hover:bg-green-50 dark:hover:bg-green-900/50 flex items-center gap-3 dark:text-gray-100"
-                  >
-                    <span className="w-2 h-2 rounded-full bg-green-500" />
-                    Webinar
-                  </button>
-                  <button
-                    onClick={() => handleCreateActivity('seminar')}
-                    className="w-full px-4 py-2 text-left text-sm hover:bg-green-50 dark:hover:bg-green-900/50 flex items-center gap-3 dark:text-gray-100"
-                  >
-                    <span className="w-2 h-2 rounded-full bg-teal-500" />
-                    Seminar
-                  </button>
-                  <button
-                    onClick={() => handleCreateActivity('seminar_series')}
-                    className="w-full px-4 py-2 text-left text-sm hover:bg-green-50 dark:hover:bg-green-900/50 flex items-center gap-3 dark:text-gray-100"
-                  >
-                    <span className="w-2 h-2 rounded-full bg-cyan-500" />
-                    Seminar Series
-                  </button>
-
-                  <div className="my-2 border-t dark:border-gray-700" />
-
-                  {/* Other Section */}
-                  <div className="px-3 py-1.5 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                    Other
+          {can('activity:create') && (
+            <div className="relative">
+              <button
+                onClick={() => setShowNewActivityMenu(!showNewActivityMenu)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                New Activity
+                <svg className={`w-4 h-4 transition-transform ${showNewActivityMenu ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              </button>
+  
+              {/* Dropdown Menu */}
+              {showNewActivityMenu && (
+                <>
+                  {/* Backdrop to close menu */}
+                  <div
+                    className="fixed inset-0 z-10"
+                    onClick={() => setShowNewActivityMenu(false)}
+                  />
+                  <div className="absolute right-0 mt-2 w-64 bg-white dark:bg-gray-800 rounded-lg shadow-lg dark:shadow-gray-900/50 border dark:border-gray-700 z-20 py-2">
+                    {/* Trade Section */}
+                    <div className="px-3 py-1.5 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Trade
+                    </div>
+                    <button
+                      onClick={() => handleCreateActivity('outbound_trade_mission')}
+                      className="w-full px-4 py-2 text-left text-sm hover:bg-blue-50 dark:hover:bg-blue-900/50 flex items-center gap-3 dark:text-gray-100"
+                    >
+                      <span className="w-2 h-2 rounded-full bg-blue-500" />
+                      Outbound Trade Mission
+                    </button>
+                    <button
+                      onClick={() => handleCreateActivity('inbound_trade_mission')}
+                      className="w-full px-4 py-2 text-left text-sm hover:bg-blue-50 dark:hover:bg-blue-900/50 flex items-center gap-3 dark:text-gray-100"
+                    >
+                      <span className="w-2 h-2 rounded-full bg-indigo-500" />
+                      Inbound Trade Mission
+                    </button>
+                    <button
+                      onClick={() => handleCreateActivity('trade_show')}
+                      className="w-full px-4 py-2 text-left text-sm hover:bg-blue-50 dark:hover:bg-blue-900/50 flex items-center gap-3 dark:text-gray-100"
+                    >
+                      <span className="w-2 h-2 rounded-full bg-purple-500" />
+                      Trade Show
+                    </button>
+  
+                    <div className="my-2 border-t dark:border-gray-700" />
+  
+                    {/* Educational Section */}
+                    <div className="px-3 py-1.5 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Educational
+                    </div>
+                    <button
+                      onClick={() => handleCreateActivity('webinar')}
+                      className="w-full px-4 py-2 text-left text-sm hover:bg-green-50 dark:hover:bg-green-900/50 flex items-center gap-3 dark:text-gray-100"
+                    >
+                      <span className="w-2 h-2 rounded-full bg-green-500" />
+                      Webinar
+                    </button>
+                    <button
+                      onClick={() => handleCreateActivity('seminar')}
+                      className="w-full px-4 py-2 text-left text-sm hover:bg-green-50 dark:hover:bg-green-900/50 flex items-center gap-3 dark:text-gray-100"
+                    >
+                      <span className="w-2 h-2 rounded-full bg-teal-500" />
+                      Seminar
+                    </button>
+                    <button
+                      onClick={() => handleCreateActivity('seminar_series')}
+                      className="w-full px-4 py-2 text-left text-sm hover:bg-green-50 dark:hover:bg-green-900/50 flex items-center gap-3 dark:text-gray-100"
+                    >
+                      <span className="w-2 h-2 rounded-full bg-cyan-500" />
+                      Seminar Series
+                    </button>
+  
+                    <div className="my-2 border-t dark:border-gray-700" />
+  
+                    {/* Other Section */}
+                    <div className="px-3 py-1.5 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Other
+                    </div>
+                    <button
+                      onClick={() => handleCreateActivity('consultation')}
+                      className="w-full px-4 py-2 text-left text-sm hover:bg-amber-50 dark:hover:bg-amber-900/50 flex items-center gap-3 dark:text-gray-100"
+                    >
+                      <span className="w-2 h-2 rounded-full bg-amber-500" />
+                      Consultation
+                    </button>
                   </div>
-                  <button
-                    onClick={() => handleCreateActivity('consultation')}
-                    className="w-full px-4 py-2 text-left text-sm hover:bg-amber-50 dark:hover:bg-amber-900/50 flex items-center gap-3 dark:text-gray-100"
-                  >
-                    <span className="w-2 h-2 rounded-full bg-amber-500" />
-                    Consultation
-                  </button>
-                </div>
-              </>
-            )}
-          </div>
+                </>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -346,15 +354,17 @@ export default function Dashboard() {
               </svg>
               Export Backup
             </button>
-            <button
-              onClick={() => fileInputRef.current?.click()}
-              className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors flex items-center justify-center gap-2"
-            >
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
-              </svg>
-              Import Backup
-            </button>
+            {can('data:import') && (
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors flex items-center justify-center gap-2"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                </svg>
+                Import Backup
+              </button>
+            )}
             <input
               ref={fileInputRef}
               type="file"
@@ -471,7 +481,7 @@ export default function Dashboard() {
             {upcomingActivities.length === 0 ? (
               <div className="px-6 py-8 text-center text-gray-500 dark:text-gray-400">
                 <p>No upcoming activities in the next 30 days</p>
-                {activities.length === 0 && (
+                {activities.length === 0 && can('data:import') && (
                   <button
                     onClick={loadSampleData}
                     className="mt-3 text-sm text-blue-600 hover:text-blue-700 underline"
@@ -516,12 +526,51 @@ export default function Dashboard() {
             <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Task Reminders</h3>
           </div>
           <div className="divide-y dark:divide-gray-700 max-h-96 overflow-auto">
-            {overdueTasks.length === 0 && dueSoonTasks.length === 0 ? (
+            {otherReminders.length === 0 && overdueTasks.length === 0 && dueSoonTasks.length === 0 ? (
               <div className="px-6 py-8 text-center text-gray-500 dark:text-gray-400">
                 No pending tasks
               </div>
             ) : (
               <>
+                {otherReminders.map((reminder) => (
+                  <div
+                    key={reminder.id}
+                    className="px-6 py-4 hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer transition-colors"
+                    onClick={() => {
+                      markReminderRead(reminder.id);
+                      selectActivity(reminder.activityId);
+                    }}
+                  >
+                    <div className="flex items-start gap-3">
+                      <span
+                        className={`w-2 h-2 rounded-full mt-2 ${reminder.type === 'custom' ? 'bg-purple-500' : 'bg-blue-500'}`}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className={`text-gray-900 dark:text-gray-100 truncate ${reminder.isRead ? '' : 'font-medium'}`}>
+                          {reminder.title}
+                        </div>
+                        <div className="text-sm text-gray-500 dark:text-gray-400">{reminder.message}</div>
+                        {reminder.type === 'custom' && (
+                          <div className="text-xs text-purple-600 dark:text-purple-400 mt-1">
+                            {activities.find((a) => a.id === reminder.activityId)?.name}
+                          </div>
+                        )}
+                      </div>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          dismissReminder(reminder.id);
+                        }}
+                        className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                        title="Dismiss"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  </div>
+                ))}
                 {overdueTasks.map(({ item, activity }) => (
                   <div
                     key={item.id}
@@ -1,13 +1,127 @@
+import { useEffect, useState } from 'react';
 import { Outlet } from 'react-router-dom';
 import Sidebar from './Sidebar';
+import ReminderNotifier from './ReminderNotifier';
+import SyncConflictDialog from './SyncConflictDialog';
+import { useActivities } from '../../context/ActivityContext';
+
+const PERMISSION_TOAST_MS = 5000;
 
 export default function AppLayout() {
+  const {
+    permissionDeniedMessage,
+    clearPermissionDenied,
+    storageError,
+    droppedRecords,
+    dismissDroppedRecords,
+    syncConflicts,
+    resolveSyncConflict,
+    activities,
+    staffMembers,
+  } = useActivities();
+  // Conflicts put off for this session; they come back on reload
+  const [postponedConflicts, setPostponedConflicts] = useState<Set<string>>(new Set());
+  const openConflicts = syncConflicts.filter((c) => !postponedConflicts.has(`${c.collection}/${c.id}`));
+
+  useEffect(() => {
+    if (!permissionDeniedMessage) return;
+    const timer = setTimeout(clearPermissionDenied, PERMISSION_TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [permissionDeniedMessage, clearPermissionDenied]);
+
   return (
     <div className="h-screen flex bg-gray-100 dark:bg-gray-900">
       <Sidebar />
       <main className="flex-1 overflow-auto p-6">
+        {/* Saved data couldn't be read; changes in this session aren't saved so it isn't overwritten */}
+        {storageError && (
+          <div
+            role="alert"
+            className="mb-4 flex items-start gap-3 p-4 bg-red-50 dark:bg-red-900/50 border border-red-200 dark:border-red-700 rounded-lg"
+          >
+            <svg className="w-5 h-5 text-red-500 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+            </svg>
+            <div className="text-sm">
+              <p className="font-medium text-red-700 dark:text-red-300">Your saved data couldn't be loaded</p>
+              <p className="text-red-600 dark:text-red-400">{storageError}</p>
+              <p className="mt-1 text-red-600 dark:text-red-400">Changes made now won't be saved.</p>
+            </div>
+          </div>
+        )}
+        {/* Records that failed validation were set aside; everything else loaded and saves normally */}
+        {droppedRecords.length > 0 && (
+          <div
+            role="status"
+            className="mb-4 flex items-start gap-3 p-4 bg-amber-50 dark:bg-amber-900/40 border border-amber-200 dark:border-amber-700 rounded-lg"
+          >
+            <svg className="w-5 h-5 text-amber-500 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+            </svg>
+            <div className="flex-1 text-sm">
+              <p className="font-medium text-amber-800 dark:text-amber-200">
+                {droppedRecords.length} saved {droppedRecords.length === 1 ? 'record was' : 'records were'} damaged and left out
+              </p>
+              <ul className="mt-1 text-amber-700 dark:text-amber-300">
+                {droppedRecords.map(({ issues }, index) => (
+                  <li key={index}>{issues.join('; ')}</li>
+                ))}
+              </ul>
+              <p className="mt-1 text-amber-700 dark:text-amber-300">
+                Everything else loaded. The damaged records were set aside, not deleted.
+              </p>
+            </div>
+            <button
+              onClick={dismissDroppedRecords}
+              className="text-amber-500 hover:text-amber-700 dark:hover:text-amber-300"
+              title="Dismiss"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        )}
         <Outlet />
       </main>
+
+      <ReminderNotifier />
+
+      {openConflicts.length > 0 && (
+        <SyncConflictDialog
+          key={`${openConflicts[0].collection}/${openConflicts[0].id}`}
+          conflict={openConflicts[0]}
+          remainingCount={openConflicts.length - 1}
+          activities={activities}
+          staffMembers={staffMembers}
+          onResolve={(useRemotePaths) => resolveSyncConflict(openConflicts[0], useRemotePaths)}
+          onPostpone={() =>
+            setPostponedConflicts(new Set(postponedConflicts).add(`${openConflicts[0].collection}/${openConflicts[0].id}`))
+          }
+        />
+      )}
+
+      {/* Denied action message */}
+      {permissionDeniedMessage && (
+        <div
+          role="alert"
+          className="fixed bottom-4 right-4 z-50 max-w-sm flex items-start gap-3 p-4 bg-white dark:bg-gray-800 border border-red-200 dark:border-red-700 rounded-lg shadow-lg dark:shadow-gray-900/50"
+        >
+          <svg className="w-5 h-5 text-red-500 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m0-8v4m9 0a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+          <p className="flex-1 text-sm text-gray-700 dark:text-gray-300">{permissionDeniedMessage}</p>
+          <button
+            onClick={clearPermissionDenied}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            title="Dismiss"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      )}
     </div>
   );
 }
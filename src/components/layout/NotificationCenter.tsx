@@ -0,0 +1,212 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useActivities } from '../../context/ActivityContext';
+import { REMINDER_SNOOZE_OPTIONS, isReminderActive, isReminderSnoozed } from '../../utils/reminderScheduler';
+import { parseReminderDays } from '../../utils/userPreferences';
+import { getNotificationPermission, requestNotificationPermission } from '../../services/notificationService';
+
+export default function NotificationCenter() {
+  const {
+    reminders,
+    unreadReminderCount,
+    markReminderRead,
+    dismissReminder,
+    snoozeReminder,
+    userPreferences,
+    updateUserPreferences,
+  } = useActivities();
+  const [isOpen, setIsOpen] = useState(false);
+  const [snoozingId, setSnoozingId] = useState<string | null>(null);
+  const [notificationPermission, setNotificationPermission] = useState(getNotificationPermission);
+
+  // Overdue first, then by reminder date
+  const activeReminders = reminders
+    .filter(isReminderActive)
+    .sort((a, b) => {
+      if (a.type !== b.type) return a.type === 'task_overdue' ? -1 : 1;
+      return a.scheduledFor.localeCompare(b.scheduledFor);
+    });
+  // Ask for browser permission when opting in; the in-app toast is used if it's refused
+  const handleDesktopNotificationsChange = async (enabled: boolean) => {
+    updateUserPreferences({ desktopNotifications: enabled });
+    if (enabled) {
+      setNotificationPermission(await requestNotificationPermission());
+    }
+  };
+
+  const snoozedCount = reminders.filter((r) => !r.isDismissed && isReminderSnoozed(r)).length;
+
+  return (
+    <div className="relative p-4 border-t border-gray-200 dark:border-gray-700">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left transition-colors ${
+          unreadReminderCount > 0
+            ? 'bg-yellow-50 dark:bg-yellow-900/30 hover:bg-yellow-100 dark:hover:bg-yellow-900/50'
+            : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+        }`}
+      >
+        <svg
+          className={`w-5 h-5 ${unreadReminderCount > 0 ? 'text-yellow-600 dark:text-yellow-400' : 'text-gray-400 dark:text-gray-500'}`}
+          fill="currentColor"
+          viewBox="0 0 20 20"
+        >
+          <path d="M10 2a6 6 0 00-6 6v3.586l-.707.707A1 1 0 004 14h12a1 1 0 00.707-1.707L16 11.586V8a6 6 0 00-6-6zM10 18a3 3 0 01-3-3h6a3 3 0 01-3 3z" />
+        </svg>
+        {unreadReminderCount > 0 ? (
+          <div>
+            <div className="text-sm font-medium text-yellow-800 dark:text-yellow-200">
+              {unreadReminderCount} reminder{unreadReminderCount !== 1 ? 's' : ''}
+            </div>
+            <div className="text-xs text-yellow-600 dark:text-yellow-400">Tasks need attention</div>
+          </div>
+        ) : (
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Notifications</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          {/* Backdrop to close panel */}
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+
+          <div className="absolute left-full bottom-4 ml-2 z-20 w-96 max-h-[32rem] flex flex-col bg-white dark:bg-gray-800 rounded-lg shadow-xl dark:shadow-gray-900/50 border border-gray-200 dark:border-gray-700">
+            <div className="px-4 py-3 border-b dark:border-gray-700 flex items-center justify-between">
+              <h3 className="font-semibold text-gray-900 dark:text-gray-100">Reminders</h3>
+              {snoozedCount > 0 && (
+                <span className="text-xs text-gray-500 dark:text-gray-400">{snoozedCount} snoozed</span>
+              )}
+            </div>
+
+            <div className="flex-1 overflow-auto divide-y dark:divide-gray-700">
+              {activeReminders.length === 0 ? (
+                <div className="px-4 py-8 text-center text-sm text-gray-500 dark:text-gray-400">You're all caught up</div>
+              ) : (
+                activeReminders.map((reminder) => (
+                  <div
+                    key={reminder.id}
+                    className={`px-4 py-3 ${reminder.isRead ? '' : 'bg-blue-50/50 dark:bg-blue-900/20'}`}
+                  >
+                    <div className="flex items-start gap-2">
+                      <span
+                        className={`w-2 h-2 rounded-full mt-1.5 flex-shrink-0 ${
+                          reminder.type === 'task_overdue' ? 'bg-red-500' : 'bg-yellow-500'
+                        }`}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div
+                          className={`text-sm text-gray-900 dark:text-gray-100 ${reminder.isRead ? '' : 'font-medium'}`}
+                        >
+                          {reminder.title}
+                        </div>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">{reminder.message}</p>
+                        <div className="flex flex-wrap items-center gap-3 mt-2 text-xs">
+                          <Link
+                            to={`/activities?activityId=${reminder.activityId}`}
+                            onClick={() => {
+                              markReminderRead(reminder.id);
+                              setIsOpen(false);
+                            }}
+                            className="text-blue-600 dark:text-blue-400 hover:underline"
+                          >
+                            Open activity
+                          </Link>
+                          {!reminder.isRead && (
+                            <button
+                              onClick={() => markReminderRead(reminder.id)}
+                              className="text-gray-600 dark:text-gray-400 hover:underline"
+                            >
+                              Mark read
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setSnoozingId(snoozingId === reminder.id ? null : reminder.id)}
+                            className="text-gray-600 dark:text-gray-400 hover:underline"
+                          >
+                            Snooze
+                          </button>
+                          <button
+                            onClick={() => dismissReminder(reminder.id)}
+                            className="text-gray-600 dark:text-gray-400 hover:underline"
+                          >
+                            Dismiss
+                          </button>
+                        </div>
+                        {snoozingId === reminder.id && (
+                          <div className="flex flex-wrap gap-2 mt-2">
+                            {REMINDER_SNOOZE_OPTIONS.map((option) => (
+                              <button
+                                key={option.value}
+                                onClick={() => {
+                                  snoozeReminder(reminder.id, option.value);
+                                  setSnoozingId(null);
+                                }}
+                                className="px-2 py-1 text-xs border dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300"
+                              >
+                                {option.label}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="px-4 py-3 border-t dark:border-gray-700 space-y-3">
+              <div>
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!!userPreferences.desktopNotifications}
+                    onChange={(e) => handleDesktopNotificationsChange(e.target.checked)}
+                    className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:bg-gray-800"
+                  />
+                  Notify me when tasks are due
+                </label>
+                {userPreferences.desktopNotifications && notificationPermission !== 'granted' && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {notificationPermission === 'unsupported'
+                      ? 'Desktop notifications are not available here; reminders will pop up in the app.'
+                      : 'Desktop notifications are blocked; reminders will pop up in the app.'}
+                  </p>
+                )}
+                {userPreferences.desktopNotifications && (
+                  <div className="flex items-center gap-2 mt-2 text-xs text-gray-600 dark:text-gray-400">
+                    Quiet hours
+                    <input
+                      type="time"
+                      value={userPreferences.quietHoursStart || ''}
+                      onChange={(e) => updateUserPreferences({ quietHoursStart: e.target.value || undefined })}
+                      className="border dark:border-gray-600 rounded px-1 py-0.5 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                    />
+                    to
+                    <input
+                      type="time"
+                      value={userPreferences.quietHoursEnd || ''}
+                      onChange={(e) => updateUserPreferences({ quietHoursEnd: e.target.value || undefined })}
+                      className="border dark:border-gray-600 rounded px-1 py-0.5 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                    />
+                  </div>
+                )}
+              </div>
+              <label className="block text-xs text-gray-600 dark:text-gray-400">
+                Remind me before activities start (days, comma-separated)
+                <input
+                  key={userPreferences.reminderDaysBefore.join(',')}
+                  type="text"
+                  defaultValue={userPreferences.reminderDaysBefore.join(', ')}
+                  onBlur={(e) => updateUserPreferences({ reminderDaysBefore: parseReminderDays(e.target.value) })}
+                  className="mt-1 w-full border dark:border-gray-600 rounded px-2 py-1 text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                  placeholder="e.g. 14, 3"
+                />
+              </label>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
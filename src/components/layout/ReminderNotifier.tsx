@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useActivities } from '../../context/ActivityContext';
+import type { Reminder } from '../../types';
+import { isReminderActive } from '../../utils/reminderScheduler';
+import { isWithinQuietHours } from '../../utils/userPreferences';
+import { claimReminderNotification, showReminderNotification } from '../../services/notificationService';
+import { openTabChannel } from '../../services/tabSync';
+import type { TabChannel } from '../../services/tabSync';
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+const TOAST_MS = 10000;
+
+interface ReminderToastProps {
+  reminder: Reminder;
+  onOpen: () => void;
+  onClose: (id: string) => void;
+}
+
+function ReminderToast({ reminder, onOpen, onClose }: ReminderToastProps) {
+  useEffect(() => {
+    const timer = setTimeout(() => onClose(reminder.id), TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [reminder.id, onClose]);
+
+  return (
+    <div
+      role="status"
+      className="w-80 flex items-start gap-3 p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg dark:shadow-gray-900/50"
+    >
+      <span
+        className={`w-2 h-2 rounded-full mt-1.5 flex-shrink-0 ${
+          reminder.type === 'task_overdue' ? 'bg-red-500' : 'bg-yellow-500'
+        }`}
+      />
+      <button onClick={onOpen} className="flex-1 min-w-0 text-left">
+        <div className="text-sm font-medium text-gray-900 dark:text-gray-100">{reminder.title}</div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">{reminder.message}</p>
+      </button>
+      <button
+        onClick={() => onClose(reminder.id)}
+        className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+        title="Dismiss"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+}
+
+// Notifies about task reminders as they come due while the app is open. With several tabs
+// open the leader tab decides what to notify; reminders it can't show as browser
+// notifications are shared as toasts with every tab, so the one in use shows them.
+export default function ReminderNotifier() {
+  const { reminders, currentUserId, userPreferences, markReminderRead, isLeaderTab } = useActivities();
+  const navigate = useNavigate();
+  const [toasts, setToasts] = useState<Reminder[]>([]);
+  const tabChannelRef = useRef<TabChannel | null>(null);
+
+  const addToasts = useCallback((reminders: Reminder[]) => {
+    setToasts((current) => [...current, ...reminders.filter((r) => !current.some((t) => t.id === r.id))]);
+  }, []);
+
+  useEffect(() => {
+    const channel = openTabChannel((message) => {
+      if (message.type === 'REMINDER_TOASTS') addToasts(message.reminders);
+    });
+    tabChannelRef.current = channel;
+    return () => {
+      channel.close();
+      tabChannelRef.current = null;
+    };
+  }, [addToasts]);
+
+  const openReminder = useCallback(
+    (reminder: Reminder) => {
+      markReminderRead(reminder.id);
+      navigate(`/activities?activityId=${reminder.activityId}`);
+    },
+    [markReminderRead, navigate]
+  );
+
+  const closeToast = useCallback((id: string) => {
+    setToasts((current) => current.filter((t) => t.id !== id));
+  }, []);
+
+  const notifyDueReminders = useCallback(() => {
+    if (!isLeaderTab || !userPreferences.desktopNotifications || isWithinQuietHours(userPreferences)) return;
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const fallbacks: Reminder[] = [];
+    for (const reminder of reminders) {
+      if (reminder.type !== 'task_due' && reminder.type !== 'task_overdue') continue;
+      if (reminder.isRead || !isReminderActive(reminder) || reminder.scheduledFor > today) continue;
+      if (!claimReminderNotification(reminder.id, currentUserId)) continue;
+
+      if (!showReminderNotification(reminder, () => openReminder(reminder))) {
+        fallbacks.push(reminder);
+      }
+    }
+    if (fallbacks.length > 0) {
+      addToasts(fallbacks);
+      tabChannelRef.current?.post({ type: 'REMINDER_TOASTS', reminders: fallbacks });
+    }
+  }, [isLeaderTab, reminders, currentUserId, userPreferences, openReminder, addToasts]);
+
+  useEffect(() => {
+    const initial = setTimeout(notifyDueReminders, 0);
+    const timer = setInterval(notifyDueReminders, CHECK_INTERVAL_MS);
+    return () => {
+      clearTimeout(initial);
+      clearInterval(timer);
+    };
+  }, [notifyDueReminders]);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed top-4 right-4 z-50 flex flex-col gap-2">
+      {toasts.map((reminder) => (
+        <ReminderToast
+          key={reminder.id}
+          reminder={reminder}
+          onOpen={() => {
+            openReminder(reminder);
+            closeToast(reminder.id);
+          }}
+          onClose={closeToast}
+        />
+      ))}
+    </div>
+  );
+}
@@ -1,11 +1,22 @@
+import type { ReactNode } from 'react';
+import type { SyncStatus } from '../../types';
 import { NavLink } from 'react-router-dom';
 import { useActivities } from '../../context/ActivityContext';
 import { ThemeToggle } from '../ThemeToggle';
+import NotificationCenter from './NotificationCenter';
+
+const SYNC_STATUS_DISPLAY: Record<SyncStatus, { label: string; description: string; dot: string }> = {
+  synced: { label: 'Synced', description: 'Up to date with the team', dot: 'bg-emerald-500' },
+  syncing: { label: 'Syncing…', description: 'Sending and receiving changes', dot: 'bg-blue-500 animate-pulse' },
+  offline: { label: 'Offline', description: 'Changes are saved on this device and sync when you reconnect', dot: 'bg-gray-400' },
+  error: { label: 'Sync error', description: 'Changes are saved on this device; syncing will retry', dot: 'bg-red-500' },
+};
 
 export default function Sidebar() {
-  const { unreadReminderCount } = useActivities();
+  const { pendingApprovals, syncStatus } = useActivities();
+  const sync = SYNC_STATUS_DISPLAY[syncStatus];
 
-  const navItems = [
+  const navItems: Array<{ path: string; label: string; icon: ReactNode; badge?: number }> = [
     {
       path: '/',
       label: 'Dashboard',
@@ -62,6 +73,63 @@ export default function Sidebar() {
         </svg>
       ),
     },
+    {
+      path: '/templates',
+      label: 'Templates',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M4 6h16M4 10h16M4 14h10M4 18h6"
+          />
+        </svg>
+      ),
+    },
+    {
+      path: '/approvals',
+      label: 'Approvals',
+      badge: pendingApprovals.length,
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z"
+          />
+        </svg>
+      ),
+    },
+    {
+      path: '/staff',
+      label: 'Staff',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z"
+          />
+        </svg>
+      ),
+    },
+    {
+      path: '/workload',
+      label: 'Workload',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M16 8v8m-4-5v5m-4-2v2m-2 4h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+          />
+        </svg>
+      ),
+    },
   ];
 
   return (
@@ -103,28 +171,28 @@ export default function Sidebar() {
               >
                 {item.icon}
                 <span className="font-medium">{item.label}</span>
+                {!!item.badge && (
+                  <span className="ml-auto px-2 py-0.5 text-xs font-medium rounded-full bg-blue-600 text-white">
+                    {item.badge}
+                  </span>
+                )}
               </NavLink>
             </li>
           ))}
         </ul>
       </nav>
 
-      {/* Reminders indicator */}
-      {unreadReminderCount > 0 && (
-        <div className="p-4 border-t border-gray-200 dark:border-gray-700">
-          <div className="flex items-center gap-3 px-3 py-2 bg-yellow-50 dark:bg-yellow-900/30 rounded-lg">
-            <svg className="w-5 h-5 text-yellow-600 dark:text-yellow-400" fill="currentColor" viewBox="0 0 20 20">
-              <path d="M10 2a6 6 0 00-6 6v3.586l-.707.707A1 1 0 004 14h12a1 1 0 00.707-1.707L16 11.586V8a6 6 0 00-6-6zM10 18a3 3 0 01-3-3h6a3 3 0 01-3 3z" />
-            </svg>
-            <div>
-              <div className="text-sm font-medium text-yellow-800 dark:text-yellow-200">
-                {unreadReminderCount} reminder{unreadReminderCount !== 1 ? 's' : ''}
-              </div>
-              <div className="text-xs text-yellow-600 dark:text-yellow-400">Tasks need attention</div>
-            </div>
-          </div>
-        </div>
-      )}
+      {/* Reminders */}
+      <NotificationCenter />
+
+      {/* Sync status */}
+      <div
+        className="px-4 py-2 border-t border-gray-200 dark:border-gray-700 flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400"
+        title={sync.description}
+      >
+        <span className={`w-2 h-2 rounded-full ${sync.dot}`} />
+        <span>{sync.label}</span>
+      </div>
 
       {/* Theme Toggle */}
       <div className="p-4 border-t border-gray-200 dark:border-gray-700">
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import type { AnyActivity, ChecklistInstance, StaffMember } from '../../types';
+import type { SyncConflict } from '../../services/firestoreSync';
+import type { FieldConflict } from '../../utils/syncMerge';
+
+interface SyncConflictDialogProps {
+  conflict: SyncConflict;
+  remainingCount: number; // Other conflicts waiting after this one
+  activities: AnyActivity[];
+  staffMembers: StaffMember[];
+  onResolve: (useRemotePaths: string[]) => void;
+  onPostpone: () => void;
+}
+
+const STAFF_FIELDS = ['leadStaffId', 'assigneeId', 'completedById', 'approvedById', 'approvalRequestedById'];
+const MAX_VALUE_LENGTH = 200;
+
+// "startDate" -> "Start date"
+function getFieldLabel(field: string): string {
+  const words = field.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatValue(field: string, value: unknown, staffMembers: StaffMember[]): string {
+  const staffName = (id: unknown) => staffMembers.find((s) => s.id === id)?.name || String(id);
+  if (value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return '(empty)';
+  }
+  if (STAFF_FIELDS.includes(field)) return staffName(value);
+  if (field === 'teamMemberIds' && Array.isArray(value)) return value.map(staffName).join(', ');
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value) && value.every((v) => typeof v !== 'object')) return value.join(', ');
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+}
+
+// Both versions of each field two people changed, side by side, to pick one per field
+export default function SyncConflictDialog({
+  conflict,
+  remainingCount,
+  activities,
+  staffMembers,
+  onResolve,
+  onPostpone,
+}: SyncConflictDialogProps) {
+  const [useRemote, setUseRemote] = useState<Set<string>>(new Set());
+  const { conflicts } = conflict.result;
+
+  const checklist = conflict.collection === 'checklistInstances' ? (conflict.local as ChecklistInstance) : null;
+  const activityName = checklist
+    ? activities.find((a) => a.id === checklist.activityId)?.name || 'Checklist'
+    : (conflict.local as AnyActivity).name;
+  const getItemTitle = (c: FieldConflict) => checklist?.items.find((item) => item.id === c.itemId)?.title;
+
+  const choose = (path: string, remote: boolean) => {
+    const next = new Set(useRemote);
+    if (remote) next.add(path);
+    else next.delete(path);
+    setUseRemote(next);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl dark:shadow-gray-900/50 p-6 max-w-3xl w-full mx-4 max-h-[80vh] flex flex-col">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-1">
+          Conflicting edits to {checklist ? `the checklist for ${activityName}` : activityName}
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+          Someone else changed the same {conflicts.length === 1 ? 'field' : 'fields'} while you were editing. Changes to
+          other fields have already been combined. Choose which version to keep for each field.
+          {remainingCount > 0 && ` ${remainingCount} more ${remainingCount === 1 ? 'conflict' : 'conflicts'} after this one.`}
+        </p>
+
+        <div className="flex-1 overflow-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase text-gray-500 dark:text-gray-400 border-b dark:border-gray-700">
+                <th className="py-2 pr-3 font-medium w-1/4">Field</th>
+                <th className="py-2 pr-3 font-medium">Your version</th>
+                <th className="py-2 font-medium">Their version</th>
+              </tr>
+            </thead>
+            <tbody>
+              {conflicts.map((c) => {
+                const isRemote = useRemote.has(c.path);
+                const itemTitle = getItemTitle(c);
+                return (
+                  <tr key={c.path} className="border-b border-gray-100 dark:border-gray-700 align-top">
+                    <td className="py-2 pr-3 text-gray-700 dark:text-gray-300">
+                      {itemTitle && <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{itemTitle}</div>}
+                      {getFieldLabel(c.field)}
+                    </td>
+                    {[false, true].map((remote) => (
+                      <td key={String(remote)} className={remote ? 'py-2' : 'py-2 pr-3'}>
+                        <label
+                          className={`flex items-start gap-2 p-2 rounded border cursor-pointer ${
+                            isRemote === remote
+                              ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30'
+                              : 'border-gray-200 dark:border-gray-600'
+                          }`}
+                        >
+                          <input
+                            type="radio"
+                            name={c.path}
+                            checked={isRemote === remote}
+                            onChange={() => choose(c.path, remote)}
+                            className="mt-0.5"
+                          />
+                          <span className="text-gray-900 dark:text-gray-100 break-words min-w-0">
+                            {formatValue(c.field, remote ? c.remote : c.local, staffMembers)}
+                          </span>
+                        </label>
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-wrap gap-3 mt-6">
+          <button
+            onClick={() => setUseRemote(new Set())}
+            className="px-3 py-2 text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-gray-100"
+          >
+            Keep all mine
+          </button>
+          <button
+            onClick={() => setUseRemote(new Set(conflicts.map((c) => c.path)))}
+            className="px-3 py-2 text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-gray-100"
+          >
+            Keep all theirs
+          </button>
+          <div className="flex-1" />
+          <button
+            onClick={onPostpone}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            Decide Later
+          </button>
+          <button
+            onClick={() => onResolve(Array.from(useRemote))}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            Save Choices
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
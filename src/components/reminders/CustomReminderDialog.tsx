@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { useActivities } from '../../context/ActivityContext';
+import type { AnyActivity, ChecklistItem } from '../../types';
+
+interface CustomReminderDialogProps {
+  activity: AnyActivity;
+  checklistItem?: ChecklistItem;
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-full border dark:border-gray-600 rounded px-3 py-2 text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+
+export default function CustomReminderDialog({ activity, checklistItem, onClose }: CustomReminderDialogProps) {
+  const { staffMembers, currentUserId, addCustomReminder } = useActivities();
+  const [remindOn, setRemindOn] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [message, setMessage] = useState('');
+  const [recipientIds, setRecipientIds] = useState<string[]>(() => (currentUserId ? [currentUserId] : []));
+
+  const activeStaff = staffMembers.filter((s) => s.isActive);
+
+  const toggleRecipient = (staffId: string) => {
+    setRecipientIds(
+      recipientIds.includes(staffId) ? recipientIds.filter((id) => id !== staffId) : [...recipientIds, staffId]
+    );
+  };
+
+  const handleSave = () => {
+    if (!remindOn || !message.trim()) return;
+    addCustomReminder(activity.id, {
+      checklistItemId: checklistItem?.id,
+      remindOn,
+      message: message.trim(),
+      recipientIds,
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl dark:shadow-gray-900/50 p-6 max-w-md w-full mx-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-1">Add Reminder</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          {checklistItem ? `${checklistItem.title} • ${activity.name}` : activity.name}
+        </p>
+        <div className="space-y-3">
+          <label className="block text-sm text-gray-600 dark:text-gray-400">
+            Remind on
+            <input type="date" value={remindOn} onChange={(e) => setRemindOn(e.target.value)} className={inputClass} />
+          </label>
+          <label className="block text-sm text-gray-600 dark:text-gray-400">
+            Message
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={3}
+              className={inputClass}
+              placeholder="What should we remind you about?"
+            />
+          </label>
+          <div>
+            <div className="text-sm text-gray-600 dark:text-gray-400 mb-1">Recipients</div>
+            {activeStaff.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Everyone</p>
+            ) : (
+              <div className="max-h-40 overflow-auto space-y-1">
+                {activeStaff.map((staff) => (
+                  <label
+                    key={staff.id}
+                    className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={recipientIds.includes(staff.id)}
+                      onChange={() => toggleRecipient(staff.id)}
+                      className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:bg-gray-800"
+                    />
+                    {staff.name}
+                  </label>
+                ))}
+              </div>
+            )}
+            {activeStaff.length > 0 && recipientIds.length === 0 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">No one selected: everyone will see it.</p>
+            )}
+          </div>
+        </div>
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!remindOn || !message.trim()}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { useState } from 'react';
+import { useActivities } from '../../context/ActivityContext';
+import type { StaffMember, StaffRole } from '../../types';
+import { STAFF_ROLES, getStaffUsageCount } from '../../utils/staff';
+import { DEFAULT_WEEKLY_CAPACITY_HOURS } from '../../utils/workload';
+import { generateAssigneeTasksICS, toCalendarFileName } from '../../utils/icalendar';
+import { downloadFile } from '../../utils/download';
+
+type StaffDraft = Omit<StaffMember, 'id'>;
+
+const emptyDraft: StaffDraft = { name: '', email: '', role: 'specialist', isActive: true };
+
+const inputClass =
+  'w-full border dark:border-gray-600 rounded px-3 py-2 text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+
+export default function StaffList() {
+  const {
+    staffMembers,
+    activities,
+    checklistInstances,
+    currentUserId,
+    addStaffMember,
+    updateStaffMember,
+    deleteStaffMember,
+    can,
+  } = useActivities();
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [draft, setDraft] = useState<StaffDraft>(emptyDraft);
+  const [showInactive, setShowInactive] = useState(false);
+
+  const visibleStaff = staffMembers
+    .filter((s) => showInactive || s.isActive)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const inactiveCount = staffMembers.filter((s) => !s.isActive).length;
+  const canManage = can('staff:manage');
+
+  const handleExportTasks = (staff: StaffMember) => {
+    const calendarName = `${staff.name} - Task Deadlines`;
+    const ics = generateAssigneeTasksICS(staff.id, activities, checklistInstances, calendarName);
+    downloadFile(ics, toCalendarFileName(calendarName), 'text/calendar');
+  };
+
+  const startEdit = (staff: StaffMember | null) => {
+    setEditingId(staff ? staff.id : 'new');
+    setDraft(staff ? { ...staff } : emptyDraft);
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) return;
+    const data = { ...draft, name: draft.name.trim(), email: draft.email.trim() };
+    if (editingId === 'new') {
+      addStaffMember(data);
+    } else if (editingId) {
+      updateStaffMember(editingId, data);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="p-4 border-b dark:border-gray-700 flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Staff</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Hub users are added automatically when they sign in
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          {inactiveCount > 0 && (
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showInactive}
+                onChange={(e) => setShowInactive(e.target.checked)}
+                className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:bg-gray-800"
+              />
+              Show inactive ({inactiveCount})
+            </label>
+          )}
+          {canManage && (
+            <button
+              onClick={() => startEdit(null)}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              Add Staff
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4">
+        {visibleStaff.length === 0 ? (
+          <div className="p-6 text-center text-gray-500 dark:text-gray-400">No staff members yet.</div>
+        ) : (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow dark:shadow-gray-900/50 divide-y dark:divide-gray-700">
+            {visibleStaff.map((staff) => {
+              const usageCount = getStaffUsageCount(staff.id, activities, checklistInstances);
+
+              return (
+                <div key={staff.id} className={`p-4 flex items-center gap-4 ${staff.isActive ? '' : 'opacity-60'}`}>
+                  {staff.avatarUrl ? (
+                    <img src={staff.avatarUrl} alt="" className="w-10 h-10 rounded-full flex-shrink-0" />
+                  ) : (
+                    <div className="w-10 h-10 rounded-full bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300 flex items-center justify-center font-medium flex-shrink-0">
+                      {staff.name.charAt(0).toUpperCase()}
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-gray-900 dark:text-gray-100 truncate">
+                      {staff.name}
+                      {staff.id === currentUserId && (
+                        <span className="ml-2 text-xs text-gray-400 dark:text-gray-500">(you)</span>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400 truncate">{staff.email || 'No email'}</div>
+                  </div>
+                  <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 capitalize">
+                    {staff.role}
+                  </span>
+                  {!staff.isActive && (
+                    <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                      inactive
+                    </span>
+                  )}
+                  <button
+                    onClick={() => handleExportTasks(staff)}
+                    title="Download open task deadlines assigned to this person as an .ics file"
+                    className="px-3 py-1.5 text-sm border dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 flex-shrink-0"
+                  >
+                    Tasks .ics
+                  </button>
+                  {canManage && (
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <button
+                        onClick={() => startEdit(staff)}
+                        className="px-3 py-1.5 text-sm border dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => updateStaffMember(staff.id, { isActive: !staff.isActive })}
+                        disabled={staff.id === currentUserId}
+                        className="px-3 py-1.5 text-sm border dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {staff.isActive ? 'Deactivate' : 'Reactivate'}
+                      </button>
+                      <button
+                        onClick={() => deleteStaffMember(staff.id)}
+                        disabled={usageCount > 0 || staff.id === currentUserId}
+                        title={usageCount > 0 ? 'Assigned to activities or tasks; deactivate instead' : undefined}
+                        className="px-3 py-1.5 text-sm border border-red-200 dark:border-red-700 text-red-600 dark:text-red-400 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Add/Edit Modal */}
+      {editingId && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl dark:shadow-gray-900/50 p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+              {editingId === 'new' ? 'Add Staff Member' : 'Edit Staff Member'}
+            </h3>
+            <div className="space-y-3">
+              <label className="block text-sm text-gray-600 dark:text-gray-400">
+                Name
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block text-sm text-gray-600 dark:text-gray-400">
+                Email
+                <input
+                  type="email"
+                  value={draft.email}
+                  onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block text-sm text-gray-600 dark:text-gray-400">
+                Role
+                <select
+                  value={draft.role}
+                  onChange={(e) => setDraft({ ...draft, role: e.target.value as StaffRole })}
+                  className={inputClass}
+                >
+                  {STAFF_ROLES.map((r) => (
+                    <option key={r.value} value={r.value}>
+                      {r.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm text-gray-600 dark:text-gray-400">
+                Weekly capacity (hours)
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.weeklyCapacityHours ?? ''}
+                  placeholder={String(DEFAULT_WEEKLY_CAPACITY_HOURS)}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      weeklyCapacityHours: e.target.value === '' ? undefined : Number(e.target.value),
+                    })
+                  }
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={draft.isActive}
+                  onChange={(e) => setDraft({ ...draft, isActive: e.target.checked })}
+                  className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:bg-gray-800"
+                />
+                Active
+              </label>
+            </div>
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={() => setEditingId(null)}
+                className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!draft.name.trim()}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,605 @@
+import { useState } from 'react';
+import { useActivities } from '../../context/ActivityContext';
+import { isBuiltInTemplate } from '../../data/defaultProcedures';
+import type { ProcedureTemplate, ProcedurePhase, ProcedureTask, TaskCategory, StaffRole } from '../../types';
+import {
+  createBlankPhase,
+  createBlankTask,
+  moveOrdered,
+  removeOrdered,
+  parseOffsetList,
+} from '../../utils/procedureTemplates';
+import { findDependencyCycle, describeDependencyCycle } from '../../utils/taskDependencies';
+
+interface TemplateEditorProps {
+  templateId: string;
+  onClose: () => void;
+  onSelectTemplate: (id: string | null) => void;
+}
+
+const TASK_CATEGORIES: { value: TaskCategory; label: string }[] = [
+  { value: 'administrative', label: 'Administrative' },
+  { value: 'logistics', label: 'Logistics' },
+  { value: 'communications', label: 'Communications' },
+  { value: 'budget', label: 'Budget' },
+  { value: 'participants', label: 'Participants' },
+  { value: 'materials', label: 'Materials' },
+  { value: 'compliance', label: 'Compliance' },
+  { value: 'follow_up', label: 'Follow-up' },
+];
+
+// Only managers and admins can approve tasks
+const APPROVER_ROLES: StaffRole[] = ['admin', 'manager'];
+
+const inputClass =
+  'w-full border dark:border-gray-600 rounded px-2 py-1.5 text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 disabled:opacity-60';
+
+export default function TemplateEditor({ templateId, onClose, onSelectTemplate }: TemplateEditorProps) {
+  const {
+    procedureTemplates,
+    activities,
+    cloneProcedureTemplate,
+    updateProcedureTemplate,
+    deleteProcedureTemplate,
+    can,
+  } = useActivities();
+
+  const template = procedureTemplates.find((t) => t.id === templateId);
+  const [draft, setDraft] = useState<ProcedureTemplate | null>(() =>
+    template ? structuredClone(template) : null
+  );
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+
+  if (!template || !draft) {
+    return (
+      <div className="p-6 text-center text-gray-500 dark:text-gray-400">
+        Template not found
+      </div>
+    );
+  }
+
+  const canEditTemplates = can('template:edit');
+  const isReadOnly = isBuiltInTemplate(template.id) || !canEditTemplates;
+  const editableFields = (t: ProcedureTemplate) =>
+    JSON.stringify([t.name, t.description, t.isActive, !!t.useBusinessDays, t.phases]);
+  const isDirty = editableFields(draft) !== editableFields(template);
+  const usageCount = activities.filter((a) => a.procedureTemplateId === template.id).length;
+  const allTasks = draft.phases.flatMap((p) => p.tasks);
+  const dependencyCycle = findDependencyCycle(draft.phases);
+
+  const updateDraft = (updates: Partial<ProcedureTemplate>) => {
+    setDraft({ ...draft, ...updates });
+  };
+
+  const updatePhase = (phaseIndex: number, updates: Partial<ProcedurePhase>) => {
+    updateDraft({
+      phases: draft.phases.map((p, i) => (i === phaseIndex ? { ...p, ...updates } : p)),
+    });
+  };
+
+  const updateTask = (phaseIndex: number, taskIndex: number, updates: Partial<ProcedureTask>) => {
+    const phase = draft.phases[phaseIndex];
+    updatePhase(phaseIndex, {
+      tasks: phase.tasks.map((t, i) => (i === taskIndex ? { ...t, ...updates } : t)),
+    });
+  };
+
+  const removeTask = (phaseIndex: number, taskIndex: number) => {
+    const removedId = draft.phases[phaseIndex].tasks[taskIndex].id;
+    // Drop the removed task from the dependency lists of the remaining tasks
+    updateDraft({
+      phases: draft.phases.map((p, i) => ({
+        ...p,
+        tasks: (i === phaseIndex ? removeOrdered(p.tasks, taskIndex) : p.tasks).map((t) =>
+          t.dependsOnTaskIds.includes(removedId)
+            ? { ...t, dependsOnTaskIds: t.dependsOnTaskIds.filter((id) => id !== removedId) }
+            : t
+        ),
+      })),
+    });
+  };
+
+  const removePhase = (phaseIndex: number) => {
+    const removedIds = new Set(draft.phases[phaseIndex].tasks.map((t) => t.id));
+    updateDraft({
+      phases: removeOrdered(draft.phases, phaseIndex).map((p) => ({
+        ...p,
+        tasks: p.tasks.map((t) => ({
+          ...t,
+          dependsOnTaskIds: t.dependsOnTaskIds.filter((id) => !removedIds.has(id)),
+        })),
+      })),
+    });
+  };
+
+  const handleSave = () => {
+    updateProcedureTemplate(template.id, {
+      name: draft.name,
+      description: draft.description,
+      isActive: draft.isActive,
+      useBusinessDays: draft.useBusinessDays,
+      phases: draft.phases,
+    });
+  };
+
+  const handleClone = () => {
+    const clone = cloneProcedureTemplate(template.id);
+    if (clone) onSelectTemplate(clone.id);
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="bg-white dark:bg-gray-800 border-b dark:border-gray-700 p-4">
+        <div className="flex items-center justify-between mb-3">
+          <button
+            onClick={onClose}
+            className="flex items-center gap-1 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 lg:hidden"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Back
+          </button>
+          <div className="flex items-center gap-2 ml-auto">
+            {canEditTemplates && (
+              <button
+                onClick={handleClone}
+                className="px-3 py-1.5 text-sm border dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300"
+              >
+                Clone
+              </button>
+            )}
+            {!isReadOnly && (
+              <>
+                <button
+                  onClick={() => setDraft(structuredClone(template))}
+                  disabled={!isDirty}
+                  className="px-3 py-1.5 text-sm border dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Discard
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={!isDirty || !!dependencyCycle}
+                  className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={() => setShowDeleteConfirm(true)}
+                  disabled={usageCount > 0}
+                  title={usageCount > 0 ? `Used by ${usageCount} activit${usageCount !== 1 ? 'ies' : 'y'}` : undefined}
+                  className="px-3 py-1.5 text-sm border border-red-200 dark:border-red-700 text-red-600 dark:text-red-400 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Delete
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {isReadOnly && (
+          <div className="mb-3 p-2 bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-700 rounded text-sm text-blue-700 dark:text-blue-300">
+            {canEditTemplates
+              ? 'Built-in templates are read-only. Clone this template to customize it.'
+              : 'Only managers and admins can edit procedure templates.'}
+          </div>
+        )}
+
+        {dependencyCycle && (
+          <div className="mb-3 p-2 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-700 rounded text-sm text-red-700 dark:text-red-300">
+            Task dependencies form a cycle and must be fixed before saving:{' '}
+            {describeDependencyCycle(draft.phases, dependencyCycle)}
+          </div>
+        )}
+
+        <input
+          type="text"
+          value={draft.name}
+          disabled={isReadOnly}
+          onChange={(e) => updateDraft({ name: e.target.value })}
+          className="text-xl font-bold w-full border-b border-gray-300 dark:border-gray-600 focus:border-blue-500 focus:outline-none pb-1 bg-transparent text-gray-900 dark:text-gray-100 disabled:border-transparent"
+        />
+        <textarea
+          value={draft.description}
+          disabled={isReadOnly}
+          onChange={(e) => updateDraft({ description: e.target.value })}
+          rows={2}
+          placeholder="Describe when this procedure should be used..."
+          className={`${inputClass} mt-3`}
+        />
+        <div className="flex items-center gap-4 mt-3 text-sm text-gray-600 dark:text-gray-400">
+          <span>
+            Version {template.version}
+            {template.versionHistory && template.versionHistory.length > 0 && (
+              <span className="text-gray-400">
+                {' '}
+                ({template.versionHistory.length} earlier version{template.versionHistory.length !== 1 ? 's' : ''})
+              </span>
+            )}
+          </span>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.isActive}
+              disabled={isReadOnly}
+              onChange={(e) => updateDraft({ isActive: e.target.checked })}
+              className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:bg-gray-800"
+            />
+            Active
+          </label>
+          <label
+            className="flex items-center gap-2 cursor-pointer"
+            title="Count task due offsets in business days, skipping weekends and state holidays"
+          >
+            <input
+              type="checkbox"
+              checked={!!draft.useBusinessDays}
+              disabled={isReadOnly}
+              onChange={(e) => updateDraft({ useBusinessDays: e.target.checked })}
+              className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:bg-gray-800"
+            />
+            Business days
+          </label>
+          {usageCount > 0 && (
+            <span>
+              Used by {usageCount} activit{usageCount !== 1 ? 'ies' : 'y'}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Phases */}
+      <div className="flex-1 overflow-auto p-4 space-y-6">
+        {draft.phases.map((phase, phaseIndex) => (
+          <div
+            key={phase.id}
+            className="bg-white dark:bg-gray-800 rounded-lg shadow dark:shadow-gray-900/50 overflow-hidden"
+          >
+            {/* Phase header */}
+            <div className="px-4 py-3 bg-gray-50 dark:bg-gray-700 border-b dark:border-gray-600 space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-semibold text-gray-500 dark:text-gray-400">
+                  Phase {phase.order}
+                </span>
+                <input
+                  type="text"
+                  value={phase.name}
+                  disabled={isReadOnly}
+                  onChange={(e) => updatePhase(phaseIndex, { name: e.target.value })}
+                  className={`${inputClass} font-semibold`}
+                />
+                {!isReadOnly && (
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => updateDraft({ phases: moveOrdered(draft.phases, phaseIndex, -1) })}
+                      disabled={phaseIndex === 0}
+                      className="p-1 text-gray-500 hover:text-gray-900 dark:hover:text-gray-100 disabled:opacity-30"
+                      title="Move phase up"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => updateDraft({ phases: moveOrdered(draft.phases, phaseIndex, 1) })}
+                      disabled={phaseIndex === draft.phases.length - 1}
+                      className="p-1 text-gray-500 hover:text-gray-900 dark:hover:text-gray-100 disabled:opacity-30"
+                      title="Move phase down"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => removePhase(phaseIndex)}
+                      className="p-1 text-red-500 hover:text-red-600"
+                      title="Remove phase"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                )}
+              </div>
+              <input
+                type="text"
+                value={phase.description}
+                disabled={isReadOnly}
+                onChange={(e) => updatePhase(phaseIndex, { description: e.target.value })}
+                placeholder="Phase description"
+                className={inputClass}
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-xs text-gray-600 dark:text-gray-400">
+                  Starts (days from activity start)
+                  <input
+                    type="number"
+                    value={phase.startOffset}
+                    disabled={isReadOnly}
+                    onChange={(e) => updatePhase(phaseIndex, { startOffset: parseInt(e.target.value, 10) || 0 })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="text-xs text-gray-600 dark:text-gray-400">
+                  Ends (days from activity start)
+                  <input
+                    type="number"
+                    value={phase.endOffset}
+                    disabled={isReadOnly}
+                    onChange={(e) => updatePhase(phaseIndex, { endOffset: parseInt(e.target.value, 10) || 0 })}
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+            </div>
+
+            {/* Tasks */}
+            <div className="divide-y dark:divide-gray-700">
+              {phase.tasks.map((task, taskIndex) => (
+                <div key={task.id} className="px-4 py-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-gray-400 dark:text-gray-500 w-5">{task.order}.</span>
+                    <input
+                      type="text"
+                      value={task.title}
+                      disabled={isReadOnly}
+                      onChange={(e) => updateTask(phaseIndex, taskIndex, { title: e.target.value })}
+                      className={`${inputClass} font-medium`}
+                    />
+                    {!isReadOnly && (
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <button
+                          onClick={() => updatePhase(phaseIndex, { tasks: moveOrdered(phase.tasks, taskIndex, -1) })}
+                          disabled={taskIndex === 0}
+                          className="p-1 text-gray-500 hover:text-gray-900 dark:hover:text-gray-100 disabled:opacity-30"
+                          title="Move task up"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                          </svg>
+                        </button>
+                        <button
+                          onClick={() => updatePhase(phaseIndex, { tasks: moveOrdered(phase.tasks, taskIndex, 1) })}
+                          disabled={taskIndex === phase.tasks.length - 1}
+                          className="p-1 text-gray-500 hover:text-gray-900 dark:hover:text-gray-100 disabled:opacity-30"
+                          title="Move task down"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                          </svg>
+                        </button>
+                        <button
+                          onClick={() => removeTask(phaseIndex, taskIndex)}
+                          className="p-1 text-red-500 hover:text-red-600"
+                          title="Remove task"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  <textarea
+                    value={task.description}
+                    disabled={isReadOnly}
+                    onChange={(e) => updateTask(phaseIndex, taskIndex, { description: e.target.value })}
+                    rows={2}
+                    placeholder="Task description"
+                    className={inputClass}
+                  />
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                    <label className="text-xs text-gray-600 dark:text-gray-400">
+                      Due offset (days)
+                      <input
+                        type="number"
+                        value={task.dueOffset}
+                        disabled={isReadOnly}
+                        onChange={(e) => updateTask(phaseIndex, taskIndex, { dueOffset: parseInt(e.target.value, 10) || 0 })}
+                        className={inputClass}
+                      />
+                    </label>
+                    <label className="text-xs text-gray-600 dark:text-gray-400">
+                      Reminders (days before)
+                      <input
+                        key={task.reminderOffsets.join(',')}
+                        type="text"
+                        defaultValue={task.reminderOffsets.join(', ')}
+                        disabled={isReadOnly}
+                        onBlur={(e) => updateTask(phaseIndex, taskIndex, { reminderOffsets: parseOffsetList(e.target.value) })}
+                        placeholder="e.g., 14, 7, 3"
+                        className={inputClass}
+                      />
+                    </label>
+                    <label className="text-xs text-gray-600 dark:text-gray-400">
+                      Category
+                      <select
+                        value={task.category}
+                        disabled={isReadOnly}
+                        onChange={(e) => updateTask(phaseIndex, taskIndex, { category: e.target.value as TaskCategory })}
+                        className={inputClass}
+                      >
+                        {TASK_CATEGORIES.map((c) => (
+                          <option key={c.value} value={c.value}>
+                            {c.label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="text-xs text-gray-600 dark:text-gray-400">
+                      Estimated hours
+                      <input
+                        type="number"
+                        min={0}
+                        value={task.estimatedHours ?? ''}
+                        disabled={isReadOnly}
+                        onChange={(e) =>
+                          updateTask(phaseIndex, taskIndex, {
+                            estimatedHours: e.target.value === '' ? undefined : Number(e.target.value),
+                          })
+                        }
+                        className={inputClass}
+                      />
+                    </label>
+                  </div>
+                  <div className="flex items-center gap-4 text-sm text-gray-700 dark:text-gray-300">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={task.isRequired}
+                        disabled={isReadOnly}
+                        onChange={(e) => updateTask(phaseIndex, taskIndex, { isRequired: e.target.checked })}
+                        className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:bg-gray-800"
+                      />
+                      Required
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={task.requiresApproval}
+                        disabled={isReadOnly}
+                        onChange={(e) =>
+                          updateTask(phaseIndex, taskIndex, {
+                            requiresApproval: e.target.checked,
+                            approverRole: e.target.checked ? task.approverRole || 'manager' : undefined,
+                          })
+                        }
+                        className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:bg-gray-800"
+                      />
+                      Requires approval
+                    </label>
+                    {task.requiresApproval && (
+                      <select
+                        value={task.approverRole || 'manager'}
+                        disabled={isReadOnly}
+                        onChange={(e) => updateTask(phaseIndex, taskIndex, { approverRole: e.target.value })}
+                        className="text-xs border dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 capitalize"
+                      >
+                        {APPROVER_ROLES.map((role) => (
+                          <option key={role} value={role}>
+                            {role}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 text-xs">
+                    <span className="text-gray-600 dark:text-gray-400">Depends on:</span>
+                    {task.dependsOnTaskIds.length === 0 && isReadOnly && (
+                      <span className="text-gray-400 dark:text-gray-500">None</span>
+                    )}
+                    {task.dependsOnTaskIds.map((dependencyId) => (
+                      <span
+                        key={dependencyId}
+                        className={`px-2 py-0.5 rounded flex items-center gap-1 ${
+                          dependencyCycle?.includes(dependencyId) && dependencyCycle.includes(task.id)
+                            ? 'bg-red-100 dark:bg-red-900/50 text-red-700 dark:text-red-300'
+                            : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                        }`}
+                      >
+                        {allTasks.find((t) => t.id === dependencyId)?.title || dependencyId}
+                        {!isReadOnly && (
+                          <button
+                            onClick={() =>
+                              updateTask(phaseIndex, taskIndex, {
+                                dependsOnTaskIds: task.dependsOnTaskIds.filter((id) => id !== dependencyId),
+                              })
+                            }
+                            className="hover:text-red-600"
+                            title="Remove dependency"
+                          >
+                            ×
+                          </button>
+                        )}
+                      </span>
+                    ))}
+                    {!isReadOnly && (
+                      <select
+                        value=""
+                        onChange={(e) =>
+                          updateTask(phaseIndex, taskIndex, {
+                            dependsOnTaskIds: [...task.dependsOnTaskIds, e.target.value],
+                          })
+                        }
+                        className="text-xs border dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                      >
+                        <option value="">Add dependency...</option>
+                        {allTasks
+                          .filter((t) => t.id !== task.id && !task.dependsOnTaskIds.includes(t.id))
+                          .map((t) => (
+                            <option key={t.id} value={t.id}>
+                              {t.title}
+                            </option>
+                          ))}
+                      </select>
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              {!isReadOnly && (
+                <div className="px-4 py-2">
+                  <button
+                    onClick={() =>
+                      updatePhase(phaseIndex, {
+                        tasks: [...phase.tasks, createBlankTask(phase.tasks.length + 1, phase.endOffset)],
+                      })
+                    }
+                    className="text-sm text-blue-600 hover:text-blue-700 flex items-center gap-1"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                    </svg>
+                    Add Task
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {!isReadOnly && (
+          <button
+            onClick={() => updateDraft({ phases: [...draft.phases, createBlankPhase(draft.phases.length + 1)] })}
+            className="w-full py-3 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-600 dark:text-gray-400 hover:border-blue-400 hover:text-blue-600"
+          >
+            + Add Phase
+          </button>
+        )}
+      </div>
+
+      {/* Delete Confirmation Modal */}
+      {showDeleteConfirm && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl dark:shadow-gray-900/50 p-6 max-w-md mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">Delete Template</h3>
+            <p className="text-gray-600 dark:text-gray-300 mb-6">
+              Are you sure you want to delete <strong>"{template.name}"</strong>? This action cannot be undone.
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowDeleteConfirm(false)}
+                className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => {
+                  setShowDeleteConfirm(false);
+                  deleteProcedureTemplate(template.id);
+                  onSelectTemplate(null);
+                }}
+                className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+              >
+                Delete Template
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useActivities } from '../../context/ActivityContext';
+import { isBuiltInTemplate } from '../../data/defaultProcedures';
+import { getTemplateTaskCount } from '../../utils/procedureTemplates';
+import TemplateEditor from './TemplateEditor';
+
+export default function TemplateList() {
+  const { procedureTemplates, createProcedureTemplate, can } = useActivities();
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
+
+  const builtInTemplates = procedureTemplates.filter((t) => isBuiltInTemplate(t.id));
+  const customTemplates = procedureTemplates.filter((t) => !isBuiltInTemplate(t.id));
+
+  const handleCreate = () => {
+    const template = createProcedureTemplate({});
+    if (template) setSelectedTemplateId(template.id);
+  };
+
+  const renderTemplateRow = (templateId: string) => {
+    const template = procedureTemplates.find((t) => t.id === templateId);
+    if (!template) return null;
+
+    return (
+      <div
+        key={template.id}
+        onClick={() => setSelectedTemplateId(template.id)}
+        className={`p-4 hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer transition-colors ${
+          selectedTemplateId === template.id ? 'bg-blue-50 dark:bg-blue-900/50' : ''
+        }`}
+      >
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <h3 className="font-medium text-gray-900 dark:text-gray-100 truncate">{template.name}</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+              {template.phases.length} phase{template.phases.length !== 1 ? 's' : ''} •{' '}
+              {getTemplateTaskCount(template)} tasks
+            </p>
+          </div>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            {!template.isActive && (
+              <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                inactive
+              </span>
+            )}
+            <span className="px-2 py-0.5 rounded text-xs font-medium bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300">
+              v{template.version}
+            </span>
+          </div>
+        </div>
+        <div className="mt-2 text-sm text-gray-400">
+          Updated {format(parseISO(template.updatedAt), 'MMM d, yyyy')}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full flex">
+      {/* Template list */}
+      <div className={`flex-1 flex flex-col ${selectedTemplateId ? 'hidden lg:flex lg:w-1/2 lg:border-r dark:border-gray-700' : ''}`}>
+        <div className="p-4 border-b dark:border-gray-700 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Procedure Templates</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Clone a built-in procedure to tailor phases and tasks for your program
+            </p>
+          </div>
+          {can('template:edit') && (
+            <button
+              onClick={handleCreate}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              New Template
+            </button>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          <div className="px-4 py-2 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider bg-gray-50 dark:bg-gray-900">
+            Custom Templates
+          </div>
+          {customTemplates.length === 0 ? (
+            <div className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+              No custom templates yet. Clone a built-in template below to get started.
+            </div>
+          ) : (
+            <div className="divide-y dark:divide-gray-700">
+              {customTemplates.map((t) => renderTemplateRow(t.id))}
+            </div>
+          )}
+
+          <div className="px-4 py-2 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider bg-gray-50 dark:bg-gray-900 border-t dark:border-gray-700">
+            Built-in Templates
+          </div>
+          <div className="divide-y dark:divide-gray-700">
+            {builtInTemplates.map((t) => renderTemplateRow(t.id))}
+          </div>
+        </div>
+      </div>
+
+      {/* Template editor */}
+      {selectedTemplateId && (
+        <div className="flex-1 lg:w-1/2 overflow-auto bg-gray-50 dark:bg-gray-900">
+          <TemplateEditor
+            key={selectedTemplateId}
+            templateId={selectedTemplateId}
+            onClose={() => setSelectedTemplateId(null)}
+            onSelectTemplate={setSelectedTemplateId}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
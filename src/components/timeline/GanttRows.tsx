@@ -0,0 +1,157 @@
+import { differenceInDays, format, parseISO } from 'date-fns';
+import type { ChecklistItemStatus } from '../../types';
+import type { GanttDependency, GanttPhase } from '../../utils/gantt';
+
+interface GanttRowsProps {
+  phases: GanttPhase[];
+  dependencies: GanttDependency[];
+  viewStart: Date;
+  viewEnd: Date;
+  totalDays: number;
+  todayPosition: number | null;
+  onOpen: () => void;
+}
+
+const ROW_HEIGHT = 32;
+
+const PHASE_COLORS: Record<GanttPhase['status'], string> = {
+  not_started: 'bg-gray-200 dark:bg-gray-600',
+  in_progress: 'bg-blue-200 dark:bg-blue-800',
+  completed: 'bg-emerald-200 dark:bg-emerald-800',
+};
+
+const MILESTONE_COLORS: Record<ChecklistItemStatus, string> = {
+  not_started: 'bg-white dark:bg-gray-800 border-gray-400',
+  in_progress: 'bg-blue-500 border-blue-600',
+  completed: 'bg-emerald-500 border-emerald-600',
+  blocked: 'bg-red-500 border-red-600',
+  skipped: 'bg-gray-300 dark:bg-gray-600 border-gray-400',
+};
+
+// Expanded Gantt rows for one activity: a window bar per checklist phase, a diamond per
+// checklist item on its due date, and arrows from each item to the items that wait on it
+export default function GanttRows({
+  phases,
+  dependencies,
+  viewStart,
+  viewEnd,
+  totalDays,
+  todayPosition,
+  onOpen,
+}: GanttRowsProps) {
+  // Horizontal position (%) of the middle of a day
+  const getDayCenter = (date: string) => ((differenceInDays(parseISO(date), viewStart) + 0.5) / totalDays) * 100;
+  const isVisible = (date: string) => {
+    const day = parseISO(date);
+    return day >= viewStart && day <= viewEnd;
+  };
+
+  const rowByItemId = new Map<string, number>();
+  phases.forEach((phase, idx) => phase.items.forEach((item) => rowByItemId.set(item.id, idx)));
+
+  if (phases.length === 0) {
+    return (
+      <div className="flex h-8 border-b dark:border-gray-700 bg-gray-50/50 dark:bg-gray-800/50">
+        <div className="w-64 flex-shrink-0 border-r dark:border-gray-600 pl-12 pr-4 flex items-center text-xs text-gray-500 dark:text-gray-400">
+          No checklist for this activity
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative bg-gray-50/50 dark:bg-gray-800/50">
+      {phases.map((gantt) => {
+        const start = parseISO(gantt.startDate);
+        const end = parseISO(gantt.endDate);
+        const barVisible = end >= viewStart && start <= viewEnd;
+        const effectiveStart = start < viewStart ? viewStart : start;
+        const effectiveEnd = end > viewEnd ? viewEnd : end;
+        const left = (differenceInDays(effectiveStart, viewStart) / totalDays) * 100;
+        const width = ((differenceInDays(effectiveEnd, effectiveStart) + 1) / totalDays) * 100;
+
+        return (
+          <div key={gantt.phase.id} className="flex border-b border-gray-100 dark:border-gray-700" style={{ height: ROW_HEIGHT }}>
+            <div
+              className="w-64 flex-shrink-0 border-r dark:border-gray-600 pl-12 pr-4 flex items-center gap-2 cursor-pointer"
+              onClick={onOpen}
+              title={gantt.phase.description}
+            >
+              <span className="flex-1 text-xs text-gray-700 dark:text-gray-300 truncate">{gantt.phase.name}</span>
+              <span className="text-[10px] text-gray-400 dark:text-gray-500">
+                {gantt.items.filter((i) => i.status === 'completed' || i.status === 'skipped').length}/{gantt.items.length}
+              </span>
+            </div>
+            <div className="flex-1 relative">
+              {todayPosition !== null && (
+                <div className="absolute top-0 h-full w-0.5 bg-red-500 z-10" style={{ left: `${todayPosition}%` }} />
+              )}
+              {barVisible && (
+                <div
+                  className={`absolute top-2.5 h-3 rounded-sm ${PHASE_COLORS[gantt.status]}`}
+                  style={{ left: `${left}%`, width: `${width}%` }}
+                  title={`${gantt.phase.name}\n${format(start, 'MMM d')} - ${format(end, 'MMM d, yyyy')}`}
+                />
+              )}
+              {gantt.items.filter((item) => isVisible(item.dueDate)).map((item) => (
+                <div
+                  key={item.id}
+                  className={`absolute top-1/2 w-2.5 h-2.5 -ml-[5px] -mt-[5px] rotate-45 border z-20 cursor-pointer ${
+                    MILESTONE_COLORS[item.status]
+                  }`}
+                  style={{ left: `${getDayCenter(item.dueDate)}%` }}
+                  onClick={onOpen}
+                  title={`${item.title}\nDue ${format(parseISO(item.dueDate), 'MMM d, yyyy')}\nStatus: ${item.status.replace('_', ' ')}`}
+                />
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      {/* Dependency arrows, drawn over the bar area */}
+      {dependencies.length > 0 && (
+        <svg
+          className="absolute top-0 left-64 pointer-events-none z-10"
+          style={{ width: 'calc(100% - 16rem)', height: phases.length * ROW_HEIGHT }}
+        >
+          <defs>
+            <marker id="gantt-arrow" viewBox="0 0 10 10" refX="24" refY="5" markerWidth="5" markerHeight="5" orient="auto">
+              <path d="M0,0 L10,5 L0,10 z" fill="#9ca3af" />
+            </marker>
+            <marker id="gantt-arrow-slipped" viewBox="0 0 10 10" refX="24" refY="5" markerWidth="5" markerHeight="5" orient="auto">
+              <path d="M0,0 L10,5 L0,10 z" fill="#ef4444" />
+            </marker>
+          </defs>
+          {dependencies.map(({ from, to, isSlipped }) => {
+            const fromRow = rowByItemId.get(from.id);
+            const toRow = rowByItemId.get(to.id);
+            if (fromRow === undefined || toRow === undefined) return null;
+            if (!isVisible(from.dueDate) || !isVisible(to.dueDate)) return null;
+
+            // Down (or up) from the predecessor, then across to the dependent
+            const x1 = `${getDayCenter(from.dueDate)}%`;
+            const x2 = `${getDayCenter(to.dueDate)}%`;
+            const y1 = fromRow * ROW_HEIGHT + ROW_HEIGHT / 2;
+            const y2 = toRow * ROW_HEIGHT + ROW_HEIGHT / 2;
+            const stroke = isSlipped ? '#ef4444' : '#9ca3af';
+            return (
+              <g key={`${from.id}-${to.id}`}>
+                {y1 !== y2 && <line x1={x1} y1={y1} x2={x1} y2={y2} stroke={stroke} strokeWidth={1} />}
+                <line
+                  x1={x1}
+                  y1={y2}
+                  x2={x2}
+                  y2={y2}
+                  stroke={stroke}
+                  strokeWidth={1}
+                  markerEnd={isSlipped ? 'url(#gantt-arrow-slipped)' : 'url(#gantt-arrow)'}
+                />
+              </g>
+            );
+          })}
+        </svg>
+      )}
+    </div>
+  );
+}
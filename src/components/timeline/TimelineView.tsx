@@ -1,6 +1,7 @@
-import { useState, useMemo } from 'react';
+import { Fragment, useState, useMemo } from 'react';
 import {
   format,
+  addDays,
   addMonths,
   subMonths,
   startOfMonth,
@@ -17,16 +18,45 @@ import {
 import { useActivities } from '../../context/ActivityContext';
 import type { AnyActivity, ActivityCategory } from '../../types';
 import { getActivityCategory } from '../../types';
+import RescheduleDialog from '../calendar/RescheduleDialog';
+import UndoToast from '../calendar/UndoToast';
+import GanttRows from './GanttRows';
+import { getGanttDependencies, getGanttPhases } from '../../utils/gantt';
+import { getSwimlanes, SWIMLANE_GROUP_OPTIONS, type SwimlaneGroupBy } from '../../utils/swimlanes';
+import { useActivityDrag } from '../../hooks/useActivityDrag';
+import type { ActivityDates, DragMode, RescheduleUndo } from '../../utils/reschedule';
 
 type ZoomLevel = 'month' | 'quarter' | 'year';
+type DisplayMode = 'bars' | 'gantt';
 
 export default function TimelineView() {
-  const { filteredActivities, selectActivity, getActivityTypeInfo, customActivityTypes } = useActivities();
+  const {
+    filteredActivities,
+    selectActivity,
+    getActivityTypeInfo,
+    customActivityTypes,
+    getChecklistForActivity,
+    procedureTemplates,
+    staffMembers,
+    can,
+    undoReschedule,
+  } = useActivities();
   const [zoomLevel, setZoomLevel] = useState<ZoomLevel>('quarter');
   const [viewStart, setViewStart] = useState(() => startOfMonth(new Date()));
   const [categoryFilter, setCategoryFilter] = useState<ActivityCategory | 'all'>('all');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [hoveredActivity, setHoveredActivity] = useState<string | null>(null);
+  const [displayMode, setDisplayMode] = useState<DisplayMode>('bars');
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [groupBy, setGroupBy] = useState<SwimlaneGroupBy>('none');
+  const [collapsedLanes, setCollapsedLanes] = useState<Set<string>>(new Set());
+  const [pendingReschedule, setPendingReschedule] = useState<{ activity: AnyActivity; dates: ActivityDates } | null>(
+    null
+  );
+  const [lastReschedule, setLastReschedule] = useState<{ name: string; undo: RescheduleUndo } | null>(null);
+  const { preview, beginDrag, isDragClick } = useActivityDrag((activity, dates) =>
+    setPendingReschedule({ activity, dates })
+  );
 
   const viewEnd = useMemo(() => {
     switch (zoomLevel) {
@@ -119,6 +149,17 @@ export default function TimelineView() {
     };
   };
 
+  // Dates come from the pointer's position across the row's bar area
+  const startDrag = (event: React.PointerEvent<HTMLElement>, activity: AnyActivity, mode: DragMode) => {
+    const track = event.currentTarget.closest<HTMLElement>('[data-timeline-track]');
+    if (!track) return;
+    beginDrag(event, activity, mode, (clientX) => {
+      const rect = track.getBoundingClientRect();
+      const dayIdx = Math.floor(((clientX - rect.left) / rect.width) * totalDays);
+      return addDays(viewStart, Math.min(totalDays - 1, Math.max(0, dayIdx)));
+    });
+  };
+
   const getActivityColor = (activity: AnyActivity) => {
     if (activity.status === 'draft') return 'bg-gray-400';
     if (activity.status === 'cancelled') return 'bg-red-400';
@@ -231,10 +272,203 @@ export default function TimelineView() {
       });
   }, [filteredActivities, viewStart, viewEnd, categoryFilter, statusFilter, customActivityTypes]);
 
+  const swimlanes = useMemo(
+    () => (groupBy === 'none' ? [] : getSwimlanes(visibleActivities, groupBy, staffMembers, customActivityTypes)),
+    [visibleActivities, groupBy, staffMembers, customActivityTypes]
+  );
+
+  const toggleLane = (laneKey: string) => {
+    setCollapsedLanes((current) => {
+      const next = new Set(current);
+      if (next.has(laneKey)) next.delete(laneKey);
+      else next.add(laneKey);
+      return next;
+    });
+  };
+
+  const toggleExpanded = (activityId: string) => {
+    setExpandedIds((current) => {
+      const next = new Set(current);
+      if (next.has(activityId)) next.delete(activityId);
+      else next.add(activityId);
+      return next;
+    });
+  };
+
+  const allExpanded = visibleActivities.length > 0 && visibleActivities.every((a) => expandedIds.has(a.id));
+
   const getDateRangeLabel = () => {
     return `${format(viewStart, 'MMM d, yyyy')} - ${format(viewEnd, 'MMM d, yyyy')}`;
   };
 
+  // One activity row; in swimlanes the same activity can appear in several lanes
+  const renderActivityRow = (activity: AnyActivity, laneKey = '', hasConflict = false) => {
+    const isDragging = preview?.activityId === activity.id;
+    const position = getActivityPosition(
+      isDragging ? { ...activity, startDate: preview.startDate, endDate: preview.endDate } : activity
+    );
+    if (!position) return null;
+    const draggable = can('activity:edit', activity);
+    const category = getActivityCategory(activity.activityType, customActivityTypes);
+    const statusBadge = getStatusBadge(activity.status);
+    const isHovered = hoveredActivity === activity.id;
+    const isExpanded = displayMode === 'gantt' && expandedIds.has(activity.id);
+
+    return (
+      <Fragment key={laneKey ? `${laneKey}-${activity.id}` : activity.id}>
+        <div
+          className={`flex items-center h-16 border-b dark:border-gray-700 transition-colors group ${
+            isHovered ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-gray-50/50 dark:hover:bg-gray-700/50'
+          }`}
+          onMouseEnter={() => setHoveredActivity(activity.id)}
+          onMouseLeave={() => setHoveredActivity(null)}
+        >
+          {/* Activity name and details */}
+          <div
+            className="w-64 flex-shrink-0 border-r dark:border-gray-600 px-4 cursor-pointer hover:bg-blue-50 dark:hover:bg-blue-900/30 transition-colors flex items-center gap-3"
+            onClick={() => selectActivity(activity.id)}
+          >
+            {displayMode === 'gantt' && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggleExpanded(activity.id);
+                }}
+                className="-ml-2 p-0.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                title={isExpanded ? 'Hide phases and tasks' : 'Show phases and tasks'}
+              >
+                <svg
+                  className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-90' : ''}`}
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </button>
+            )}
+            <div className={`p-1.5 rounded-md ${
+              category === 'trade' ? 'bg-blue-100 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400' :
+              category === 'educational' ? 'bg-green-100 dark:bg-green-900/50 text-green-600 dark:text-green-400' :
+              category === 'consultation' ? 'bg-amber-100 dark:bg-amber-900/50 text-amber-600 dark:text-amber-400' :
+              'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400'
+            }`}>
+              {getCategoryIcon(category)}
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="font-medium text-sm text-gray-900 dark:text-gray-100 truncate group-hover:text-blue-600 dark:group-hover:text-blue-400">
+                {activity.name}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-2">
+                <span>{getEventTypeLabel(activity)}</span>
+                <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${statusBadge.bg} ${statusBadge.text}`}>
+                  {statusBadge.label}
+                </span>
+              </div>
+            </div>
+          </div>
+
+          {/* Timeline bar area */}
+          <div className="flex-1 relative h-full" data-timeline-track>
+            {/* Grid lines for months */}
+            {months.map((month, idx) => {
+              if (idx === 0) return null;
+              const monthStart = startOfMonth(month);
+              const leftDays = differenceInDays(monthStart, viewStart);
+              const left = (leftDays / totalDays) * 100;
+              return (
+                <div
+                  key={month.getTime()}
+                  className="absolute top-0 h-full border-l border-gray-100 dark:border-gray-700"
+                  style={{ left: `${left}%` }}
+                />
+              );
+            })}
+
+            {/* Weekend backgrounds for month view */}
+            {zoomLevel === 'month' && days.map((day, idx) => {
+              if (!isWeekend(day)) return null;
+              const left = (idx / totalDays) * 100;
+              const width = (1 / totalDays) * 100;
+              return (
+                <div
+                  key={idx}
+                  className="absolute top-0 h-full bg-gray-50 dark:bg-gray-800/50"
+                  style={{ left: `${left}%`, width: `${width}%` }}
+                />
+              );
+            })}
+
+            {/* Today marker */}
+            {todayPosition !== null && (
+              <div
+                className="absolute top-0 h-full w-0.5 bg-red-500 z-10"
+                style={{ left: `${todayPosition}%` }}
+              />
+            )}
+
+            {/* Activity bar */}
+            <div
+              className={`absolute top-3 h-10 rounded-md cursor-pointer
+                transition-all border-l-4 shadow-sm
+                ${getActivityColor(activity)} ${getActivityBorderColor(activity)}
+                ${position.startsBeforeView ? 'rounded-l-none border-l-0' : ''}
+                ${position.endsAfterView ? 'rounded-r-none' : ''}
+                ${draggable ? 'select-none touch-none' : ''}
+                ${
+                  isHovered || isDragging
+                    ? 'shadow-md ring-2 ring-blue-300 ring-opacity-50'
+                    : hasConflict
+                    ? 'ring-2 ring-red-500'
+                    : 'hover:shadow-md'
+                }`}
+              style={{
+                left: `${position.left}%`,
+                width: `${Math.max(position.width, 1)}%`,
+                minWidth: '12px',
+              }}
+              onPointerDown={draggable ? (e) => startDrag(e, activity, 'move') : undefined}
+              onClick={() => !isDragClick() && selectActivity(activity.id)}
+              title={`${activity.name}\n${format(parseISO(activity.startDate), 'MMM d, yyyy')} - ${format(
+                parseISO(activity.endDate || activity.startDate),
+                'MMM d, yyyy'
+              )}\nStatus: ${activity.status.replace('_', ' ')}`}
+            >
+              {draggable && !position.startsBeforeView && (
+                <span
+                  className="absolute inset-y-0 -left-1 w-2 cursor-ew-resize"
+                  onPointerDown={(e) => startDrag(e, activity, 'start')}
+                />
+              )}
+              <div className="h-full flex items-center px-2 overflow-hidden">
+                <span className="text-xs text-white font-medium truncate">
+                  {position.width > 6 ? activity.name : ''}
+                </span>
+              </div>
+              {draggable && !position.endsAfterView && (
+                <span
+                  className="absolute inset-y-0 right-0 w-2 cursor-ew-resize"
+                  onPointerDown={(e) => startDrag(e, activity, 'end')}
+                />
+              )}
+            </div>
+          </div>
+        </div>
+        {isExpanded && (
+          <GanttRows
+            phases={getGanttPhases(activity, getChecklistForActivity(activity.id), procedureTemplates)}
+            dependencies={getGanttDependencies(getChecklistForActivity(activity.id))}
+            viewStart={viewStart}
+            viewEnd={viewEnd}
+            totalDays={totalDays}
+            todayPosition={todayPosition}
+            onOpen={() => selectActivity(activity.id)}
+          />
+        )}
+      </Fragment>
+    );
+  };
+
   return (
     <div className="h-full flex flex-col">
       {/* Header */}
@@ -245,6 +479,32 @@ export default function TimelineView() {
         </div>
 
         <div className="flex items-center gap-4">
+          {displayMode === 'gantt' && (
+            <button
+              onClick={() => setExpandedIds(allExpanded ? new Set() : new Set(visibleActivities.map((a) => a.id)))}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+            >
+              {allExpanded ? 'Collapse all' : 'Expand all'}
+            </button>
+          )}
+
+          {/* Display mode selector */}
+          <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
+            {(['bars', 'gantt'] as DisplayMode[]).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setDisplayMode(mode)}
+                className={`px-3 py-1 text-sm rounded-md transition-colors capitalize ${
+                  displayMode === mode
+                    ? 'bg-white dark:bg-gray-600 shadow text-gray-900 dark:text-gray-100'
+                    : 'text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-gray-100'
+                }`}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+
           {/* Today button */}
           <button
             onClick={handleToday}
@@ -324,6 +584,23 @@ export default function TimelineView() {
               <option value="cancelled">Cancelled</option>
             </select>
           </div>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-600 dark:text-gray-400">Group by:</span>
+            <select
+              value={groupBy}
+              onChange={(e) => {
+                setGroupBy(e.target.value as SwimlaneGroupBy);
+                setCollapsedLanes(new Set());
+              }}
+              className="text-sm border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            >
+              {SWIMLANE_GROUP_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
 
         {/* Legend */}
@@ -354,6 +631,24 @@ export default function TimelineView() {
               <span className="text-gray-600 dark:text-gray-400">Today</span>
             </div>
           )}
+          {groupBy !== 'none' && (
+            <div className="flex items-center gap-1.5">
+              <span className="w-3 h-3 rounded bg-red-200 dark:bg-red-800"></span>
+              <span className="text-gray-600 dark:text-gray-400">Staff double-booked</span>
+            </div>
+          )}
+          {displayMode === 'gantt' && (
+            <>
+              <div className="flex items-center gap-1.5">
+                <span className="w-2.5 h-2.5 rotate-45 border bg-white dark:bg-gray-800 border-gray-400"></span>
+                <span className="text-gray-600 dark:text-gray-400">Task due</span>
+              </div>
+              <div className="flex items-center gap-1.5">
+                <span className="w-4 h-0.5 bg-red-500"></span>
+                <span className="text-gray-600 dark:text-gray-400">Slipped dependency</span>
+              </div>
+            </>
+          )}
         </div>
       </div>
 
@@ -448,116 +743,74 @@ export default function TimelineView() {
               <p className="text-sm text-gray-400 dark:text-gray-500 mt-1">Try adjusting the filters or date range</p>
             </div>
           ) : (
-            visibleActivities.map((activity) => {
-              const position = getActivityPosition(activity);
-              if (!position) return null;
-              const category = getActivityCategory(activity.activityType, customActivityTypes);
-              const statusBadge = getStatusBadge(activity.status);
-              const isHovered = hoveredActivity === activity.id;
-
-              return (
-                <div
-                  key={activity.id}
-                  className={`flex items-center h-16 border-b dark:border-gray-700 transition-colors group ${
-                    isHovered ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-gray-50/50 dark:hover:bg-gray-700/50'
-                  }`}
-                  onMouseEnter={() => setHoveredActivity(activity.id)}
-                  onMouseLeave={() => setHoveredActivity(null)}
-                >
-                  {/* Activity name and details */}
-                  <div
-                    className="w-64 flex-shrink-0 border-r dark:border-gray-600 px-4 cursor-pointer hover:bg-blue-50 dark:hover:bg-blue-900/30 transition-colors flex items-center gap-3"
-                    onClick={() => selectActivity(activity.id)}
-                  >
-                    <div className={`p-1.5 rounded-md ${
-                      category === 'trade' ? 'bg-blue-100 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400' :
-                      category === 'educational' ? 'bg-green-100 dark:bg-green-900/50 text-green-600 dark:text-green-400' :
-                      category === 'consultation' ? 'bg-amber-100 dark:bg-amber-900/50 text-amber-600 dark:text-amber-400' :
-                      'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400'
-                    }`}>
-                      {getCategoryIcon(category)}
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <div className="font-medium text-sm text-gray-900 dark:text-gray-100 truncate group-hover:text-blue-600 dark:group-hover:text-blue-400">
-                        {activity.name}
-                      </div>
-                      <div className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-2">
-                        <span>{getEventTypeLabel(activity)}</span>
-                        <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${statusBadge.bg} ${statusBadge.text}`}>
-                          {statusBadge.label}
-                        </span>
-                      </div>
-                    </div>
-                  </div>
-
-                  {/* Timeline bar area */}
-                  <div className="flex-1 relative h-full">
-                    {/* Grid lines for months */}
-                    {months.map((month, idx) => {
-                      if (idx === 0) return null;
-                      const monthStart = startOfMonth(month);
-                      const leftDays = differenceInDays(monthStart, viewStart);
-                      const left = (leftDays / totalDays) * 100;
-                      return (
-                        <div
-                          key={month.getTime()}
-                          className="absolute top-0 h-full border-l border-gray-100 dark:border-gray-700"
-                          style={{ left: `${left}%` }}
-                        />
-                      );
-                    })}
-
-                    {/* Weekend backgrounds for month view */}
-                    {zoomLevel === 'month' && days.map((day, idx) => {
-                      if (!isWeekend(day)) return null;
-                      const left = (idx / totalDays) * 100;
-                      const width = (1 / totalDays) * 100;
-                      return (
-                        <div
-                          key={idx}
-                          className="absolute top-0 h-full bg-gray-50 dark:bg-gray-800/50"
-                          style={{ left: `${left}%`, width: `${width}%` }}
-                        />
-                      );
-                    })}
-
-                    {/* Today marker */}
-                    {todayPosition !== null && (
-                      <div
-                        className="absolute top-0 h-full w-0.5 bg-red-500 z-10"
-                        style={{ left: `${todayPosition}%` }}
-                      />
-                    )}
-
-                    {/* Activity bar */}
+            groupBy === 'none' ? (
+              visibleActivities.map((activity) => renderActivityRow(activity))
+            ) : (
+              swimlanes.map((lane) => {
+                const isCollapsed = collapsedLanes.has(lane.key);
+                return (
+                  <Fragment key={lane.key || 'none'}>
+                    {/* Lane header, with the days its staff are double-booked shaded red */}
                     <div
-                      className={`absolute top-3 h-10 rounded-md cursor-pointer
-                        transition-all border-l-4 shadow-sm
-                        ${getActivityColor(activity)} ${getActivityBorderColor(activity)}
-                        ${position.startsBeforeView ? 'rounded-l-none border-l-0' : ''}
-                        ${position.endsAfterView ? 'rounded-r-none' : ''}
-                        ${isHovered ? 'shadow-md ring-2 ring-blue-300 ring-opacity-50' : 'hover:shadow-md'}`}
-                      style={{
-                        left: `${position.left}%`,
-                        width: `${Math.max(position.width, 1)}%`,
-                        minWidth: '12px',
-                      }}
-                      onClick={() => selectActivity(activity.id)}
-                      title={`${activity.name}\n${format(parseISO(activity.startDate), 'MMM d, yyyy')} - ${format(
-                        parseISO(activity.endDate || activity.startDate),
-                        'MMM d, yyyy'
-                      )}\nStatus: ${activity.status.replace('_', ' ')}`}
+                      className="flex items-center h-9 border-b dark:border-gray-700 bg-gray-100 dark:bg-gray-700/60 cursor-pointer"
+                      onClick={() => toggleLane(lane.key)}
                     >
-                      <div className="h-full flex items-center px-2 overflow-hidden">
-                        <span className="text-xs text-white font-medium truncate">
-                          {position.width > 6 ? activity.name : ''}
+                      <div className="w-64 flex-shrink-0 border-r dark:border-gray-600 px-4 flex items-center gap-2">
+                        <svg
+                          className={`w-4 h-4 text-gray-500 transition-transform ${isCollapsed ? '' : 'rotate-90'}`}
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                        </svg>
+                        <span className="flex-1 text-sm font-semibold text-gray-800 dark:text-gray-200 truncate">
+                          {lane.label}
                         </span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">{lane.activities.length}</span>
+                        {lane.conflicts.length > 0 && (
+                          <span
+                            className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-red-100 dark:bg-red-900/50 text-red-700 dark:text-red-300"
+                            title={lane.conflicts
+                              .map(
+                                (c) =>
+                                  `${c.staff?.name || 'Unknown staff'}: ${c.first.name} and ${c.second.name} (${format(
+                                    parseISO(c.start),
+                                    'MMM d'
+                                  )} - ${format(parseISO(c.end), 'MMM d')})`
+                              )
+                              .join('\n')}
+                          >
+                            {lane.conflicts.length} overlap{lane.conflicts.length !== 1 ? 's' : ''}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex-1 relative h-full">
+                        {lane.conflicts.map((conflict) => {
+                          const position = getActivityPosition({
+                            ...conflict.first,
+                            startDate: conflict.start,
+                            endDate: conflict.end,
+                          });
+                          if (!position) return null;
+                          return (
+                            <div
+                              key={`${conflict.staffId}-${conflict.first.id}-${conflict.second.id}`}
+                              className="absolute top-1 bottom-1 rounded-sm bg-red-200/70 dark:bg-red-800/60"
+                              style={{ left: `${position.left}%`, width: `${position.width}%` }}
+                            />
+                          );
+                        })}
                       </div>
                     </div>
-                  </div>
-                </div>
-              );
-            })
+                    {!isCollapsed &&
+                      lane.activities.map((activity) =>
+                        renderActivityRow(activity, lane.key || 'none', lane.conflictActivityIds.has(activity.id))
+                      )}
+                  </Fragment>
+                );
+              })
+            )
           )}
         </div>
       </div>
@@ -591,6 +844,28 @@ export default function TimelineView() {
           </span>
         </div>
       </div>
+
+      {pendingReschedule && (
+        <RescheduleDialog
+          activity={pendingReschedule.activity}
+          dates={pendingReschedule.dates}
+          onCancel={() => setPendingReschedule(null)}
+          onRescheduled={(undo) => {
+            setLastReschedule({ name: pendingReschedule.activity.name, undo });
+            setPendingReschedule(null);
+          }}
+        />
+      )}
+      {lastReschedule && (
+        <UndoToast
+          message={`Rescheduled ${lastReschedule.name}`}
+          onUndo={() => {
+            undoReschedule(lastReschedule.undo);
+            setLastReschedule(null);
+          }}
+          onClose={() => setLastReschedule(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,213 @@
+import { useMemo, useState } from 'react';
+import { addWeeks, format, parseISO } from 'date-fns';
+import { useActivities } from '../../context/ActivityContext';
+import { findLeadOverlaps, getStaffWorkload, getWorkloadWeeks } from '../../utils/workload';
+
+const WEEK_COUNTS = [4, 8, 12];
+
+export default function WorkloadView() {
+  const { checklistInstances, activities, procedureTemplates, staffMembers, updateStaffMember, can } = useActivities();
+  const [weekOffset, setWeekOffset] = useState(0);
+  const [weekCount, setWeekCount] = useState(8);
+  const [selectedCell, setSelectedCell] = useState<{ rowKey: string; week: string } | null>(null);
+
+  const weeks = useMemo(
+    () => getWorkloadWeeks(addWeeks(new Date(), weekOffset), weekCount),
+    [weekOffset, weekCount]
+  );
+
+  const workload = useMemo(
+    () => getStaffWorkload(checklistInstances, activities, procedureTemplates, staffMembers, weeks),
+    [checklistInstances, activities, procedureTemplates, staffMembers, weeks]
+  );
+
+  const overlaps = useMemo(() => findLeadOverlaps(activities, staffMembers), [activities, staffMembers]);
+
+  const overAllocatedCount = workload.filter(
+    (row) => row.staff && Object.values(row.weeks).some((w) => w.hours > row.capacity)
+  ).length;
+
+  const selectedRow = selectedCell && workload.find((row) => (row.staff?.id || '') === selectedCell.rowKey);
+  const selectedWeek = selectedRow && selectedCell ? selectedRow.weeks[selectedCell.week] : undefined;
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="p-4 border-b dark:border-gray-700 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Workload</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Open estimated task hours per week, by due date
+            {overAllocatedCount > 0 && (
+              <span className="text-red-600 dark:text-red-400">
+                {' '}• {overAllocatedCount} staff over capacity
+              </span>
+            )}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setWeekOffset(weekOffset - weekCount)}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-gray-600 dark:text-gray-400"
+            title="Previous weeks"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <button
+            onClick={() => setWeekOffset(0)}
+            className="px-3 py-1.5 text-sm border dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300"
+          >
+            This Week
+          </button>
+          <button
+            onClick={() => setWeekOffset(weekOffset + weekCount)}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-gray-600 dark:text-gray-400"
+            title="Next weeks"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+          <select
+            value={weekCount}
+            onChange={(e) => setWeekCount(Number(e.target.value))}
+            className="text-sm border dark:border-gray-600 rounded-lg px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          >
+            {WEEK_COUNTS.map((count) => (
+              <option key={count} value={count}>
+                {count} weeks
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 space-y-6">
+        {/* Weekly hours */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow dark:shadow-gray-900/50 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b dark:border-gray-700 text-gray-600 dark:text-gray-400">
+                <th className="text-left font-medium px-4 py-2">Staff</th>
+                <th className="text-right font-medium px-2 py-2">Capacity</th>
+                {weeks.map((week) => (
+                  <th key={week} className="text-right font-medium px-2 py-2 whitespace-nowrap">
+                    {format(parseISO(week), 'MMM d')}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y dark:divide-gray-700">
+              {workload.map((row) => {
+                const rowKey = row.staff?.id || '';
+                return (
+                  <tr key={rowKey}>
+                    <td className="px-4 py-2 text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                      {row.staff ? row.staff.name : <span className="italic text-gray-500 dark:text-gray-400">Unassigned</span>}
+                    </td>
+                    <td className="px-2 py-2 text-right">
+                      {row.staff ? (
+                        <input
+                          type="number"
+                          min={0}
+                          value={row.capacity}
+                          onChange={(e) =>
+                            updateStaffMember(row.staff!.id, {
+                              weeklyCapacityHours: e.target.value === '' ? undefined : Number(e.target.value),
+                            })
+                          }
+                          disabled={!can('staff:manage')}
+                          className="w-16 text-right border dark:border-gray-600 rounded px-1 py-0.5 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 disabled:opacity-60"
+                          title="Weekly capacity (hours)"
+                        />
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
+                    </td>
+                    {weeks.map((week) => {
+                      const cell = row.weeks[week];
+                      const hours = cell?.hours || 0;
+                      const isOver = !!row.staff && hours > row.capacity;
+                      const isSelected = selectedCell?.rowKey === rowKey && selectedCell.week === week;
+                      return (
+                        <td key={week} className="px-1 py-1 text-right">
+                          <button
+                            onClick={() => setSelectedCell(cell ? { rowKey, week } : null)}
+                            disabled={!cell}
+                            className={`w-full px-2 py-1 rounded tabular-nums ${
+                              isOver
+                                ? 'bg-red-100 dark:bg-red-900/50 text-red-700 dark:text-red-300 font-medium'
+                                : hours > 0
+                                ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                                : 'text-gray-300 dark:text-gray-600'
+                            } ${isSelected ? 'ring-2 ring-blue-500' : ''}`}
+                          >
+                            {hours > 0 ? `${hours}h` : '–'}
+                          </button>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Selected week breakdown */}
+        {selectedRow && selectedWeek && selectedCell && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow dark:shadow-gray-900/50 p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-semibold text-gray-900 dark:text-gray-100">
+                {selectedRow.staff?.name || 'Unassigned'} • week of {format(parseISO(selectedCell.week), 'MMM d, yyyy')}
+              </h3>
+              <button
+                onClick={() => setSelectedCell(null)}
+                className="text-sm text-gray-500 hover:text-gray-900 dark:hover:text-gray-100"
+              >
+                Close
+              </button>
+            </div>
+            <ul className="divide-y dark:divide-gray-700 text-sm">
+              {selectedWeek.items.map(({ activity, item, hours }) => (
+                <li key={item.id} className="py-2 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="text-gray-900 dark:text-gray-100 truncate">{item.title}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {activity.name} • due {format(parseISO(item.dueDate), 'MMM d')}
+                    </div>
+                  </div>
+                  <span className="text-gray-700 dark:text-gray-300 tabular-nums">{hours}h</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Lead overlaps */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow dark:shadow-gray-900/50 p-4">
+          <h3 className="font-semibold text-gray-900 dark:text-gray-100 mb-3">Lead Conflicts</h3>
+          {overlaps.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No staff member leads two overlapping activities.</p>
+          ) : (
+            <ul className="divide-y dark:divide-gray-700 text-sm">
+              {overlaps.map(({ staff, staffId, first, second }) => (
+                <li key={`${first.id}-${second.id}`} className="py-2">
+                  <div className="font-medium text-orange-700 dark:text-orange-300">{staff?.name || staffId}</div>
+                  <div className="text-gray-600 dark:text-gray-400">
+                    {first.name} ({format(parseISO(first.startDate), 'MMM d')}
+                    {first.endDate && first.endDate !== first.startDate && ` – ${format(parseISO(first.endDate), 'MMM d')}`})
+                    {' '}overlaps{' '}
+                    {second.name} ({format(parseISO(second.startDate), 'MMM d')}
+                    {second.endDate && second.endDate !== second.startDate && ` – ${format(parseISO(second.endDate), 'MMM d')}`})
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
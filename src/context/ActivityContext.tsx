@@ -1,4 +1,5 @@
-import React, { createContext, useContext, useReducer, useCallback, useMemo, useEffect } from 'react';
+import React, { createContext, useContext, useReducer, useCallback, useMemo, useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
 import { v4 as uuidv4 } from 'uuid';
 import type {
   AnyActivity,
@@ -9,20 +10,70 @@ import type {
   ChecklistInstance,
   ProcedureTemplate,
   Reminder,
+  ReminderSnoozeOption,
+  ReminderState,
+  CustomReminder,
+  UserPreferences,
   StaffMember,
+  StaffRole,
+  ChecklistItem,
   SyncStatus,
   CustomActivityType,
+  ClosureDay,
   ActivityType,
   ActivityCategory,
 } from '../types';
 import { ACTIVITY_TYPES, getActivityCategory, getActivityTypeInfo } from '../types';
-import { defaultProcedures, getProcedureForActivity } from '../data/defaultProcedures';
+import { defaultProcedures, isBuiltInTemplate } from '../data/defaultProcedures';
 import { getFiscalYear } from '../utils/fiscalYear';
+import { isCompleteDate } from '../utils/dateUtils';
+import {
+  createConsultationActivityRecord,
+  createEducationalActivityRecord,
+  createGenericActivityRecord,
+  createTradeActivityRecord,
+} from '../utils/activities';
+import { cloneTemplate, createTemplateRevision, findProcedureTemplate } from '../utils/procedureTemplates';
+import { applyTemplateDiff, diffChecklistWithTemplate } from '../utils/checklistMigration';
+import { createHolidayLookup, type HolidayLookup } from '../utils/businessDays';
+import { assertAcyclicDependencies, clearStaleDependencyOverrides } from '../utils/taskDependencies';
+import { applyItemUpdates, canApproveItem, getPendingApprovals, isAwaitingApproval } from '../utils/approvals';
+import type { PendingApproval } from '../utils/approvals';
+import {
+  createStaffFromAuthUser,
+  getAuthProfileUpdates,
+  getClaimedRole,
+  getStaffUsageCount,
+  hasActiveManager,
+  LOCAL_USER_ROLE,
+} from '../utils/staff';
+import { hasPermission, getPermissionDeniedMessage } from '../utils/permissions';
+import { getDefaultUserPreferences } from '../utils/userPreferences';
+import type { Permission } from '../utils/permissions';
 import {
   generateChecklistFromTemplate,
   updateChecklistCounts,
   generateReminders,
+  generateActivityReminders,
+  generateCustomReminders,
+  isReminderForUser,
+  applyReminderStates,
+  getSnoozeUntil,
+  isReminderActive,
+  applyChecklistDateShifts,
 } from '../utils/reminderScheduler';
+import type { ChecklistDateShift } from '../utils/reminderScheduler';
+import { getRescheduleUpdates, getShiftedItemDates, restoreItemDates } from '../utils/reschedule';
+import type { ActivityDates, RescheduleUndo } from '../utils/reschedule';
+import { applyStorageChanges, createEmptyData, getStorage, getStorageChanges } from '../services/storage';
+import type { PersistedData, StorageChanges } from '../services/storage';
+import { openTabChannel, requestTabLeadership } from '../services/tabSync';
+import type { TabChannel, TabMessage } from '../services/tabSync';
+import { CURRENT_SCHEMA_VERSION, migratePersistedData } from '../utils/schemaMigration';
+import type { DroppedRecord } from '../utils/schemaMigration';
+import { createFirestoreSync, isSyncConfigured, queueSyncChanges, SYNC_COLLECTIONS } from '../services/firestoreSync';
+import type { FirestoreSync, RemoteChanges, SyncConflict, SyncedRecords } from '../services/firestoreSync';
+import { resolveMergeConflicts, withItemRevisions } from '../utils/syncMerge';
 import { useAuth } from './AuthContext';
 
 // State type
@@ -33,11 +84,18 @@ interface ActivityState {
   procedureTemplates: ProcedureTemplate[];
   staffMembers: StaffMember[];
   customActivityTypes: CustomActivityType[];
+  closureDays: ClosureDay[];
   currentUserId: string | null;
   filters: ActivityFilters;
   reminders: Reminder[];
+  reminderStates: Record<string, Record<string, ReminderState>>; // By user, then reminder ID
+  userPreferences: Record<string, UserPreferences>; // By user
   isLoading: boolean;
   syncStatus: SyncStatus;
+  permissionDeniedMessage: string | null;
+  storageError: string | null; // Why saved data couldn't be loaded
+  droppedRecords: DroppedRecord[]; // Saved records left out on load because they failed validation
+  syncConflicts: SyncConflict[]; // Edits that clash with someone else's, waiting to be resolved
 }
 
 // Action types
@@ -52,17 +110,50 @@ type ActivityAction =
   | { type: 'CLEAR_FILTERS' }
   | { type: 'ADD_CHECKLIST'; payload: ChecklistInstance }
   | { type: 'UPDATE_CHECKLIST'; payload: ChecklistInstance }
+  | { type: 'REFRESH_CHECKLISTS' }
   | { type: 'DELETE_CHECKLIST'; payload: string }
   | { type: 'SET_REMINDERS'; payload: Reminder[] }
   | { type: 'DISMISS_REMINDER'; payload: string }
   | { type: 'MARK_REMINDER_READ'; payload: string }
+  | { type: 'SNOOZE_REMINDER'; payload: { id: string; until: string } }
+  | { type: 'SET_USER_PREFERENCES'; payload: UserPreferences }
   | { type: 'SET_STAFF'; payload: StaffMember[] }
+  | { type: 'ADD_STAFF'; payload: StaffMember }
+  | { type: 'UPDATE_STAFF'; payload: { id: string; updates: Partial<StaffMember> } }
+  | { type: 'DELETE_STAFF'; payload: string }
   | { type: 'SET_CURRENT_USER'; payload: string | null }
   | { type: 'SET_SYNC_STATUS'; payload: SyncStatus }
+  | { type: 'SET_PERMISSION_DENIED'; payload: string | null }
+  | { type: 'SET_STORAGE_ERROR'; payload: string | null }
+  | { type: 'SET_DROPPED_RECORDS'; payload: DroppedRecord[] }
+  | { type: 'SET_SYNC_CONFLICTS'; payload: SyncConflict[] }
   | { type: 'LOAD_STATE'; payload: Partial<ActivityState> }
+  | { type: 'APPLY_REMOTE_CHANGES'; payload: RemoteChanges }
+  | { type: 'APPLY_TAB_CHANGES'; payload: StorageChanges }
   | { type: 'ADD_CUSTOM_TYPE'; payload: CustomActivityType }
   | { type: 'UPDATE_CUSTOM_TYPE'; payload: { id: string; updates: Partial<CustomActivityType> } }
-  | { type: 'DELETE_CUSTOM_TYPE'; payload: string };
+  | { type: 'DELETE_CUSTOM_TYPE'; payload: string }
+  | { type: 'ADD_CLOSURE_DAY'; payload: ClosureDay }
+  | { type: 'DELETE_CLOSURE_DAY'; payload: string }
+  | { type: 'ADD_TEMPLATE'; payload: ProcedureTemplate }
+  | { type: 'UPDATE_TEMPLATE'; payload: { id: string; updates: Partial<ProcedureTemplate> } }
+  | { type: 'DELETE_TEMPLATE'; payload: string };
+
+// Per-user state for signed-out use is kept under a fixed key
+const LOCAL_USER_KEY = 'local';
+
+function updateReminderState(state: ActivityState, id: string, updates: Partial<ReminderState>): ActivityState {
+  const userKey = state.currentUserId || LOCAL_USER_KEY;
+  const userStates = state.reminderStates[userKey] || {};
+  const current = userStates[id] || { isRead: false, isDismissed: false };
+  return {
+    ...state,
+    reminderStates: {
+      ...state.reminderStates,
+      [userKey]: { ...userStates, [id]: { ...current, ...updates } },
+    },
+  };
+}
 
 // Initial state
 const initialState: ActivityState = {
@@ -72,11 +163,18 @@ const initialState: ActivityState = {
   procedureTemplates: defaultProcedures,
   staffMembers: [],
   customActivityTypes: [],
+  closureDays: [],
   currentUserId: null,
   filters: {},
   reminders: [],
-  isLoading: false,
+  reminderStates: {},
+  userPreferences: {},
+  isLoading: true, // Until saved data has been read from storage
   syncStatus: 'offline',
+  permissionDeniedMessage: null,
+  storageError: null,
+  droppedRecords: [],
+  syncConflicts: [],
 };
 
 // Reducer
@@ -96,7 +194,7 @@ function activityReducer(state: ActivityState, action: ActivityAction): Activity
         ...state,
         activities: state.activities.map((a) =>
           a.id === action.payload.id
-            ? { ...a, ...action.payload.updates, updatedAt: new Date().toISOString() }
+            ? { ...a, ...action.payload.updates, revision: (a.revision ?? 0) + 1, updatedAt: new Date().toISOString() }
             : a
         ) as AnyActivity[],
       };
@@ -128,10 +226,21 @@ function activityReducer(state: ActivityState, action: ActivityAction): Activity
       return {
         ...state,
         checklistInstances: state.checklistInstances.map((c) =>
-          c.id === action.payload.id ? action.payload : c
+          c.id === action.payload.id ? withItemRevisions(c, clearStaleDependencyOverrides(c, action.payload)) : c
         ),
       };
 
+    case 'REFRESH_CHECKLISTS':
+      return {
+        ...state,
+        checklistInstances: state.checklistInstances.map((c) => {
+          const refreshed = updateChecklistCounts(c);
+          return refreshed.items === c.items && refreshed.overdueCount === c.overdueCount
+            ? c
+            : withItemRevisions(c, refreshed);
+        }),
+      };
+
     case 'DELETE_CHECKLIST':
       return {
         ...state,
@@ -142,23 +251,37 @@ function activityReducer(state: ActivityState, action: ActivityAction): Activity
       return { ...state, reminders: action.payload };
 
     case 'DISMISS_REMINDER':
+      return updateReminderState(state, action.payload, { isDismissed: true });
+
+    case 'MARK_REMINDER_READ':
+      return updateReminderState(state, action.payload, { isRead: true });
+
+    case 'SNOOZE_REMINDER':
+      // A snoozed reminder comes back unread
+      return updateReminderState(state, action.payload.id, { isRead: false, snoozedUntil: action.payload.until });
+
+    case 'SET_USER_PREFERENCES':
       return {
         ...state,
-        reminders: state.reminders.map((r) =>
-          r.id === action.payload ? { ...r, isDismissed: true } : r
-        ),
+        userPreferences: { ...state.userPreferences, [action.payload.userId]: action.payload },
       };
 
-    case 'MARK_REMINDER_READ':
+    case 'SET_STAFF':
+      return { ...state, staffMembers: action.payload };
+
+    case 'ADD_STAFF':
+      return { ...state, staffMembers: [...state.staffMembers, action.payload] };
+
+    case 'UPDATE_STAFF':
       return {
         ...state,
-        reminders: state.reminders.map((r) =>
-          r.id === action.payload ? { ...r, isRead: true } : r
+        staffMembers: state.staffMembers.map((s) =>
+          s.id === action.payload.id ? { ...s, ...action.payload.updates } : s
         ),
       };
 
-    case 'SET_STAFF':
-      return { ...state, staffMembers: action.payload };
+    case 'DELETE_STAFF':
+      return { ...state, staffMembers: state.staffMembers.filter((s) => s.id !== action.payload) };
 
     case 'SET_CURRENT_USER':
       return { ...state, currentUserId: action.payload };
@@ -166,9 +289,53 @@ function activityReducer(state: ActivityState, action: ActivityAction): Activity
     case 'SET_SYNC_STATUS':
       return { ...state, syncStatus: action.payload };
 
+    case 'SET_PERMISSION_DENIED':
+      return { ...state, permissionDeniedMessage: action.payload };
+
+    case 'SET_STORAGE_ERROR':
+      return { ...state, storageError: action.payload };
+
+    case 'SET_DROPPED_RECORDS':
+      return { ...state, droppedRecords: action.payload };
+
+    case 'SET_SYNC_CONFLICTS':
+      return { ...state, syncConflicts: action.payload };
+
     case 'LOAD_STATE':
       return { ...state, ...action.payload };
 
+    case 'APPLY_TAB_CHANGES': {
+      const next = applyStorageChanges(state, action.payload);
+      return {
+        ...next,
+        activeActivityId: next.activities.some((a) => a.id === state.activeActivityId) ? state.activeActivityId : null,
+      };
+    }
+
+    case 'APPLY_REMOTE_CHANGES': {
+      const { put, delete: deleted } = action.payload;
+      const merge = <T extends { id: string }>(records: T[], incoming: T[] = [], deletedIds: string[] = []): T[] => {
+        const incomingById = new Map(incoming.map((r) => [r.id, r]));
+        const removed = new Set(deletedIds);
+        const existingIds = new Set(records.map((r) => r.id));
+        return [
+          ...records.filter((r) => !removed.has(r.id)).map((r) => incomingById.get(r.id) || r),
+          ...incoming.filter((r) => !existingIds.has(r.id)),
+        ];
+      };
+      const activities = merge(state.activities, put.activities, deleted.activities);
+      return {
+        ...state,
+        activities,
+        checklistInstances: merge(state.checklistInstances, put.checklistInstances, deleted.checklistInstances),
+        staffMembers: merge(state.staffMembers, put.staffMembers, deleted.staffMembers),
+        customActivityTypes: merge(state.customActivityTypes, put.customActivityTypes, deleted.customActivityTypes),
+        procedureTemplates: merge(state.procedureTemplates, put.procedureTemplates, deleted.procedureTemplates),
+        closureDays: merge(state.closureDays, put.closureDays, deleted.closureDays),
+        activeActivityId: activities.some((a) => a.id === state.activeActivityId) ? state.activeActivityId : null,
+      };
+    }
+
     case 'ADD_CUSTOM_TYPE':
       return {
         ...state,
@@ -189,6 +356,37 @@ function activityReducer(state: ActivityState, action: ActivityAction): Activity
         customActivityTypes: state.customActivityTypes.filter((t) => t.id !== action.payload),
       };
 
+    case 'ADD_CLOSURE_DAY':
+      return {
+        ...state,
+        closureDays: [...state.closureDays, action.payload].sort((a, b) => a.date.localeCompare(b.date)),
+      };
+
+    case 'DELETE_CLOSURE_DAY':
+      return { ...state, closureDays: state.closureDays.filter((c) => c.id !== action.payload) };
+
+    case 'ADD_TEMPLATE':
+      return {
+        ...state,
+        procedureTemplates: [...state.procedureTemplates, action.payload],
+      };
+
+    case 'UPDATE_TEMPLATE':
+      return {
+        ...state,
+        procedureTemplates: state.procedureTemplates.map((t) =>
+          t.id === action.payload.id
+            ? { ...t, ...action.payload.updates, updatedAt: new Date().toISOString() }
+            : t
+        ),
+      };
+
+    case 'DELETE_TEMPLATE':
+      return {
+        ...state,
+        procedureTemplates: state.procedureTemplates.filter((t) => t.id !== action.payload),
+      };
+
     default:
       return state;
   }
@@ -204,17 +402,33 @@ interface ActivityContextType {
   procedureTemplates: ProcedureTemplate[];
   staffMembers: StaffMember[];
   customActivityTypes: CustomActivityType[];
+  closureDays: ClosureDay[];
+  getHoliday: HolidayLookup; // Holidays and closure days that due dates roll off
   currentUserId: string | null;
   filters: ActivityFilters;
   reminders: Reminder[];
   isLoading: boolean;
   syncStatus: SyncStatus;
+  isLeaderTab: boolean; // This tab saves data and shows notifications for all open tabs
+
+  // Permissions
+  currentRole: StaffRole;
+  can: (permission: Permission, activity?: AnyActivity) => boolean;
+  permissionDeniedMessage: string | null;
+  clearPermissionDenied: () => void;
+  storageError: string | null;
+  droppedRecords: DroppedRecord[];
+  dismissDroppedRecords: () => void;
+
+  // Sync
+  syncConflicts: SyncConflict[];
+  resolveSyncConflict: (conflict: SyncConflict, useRemotePaths: string[]) => void;
 
   // Activity CRUD
-  createActivity: (activityType: ActivityType, data: Partial<AnyActivity>) => AnyActivity;
-  createTradeActivity: (data: Partial<TradeActivity>) => TradeActivity;
-  createEducationalActivity: (data: Partial<EducationalActivity>) => EducationalActivity;
-  createConsultationActivity: (data: Partial<ConsultationActivity>) => ConsultationActivity;
+  createActivity: (activityType: ActivityType, data: Partial<AnyActivity>) => AnyActivity | null;
+  createTradeActivity: (data: Partial<TradeActivity>) => TradeActivity | null;
+  createEducationalActivity: (data: Partial<EducationalActivity>) => EducationalActivity | null;
+  createConsultationActivity: (data: Partial<ConsultationActivity>) => ConsultationActivity | null;
   updateActivity: (id: string, updates: Partial<AnyActivity>) => void;
   deleteActivity: (id: string) => void;
   duplicateActivity: (id: string) => AnyActivity | null;
@@ -231,12 +445,22 @@ interface ActivityContextType {
   archivedCount: number;
 
   // Custom Activity Types
-  addCustomActivityType: (type: Omit<CustomActivityType, 'id' | 'createdAt'>) => CustomActivityType;
+  addCustomActivityType: (type: Omit<CustomActivityType, 'id' | 'createdAt'>) => CustomActivityType | null;
   updateCustomActivityType: (id: string, updates: Partial<CustomActivityType>) => void;
   deleteCustomActivityType: (id: string) => void;
+
+  // Office Closures
+  addClosureDay: (data: Omit<ClosureDay, 'id' | 'createdAt'>) => ClosureDay | null;
+  deleteClosureDay: (id: string) => void;
   getActivityTypeInfo: (activityType: ActivityType) => ReturnType<typeof getActivityTypeInfo>;
   getAllActivityTypes: () => Array<{ id: string; name: string; category: ActivityCategory }>;
 
+  // Procedure Templates
+  createProcedureTemplate: (data: Partial<ProcedureTemplate>) => ProcedureTemplate | null;
+  cloneProcedureTemplate: (id: string) => ProcedureTemplate | null;
+  updateProcedureTemplate: (id: string, updates: Partial<ProcedureTemplate>) => void;
+  deleteProcedureTemplate: (id: string) => void;
+
   // Checklists
   getChecklistForActivity: (activityId: string) => ChecklistInstance | undefined;
   updateChecklistItem: (
@@ -244,14 +468,34 @@ interface ActivityContextType {
     itemId: string,
     updates: Partial<ChecklistInstance['items'][0]>
   ) => void;
+  rebaselineChecklist: (checklistId: string, shifts: ChecklistDateShift[]) => void;
+  rescheduleActivity: (activityId: string, dates: ActivityDates, shifts: ChecklistDateShift[]) => RescheduleUndo | null;
+  undoReschedule: (undo: RescheduleUndo) => void;
+  upgradeChecklistToLatestTemplate: (checklistId: string) => void;
+
+  // Approvals
+  submitForApproval: (checklistId: string, itemId: string) => void;
+  approveChecklistItem: (checklistId: string, itemId: string, comment: string) => void;
+  rejectChecklistItem: (checklistId: string, itemId: string, comment: string) => void;
+  pendingApprovals: PendingApproval[];
 
   // Reminders
   dismissReminder: (id: string) => void;
   markReminderRead: (id: string) => void;
+  snoozeReminder: (id: string, option: ReminderSnoozeOption) => void;
   unreadReminderCount: number;
+  addCustomReminder: (activityId: string, data: Omit<CustomReminder, 'id' | 'createdAt' | 'createdById'>) => void;
+  deleteCustomReminder: (activityId: string, reminderId: string) => void;
+
+  // User Preferences
+  userPreferences: UserPreferences;
+  updateUserPreferences: (updates: Partial<Omit<UserPreferences, 'userId'>>) => void;
 
   // Staff
   getStaffMember: (id: string) => StaffMember | undefined;
+  addStaffMember: (data: Omit<StaffMember, 'id'>) => StaffMember | null;
+  updateStaffMember: (id: string, updates: Partial<StaffMember>) => void;
+  deleteStaffMember: (id: string) => void;
 
   // Persistence
   exportToJSON: () => string;
@@ -261,13 +505,20 @@ interface ActivityContextType {
 
 const ActivityContext = createContext<ActivityContextType | null>(null);
 
-// Local storage key
-const STORAGE_KEY = 'cdfa-project-manager-data';
+const DATE_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Wrap an action so it only runs when its permission check passes
+function withPermission<A extends unknown[], R>(
+  isAllowed: (args: NoInfer<A>) => boolean,
+  action: (...args: A) => R
+): (...args: A) => R | null {
+  return (...args: A) => (isAllowed(args) ? action(...args) : null);
+}
 
 // Provider component
 export function ActivityProvider({ children }: { children: React.ReactNode }) {
   const [state, dispatch] = useReducer(activityReducer, initialState);
-  const { user } = useAuth();
+  const { user, idToken } = useAuth();
 
   // Sync Firebase UID from Hub auth
   useEffect(() => {
@@ -276,207 +527,367 @@ export function ActivityProvider({ children }: { children: React.ReactNode }) {
     }
   }, [user?.uid, state.currentUserId]);
 
-  // Load from local storage on mount
+  // Role granted by the Hub, which takes precedence over the role on the staff record
+  const claimedRole = useMemo(() => getClaimedRole(idToken), [idToken]);
+
+  // Keep a staff record for every Hub user who signs in. A team with no manager makes its
+  // first user admin, but only once the team's staff have been pulled, so a new browser
+  // doesn't mistake its empty list for an empty team.
+  const hasTeamStaff = !isSyncConfigured() || state.syncStatus === 'synced';
   useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        dispatch({ type: 'LOAD_STATE', payload: parsed });
-      } catch (e) {
-        console.error('Failed to load saved state:', e);
+    if (!user?.uid || state.isLoading) return;
+    const isFirstManager = hasTeamStaff && !hasActiveManager(state.staffMembers);
+    const existing = state.staffMembers.find((s) => s.id === user.uid);
+    if (!existing) {
+      dispatch({ type: 'ADD_STAFF', payload: createStaffFromAuthUser(user, claimedRole, isFirstManager) });
+      return;
+    }
+    const updates = getAuthProfileUpdates(existing, user, claimedRole, isFirstManager);
+    if (updates) {
+      dispatch({ type: 'UPDATE_STAFF', payload: { id: user.uid, updates } });
+    }
+  }, [user, claimedRole, hasTeamStaff, state.staffMembers, state.isLoading]);
+
+  // Last snapshot handed to storage, so saves only write what changed since
+  const savedDataRef = useRef<PersistedData | null>(null);
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Records and deletions that came from other people, or deletions from an import, so they
+  // aren't sent to Firestore
+  const remoteRecordsRef = useRef(new WeakSet<object>());
+  const remoteDeletionsRef = useRef(new Set<string>());
+  const syncedRecordsRef = useRef<SyncedRecords>({
+    activities: [],
+    checklistInstances: [],
+    staffMembers: [],
+    customActivityTypes: [],
+    procedureTemplates: [],
+    closureDays: [],
+  });
+  const syncRef = useRef<FirestoreSync | null>(null);
+  // Other open tabs: each broadcasts its changes, and only the leader writes to storage
+  const tabChannelRef = useRef<TabChannel | null>(null);
+  const isLeaderTabRef = useRef(false);
+  const [isLeaderTab, setIsLeaderTab] = useState(false);
+  const pendingTabChangesRef = useRef<StorageChanges[]>([]);
+  const syncStateRef = useRef<{ status: SyncStatus; conflicts: SyncConflict[] }>({ status: 'offline', conflicts: [] });
+  // Set while a backup restore replaces the saved data, until the tab reloads it
+  const isDataReplacingRef = useRef(false);
+
+  // Queue storage writes so they land in the order the changes were made
+  const persistChanges = useCallback((write: () => Promise<void>) => {
+    saveQueueRef.current = saveQueueRef.current
+      .then(() => (isDataReplacingRef.current ? undefined : write()))
+      .catch((e) => console.error('Failed to save state:', e));
+  }, []);
+
+  // Another tab's changes. They go into the saved snapshot as well as the state, with the
+  // same record objects, so the save effect doesn't treat them as new edits here.
+  const applyTabChanges = useCallback(
+    (changes: StorageChanges) => {
+      const saved = savedDataRef.current;
+      if (!saved) {
+        pendingTabChangesRef.current.push(changes);
+        return;
       }
+      savedDataRef.current = applyStorageChanges(saved, changes);
+      dispatch({ type: 'APPLY_TAB_CHANGES', payload: changes });
+      if (isLeaderTabRef.current) persistChanges(() => getStorage().write(changes));
+    },
+    [persistChanges]
+  );
+
+  // Save the chosen mix of both versions; it becomes a normal local edit that syncs as usual
+  const applyConflictResolution = useCallback((conflict: SyncConflict, useRemotePaths: string[]) => {
+    const resolved = resolveMergeConflicts(conflict.result, new Set(useRemotePaths));
+    syncRef.current?.resolveConflict(conflict.collection, conflict.id);
+    if (conflict.collection === 'activities') {
+      dispatch({ type: 'UPDATE_ACTIVITY', payload: { id: conflict.id, updates: resolved as AnyActivity } });
+    } else if (conflict.collection === 'checklistInstances') {
+      dispatch({ type: 'UPDATE_CHECKLIST', payload: resolved as ChecklistInstance });
+    } else {
+      // Replaces the record like a pulled change, but isn't marked remote, so it is sent back
+      dispatch({ type: 'APPLY_REMOTE_CHANGES', payload: { put: { [conflict.collection]: [resolved] }, delete: {} } });
     }
   }, []);
 
-  // Save to local storage on state change
+  // Connect to the other open tabs and wait to become the leader
+  useEffect(() => {
+    const channel = openTabChannel((message: TabMessage) => {
+      switch (message.type) {
+        case 'CHANGES':
+          applyTabChanges(message.changes);
+          break;
+        case 'SYNC_STATE':
+          if (!isLeaderTabRef.current) {
+            dispatch({ type: 'SET_SYNC_STATUS', payload: message.status });
+            dispatch({ type: 'SET_SYNC_CONFLICTS', payload: message.conflicts });
+          }
+          break;
+        case 'SYNC_STATE_REQUEST':
+          if (isLeaderTabRef.current) channel.post({ type: 'SYNC_STATE', ...syncStateRef.current });
+          break;
+        case 'RESOLVE_CONFLICT': {
+          if (!isLeaderTabRef.current) break;
+          const conflict = syncStateRef.current.conflicts.find(
+            (c) => c.collection === message.collection && c.id === message.id
+          );
+          if (conflict) applyConflictResolution(conflict, message.useRemotePaths);
+          break;
+        }
+        case 'DATA_REPLACING':
+          isDataReplacingRef.current = true;
+          break;
+        case 'RELOAD':
+          isDataReplacingRef.current = true;
+          window.location.reload();
+          break;
+      }
+    });
+    tabChannelRef.current = channel;
+    channel.post({ type: 'SYNC_STATE_REQUEST' });
+
+    const releaseLeadership = requestTabLeadership(() => {
+      isLeaderTabRef.current = true;
+      setIsLeaderTab(true);
+      // Save everything this tab knows, in case changes were broadcast while no tab was leader
+      const saved = savedDataRef.current;
+      if (saved) persistChanges(() => getStorage().replaceAll(saved));
+    });
+
+    return () => {
+      releaseLeadership();
+      isLeaderTabRef.current = false;
+      setIsLeaderTab(false);
+      channel.close();
+      tabChannelRef.current = null;
+    };
+  }, [applyTabChanges, applyConflictResolution, persistChanges]);
+
+  // Load from storage on mount
   useEffect(() => {
-    const toSave = {
+    let cancelled = false;
+    getStorage()
+      .load()
+      .then((loaded) => {
+        if (cancelled) return;
+        if (loaded) {
+          const { data, droppedRecords } = loaded;
+          dispatch({
+            type: 'LOAD_STATE',
+            payload: { ...data, procedureTemplates: [...defaultProcedures, ...data.procedureTemplates] },
+          });
+          if (droppedRecords.length > 0) dispatch({ type: 'SET_DROPPED_RECORDS', payload: droppedRecords });
+        }
+        savedDataRef.current = loaded?.data || createEmptyData();
+        // Changes other tabs made while this one was loading
+        pendingTabChangesRef.current.splice(0).forEach(applyTabChanges);
+      })
+      .catch((e) => {
+        console.error('Failed to load saved state:', e);
+        if (!cancelled) dispatch({ type: 'SET_STORAGE_ERROR', payload: e instanceof Error ? e.message : String(e) });
+      })
+      .finally(() => {
+        if (!cancelled) dispatch({ type: 'SET_LOADING', payload: false });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [applyTabChanges]);
+
+  // Share changed records with the other tabs and, in the leader tab, save them to storage.
+  // Nothing is written until the saved data has loaded, or if it failed to load, so an
+  // empty state never overwrites it.
+  useEffect(() => {
+    const previous = savedDataRef.current;
+    if (state.isLoading || !previous) return;
+
+    const next: PersistedData = {
       activities: state.activities,
       checklistInstances: state.checklistInstances,
       staffMembers: state.staffMembers,
       customActivityTypes: state.customActivityTypes,
+      closureDays: state.closureDays,
+      procedureTemplates: state.procedureTemplates.filter((t) => !isBuiltInTemplate(t.id)),
       currentUserId: state.currentUserId,
+      reminderStates: state.reminderStates,
+      userPreferences: state.userPreferences,
     };
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(toSave));
-  }, [state.activities, state.checklistInstances, state.staffMembers, state.customActivityTypes, state.currentUserId]);
+    const changes = getStorageChanges(previous, next);
+    savedDataRef.current = next;
+    if (!changes) return;
+
+    // Queue local edits for the team; remote ones are already there
+    for (const collection of SYNC_COLLECTIONS) {
+      const edited = (changes.put[collection] || []).filter((r) => !remoteRecordsRef.current.has(r)).map((r) => r.id);
+      const deleted = (changes.delete[collection] || []).filter((id) => !remoteDeletionsRef.current.delete(id));
+      queueSyncChanges(collection, [...edited, ...deleted], previous[collection]);
+    }
 
-  // Regenerate reminders when activities or checklists change
+    tabChannelRef.current?.post({ type: 'CHANGES', changes });
+    if (isLeaderTabRef.current) persistChanges(() => getStorage().write(changes));
+  }, [persistChanges, state.isLoading, state.activities, state.checklistInstances, state.staffMembers, state.customActivityTypes, state.closureDays, state.procedureTemplates, state.currentUserId, state.reminderStates, state.userPreferences]);
+
+  // Keep the sync session reading the latest records
+  useEffect(() => {
+    syncedRecordsRef.current = {
+      activities: state.activities,
+      checklistInstances: state.checklistInstances,
+      staffMembers: state.staffMembers,
+      customActivityTypes: state.customActivityTypes,
+      procedureTemplates: state.procedureTemplates.filter((t) => !isBuiltInTemplate(t.id)),
+      closureDays: state.closureDays,
+    };
+  }, [state.activities, state.checklistInstances, state.staffMembers, state.customActivityTypes, state.procedureTemplates, state.closureDays]);
+
+  // Sync the team's shared records while signed in through the Hub. Only the leader tab
+  // syncs; the others follow its status.
+  const hasIdToken = !!idToken;
+  const syncUserId = user?.uid;
+  useEffect(() => {
+    if (!isLeaderTab) return;
+    if (!syncUserId || !hasIdToken || state.isLoading || state.storageError || !isSyncConfigured()) {
+      dispatch({ type: 'SET_SYNC_STATUS', payload: 'offline' });
+      return;
+    }
+
+    const sync: FirestoreSync = createFirestoreSync({
+      userId: syncUserId,
+      getRecords: () => syncedRecordsRef.current,
+      onRemoteChanges: (changes) => {
+        Object.values(changes.put).forEach((records) => records.forEach((r) => remoteRecordsRef.current.add(r)));
+        Object.values(changes.delete).forEach((ids) => ids.forEach((id) => remoteDeletionsRef.current.add(id)));
+        dispatch({ type: 'APPLY_REMOTE_CHANGES', payload: changes });
+      },
+      onStatusChange: (status) => dispatch({ type: 'SET_SYNC_STATUS', payload: status }),
+      onConflicts: (conflicts) => dispatch({ type: 'SET_SYNC_CONFLICTS', payload: conflicts }),
+    });
+    syncRef.current = sync;
+    sync.start();
+    return () => {
+      sync.stop();
+      syncRef.current = null;
+      dispatch({ type: 'SET_SYNC_CONFLICTS', payload: [] });
+    };
+  }, [isLeaderTab, syncUserId, hasIdToken, state.isLoading, state.storageError]);
+
+  // Share the leader's sync status and conflicts with the other tabs
+  useEffect(() => {
+    if (!isLeaderTab) return;
+    syncStateRef.current = { status: state.syncStatus, conflicts: state.syncConflicts };
+    tabChannelRef.current?.post({ type: 'SYNC_STATE', ...syncStateRef.current });
+  }, [isLeaderTab, state.syncStatus, state.syncConflicts]);
+
+  // Conflicts are resolved by the leader tab, which runs the sync
+  const resolveSyncConflict = useCallback(
+    (conflict: SyncConflict, useRemotePaths: string[]) => {
+      if (isLeaderTabRef.current) {
+        applyConflictResolution(conflict, useRemotePaths);
+      } else {
+        const { collection, id } = conflict;
+        tabChannelRef.current?.post({ type: 'RESOLVE_CONFLICT', collection, id, useRemotePaths });
+      }
+    },
+    [applyConflictResolution]
+  );
+
+  // Current user's preferences, falling back to defaults
+  const userKey = state.currentUserId || LOCAL_USER_KEY;
+  const userPreferences = useMemo(
+    () => state.userPreferences[userKey] || getDefaultUserPreferences(userKey),
+    [state.userPreferences, userKey]
+  );
+
+  // Office holidays on the user's calendars plus closure days, for due dates and date warnings
+  const getHoliday = useMemo(
+    () => createHolidayLookup(userPreferences.holidayCalendarIds, state.closureDays),
+    [userPreferences.holidayCalendarIds, state.closureDays]
+  );
+
+  // Track the date so reminders scheduled for a new day appear while the app stays open
+  const [today, setToday] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  useEffect(() => {
+    const timer = setInterval(() => setToday(format(new Date(), 'yyyy-MM-dd')), DATE_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Re-check dependency blocking and overdue counts once the data loads and as days pass, since
+  // predecessors go overdue without anyone editing the checklist. The leader tab shares the result.
+  useEffect(() => {
+    if (state.isLoading || !isLeaderTab) return;
+    dispatch({ type: 'REFRESH_CHECKLISTS' });
+  }, [state.isLoading, isLeaderTab, today]);
+
+  // Regenerate reminders when activities, checklists, reminder preferences or the date change
   useEffect(() => {
     const allReminders: Reminder[] = [];
-    for (const checklist of state.checklistInstances) {
-      const activity = state.activities.find((a) => a.id === checklist.activityId);
-      if (activity && activity.status !== 'completed' && activity.status !== 'cancelled') {
-        const activityReminders = generateReminders(checklist, activity);
-        allReminders.push(...activityReminders);
+    for (const activity of state.activities) {
+      if (activity.isArchived || activity.status === 'completed' || activity.status === 'cancelled') continue;
+      const checklist = state.checklistInstances.find((c) => c.activityId === activity.id);
+      if (checklist) {
+        allReminders.push(...generateReminders(checklist, activity));
       }
+      allReminders.push(...generateActivityReminders(activity, userPreferences.reminderDaysBefore));
+      allReminders.push(...generateCustomReminders(activity, checklist));
     }
     dispatch({ type: 'SET_REMINDERS', payload: allReminders });
-  }, [state.activities, state.checklistInstances]);
+  }, [state.activities, state.checklistInstances, userPreferences.reminderDaysBefore, today]);
+
+  // Generate a checklist for an activity and link it
+  const addChecklistForActivity = useCallback((activity: AnyActivity, template: ProcedureTemplate) => {
+    const checklist = generateChecklistFromTemplate(activity, template, getHoliday);
+    dispatch({ type: 'ADD_CHECKLIST', payload: checklist });
+    dispatch({
+      type: 'UPDATE_ACTIVITY',
+      payload: {
+        id: activity.id,
+        updates: {
+          procedureTemplateId: template.id,
+          checklistInstanceId: checklist.id,
+        },
+      },
+    });
+  }, [getHoliday]);
 
   // Create trade activity
   const createTradeActivity = useCallback(
     (data: Partial<TradeActivity>): TradeActivity => {
-      const now = new Date().toISOString();
-      const activityType = data.activityType || 'trade_show';
-      const activity: TradeActivity = {
-        id: uuidv4(),
-        activityType,
-        type: 'trade_assistance', // Legacy compatibility
-        name: data.name || 'New Trade Activity',
-        description: data.description || '',
-        status: data.status || 'draft',
-        startDate: data.startDate || '',
-        endDate: data.endDate || data.startDate || '',
-        location: data.location || '',
-        locationType: data.locationType || 'international',
-        country: data.country,
-        locations: data.locations || [],
-        leadStaffId: data.leadStaffId || state.currentUserId || '',
-        teamMemberIds: data.teamMemberIds || [],
-        procedureTemplateId: data.procedureTemplateId || '',
-        fiscalYear: data.fiscalYear || getFiscalYear(),
-        tags: data.tags || [],
-        notes: data.notes || '',
-        targetMarket: data.targetMarket || '',
-        commodities: data.commodities || [],
-        suppliers: data.suppliers || [],
-        buyers: data.buyers || [],
-        createdAt: now,
-        updatedAt: now,
-      };
+      const activity = createTradeActivityRecord(data, state.currentUserId || '');
 
       dispatch({ type: 'ADD_ACTIVITY', payload: activity });
 
       // Generate checklist if procedure template is set
-      const procedureEventType = activityType === 'outbound_trade_mission' ? 'trade_mission'
-        : activityType === 'inbound_trade_mission' ? 'reverse_mission'
-        : activityType;
-
-      if (activity.procedureTemplateId || procedureEventType) {
-        const template =
-          state.procedureTemplates.find((t) => t.id === activity.procedureTemplateId) ||
-          getProcedureForActivity('trade_assistance', procedureEventType);
-
-        if (template && activity.startDate) {
-          const checklist = generateChecklistFromTemplate(activity, template);
-          dispatch({ type: 'ADD_CHECKLIST', payload: checklist });
-          dispatch({
-            type: 'UPDATE_ACTIVITY',
-            payload: {
-              id: activity.id,
-              updates: {
-                procedureTemplateId: template.id,
-                checklistInstanceId: checklist.id,
-              },
-            },
-          });
-        }
+      const template = findProcedureTemplate(activity, state.procedureTemplates, state.customActivityTypes);
+      if (template && activity.startDate) {
+        addChecklistForActivity(activity, template);
       }
 
       return activity;
     },
-    [state.currentUserId, state.procedureTemplates]
+    [state.currentUserId, state.procedureTemplates, state.customActivityTypes, addChecklistForActivity]
   );
 
   // Create educational activity
   const createEducationalActivity = useCallback(
     (data: Partial<EducationalActivity>): EducationalActivity => {
-      const now = new Date().toISOString();
-      const activityType = data.activityType || 'webinar';
-      const activity: EducationalActivity = {
-        id: uuidv4(),
-        activityType,
-        type: 'educational', // Legacy compatibility
-        name: data.name || 'New Educational Activity',
-        description: data.description || '',
-        status: data.status || 'draft',
-        startDate: data.startDate || '',
-        endDate: data.endDate || data.startDate || '',
-        location: data.location || '',
-        locationType: data.locationType || 'virtual',
-        locations: data.locations || [],
-        leadStaffId: data.leadStaffId || state.currentUserId || '',
-        teamMemberIds: data.teamMemberIds || [],
-        procedureTemplateId: data.procedureTemplateId || '',
-        fiscalYear: data.fiscalYear || getFiscalYear(),
-        tags: data.tags || [],
-        notes: data.notes || '',
-        topic: data.topic || '',
-        targetAudience: data.targetAudience || [],
-        presenters: data.presenters || [],
-        materials: data.materials || [],
-        registrationRequired: data.registrationRequired ?? true,
-        seriesInfo: data.seriesInfo,
-        format: activityType as any, // Legacy compatibility
-        createdAt: now,
-        updatedAt: now,
-      };
+      const activity = createEducationalActivityRecord(data, state.currentUserId || '');
 
       dispatch({ type: 'ADD_ACTIVITY', payload: activity });
 
       // Generate checklist if procedure template is set
-      const procedureFormat = activityType === 'seminar_series' ? 'seminar' : activityType;
-      if (activity.procedureTemplateId || procedureFormat) {
-        const template =
-          state.procedureTemplates.find((t) => t.id === activity.procedureTemplateId) ||
-          getProcedureForActivity('educational', procedureFormat);
-
-        if (template && activity.startDate) {
-          const checklist = generateChecklistFromTemplate(activity, template);
-          dispatch({ type: 'ADD_CHECKLIST', payload: checklist });
-          dispatch({
-            type: 'UPDATE_ACTIVITY',
-            payload: {
-              id: activity.id,
-              updates: {
-                procedureTemplateId: template.id,
-                checklistInstanceId: checklist.id,
-              },
-            },
-          });
-        }
+      const template = findProcedureTemplate(activity, state.procedureTemplates, state.customActivityTypes);
+      if (template && activity.startDate) {
+        addChecklistForActivity(activity, template);
       }
 
       return activity;
     },
-    [state.currentUserId, state.procedureTemplates]
+    [state.currentUserId, state.procedureTemplates, state.customActivityTypes, addChecklistForActivity]
   );
 
   // Create consultation activity
   const createConsultationActivity = useCallback(
     (data: Partial<ConsultationActivity>): ConsultationActivity => {
-      const now = new Date().toISOString();
-      const activity: ConsultationActivity = {
-        id: uuidv4(),
-        activityType: data.activityType || 'consultation',
-        name: data.name || 'New Consultation',
-        description: data.description || '',
-        status: data.status || 'draft',
-        startDate: data.startDate || '',
-        endDate: data.endDate || data.startDate || '',
-        location: data.location || '',
-        locationType: data.locationType || 'virtual',
-        locations: data.locations || [],
-        leadStaffId: data.leadStaffId || state.currentUserId || '',
-        teamMemberIds: data.teamMemberIds || [],
-        procedureTemplateId: data.procedureTemplateId || '',
-        fiscalYear: data.fiscalYear || getFiscalYear(),
-        tags: data.tags || [],
-        notes: data.notes || '',
-        consultationType: data.consultationType || 'one_on_one',
-        clientName: data.clientName,
-        clientOrganization: data.clientOrganization,
-        clientEmail: data.clientEmail,
-        clientPhone: data.clientPhone,
-        topics: data.topics || [],
-        outcomes: data.outcomes,
-        followUpRequired: data.followUpRequired,
-        followUpDate: data.followUpDate,
-        duration: data.duration,
-        createdAt: now,
-        updatedAt: now,
-      };
+      const activity = createConsultationActivityRecord(data, state.currentUserId || '');
 
       dispatch({ type: 'ADD_ACTIVITY', payload: activity });
       return activity;
@@ -497,27 +908,7 @@ export function ActivityProvider({ children }: { children: React.ReactNode }) {
         return createConsultationActivity({ ...data, activityType } as Partial<ConsultationActivity>);
       } else {
         // Generic activity for custom types
-        const now = new Date().toISOString();
-        const activity: AnyActivity = {
-          id: uuidv4(),
-          activityType,
-          name: data.name || 'New Activity',
-          description: data.description || '',
-          status: data.status || 'draft',
-          startDate: data.startDate || '',
-          endDate: data.endDate || data.startDate || '',
-          location: data.location || '',
-          locationType: data.locationType || 'domestic',
-          locations: data.locations || [],
-          leadStaffId: data.leadStaffId || state.currentUserId || '',
-          teamMemberIds: data.teamMemberIds || [],
-          procedureTemplateId: data.procedureTemplateId || '',
-          fiscalYear: data.fiscalYear || getFiscalYear(),
-          tags: data.tags || [],
-          notes: data.notes || '',
-          createdAt: now,
-          updatedAt: now,
-        };
+        const activity = createGenericActivityRecord(activityType, data, state.currentUserId || '');
         dispatch({ type: 'ADD_ACTIVITY', payload: activity });
         return activity;
       }
@@ -526,9 +917,28 @@ export function ActivityProvider({ children }: { children: React.ReactNode }) {
   );
 
   // Update activity
-  const updateActivity = useCallback((id: string, updates: Partial<AnyActivity>) => {
-    dispatch({ type: 'UPDATE_ACTIVITY', payload: { id, updates } });
-  }, []);
+  const updateActivity = useCallback(
+    (id: string, updates: Partial<AnyActivity>) => {
+      dispatch({ type: 'UPDATE_ACTIVITY', payload: { id, updates } });
+
+      // Generate the checklist once an activity gets its first start date
+      if (
+        updates.startDate &&
+        isCompleteDate(updates.startDate) &&
+        !state.checklistInstances.some((c) => c.activityId === id)
+      ) {
+        const activity = state.activities.find((a) => a.id === id);
+        if (!activity) return;
+
+        const updated = { ...activity, ...updates } as AnyActivity;
+        const template = findProcedureTemplate(updated, state.procedureTemplates, state.customActivityTypes);
+        if (template) {
+          addChecklistForActivity(updated, template);
+        }
+      }
+    },
+    [state.activities, state.checklistInstances, state.procedureTemplates, state.customActivityTypes, addChecklistForActivity]
+  );
 
   // Delete activity
   const deleteActivity = useCallback(
@@ -557,6 +967,8 @@ export function ActivityProvider({ children }: { children: React.ReactNode }) {
           status: 'draft',
           startDate: '',
           endDate: '',
+          customReminders: [],
+          externalUid: undefined,
         } as Partial<TradeActivity>);
       } else if (category === 'consultation') {
         return createConsultationActivity({
@@ -565,6 +977,8 @@ export function ActivityProvider({ children }: { children: React.ReactNode }) {
           status: 'draft',
           startDate: '',
           endDate: '',
+          customReminders: [],
+          externalUid: undefined,
         } as Partial<ConsultationActivity>);
       } else {
         return createEducationalActivity({
@@ -573,6 +987,8 @@ export function ActivityProvider({ children }: { children: React.ReactNode }) {
           status: 'draft',
           startDate: '',
           endDate: '',
+          customReminders: [],
+          externalUid: undefined,
         } as Partial<EducationalActivity>);
       }
     },
@@ -629,6 +1045,17 @@ export function ActivityProvider({ children }: { children: React.ReactNode }) {
     dispatch({ type: 'DELETE_CUSTOM_TYPE', payload: id });
   }, []);
 
+  // Office Closure Days
+  const addClosureDay = useCallback((data: Omit<ClosureDay, 'id' | 'createdAt'>): ClosureDay => {
+    const closure: ClosureDay = { ...data, id: uuidv4(), createdAt: new Date().toISOString() };
+    dispatch({ type: 'ADD_CLOSURE_DAY', payload: closure });
+    return closure;
+  }, []);
+
+  const deleteClosureDay = useCallback((id: string) => {
+    dispatch({ type: 'DELETE_CLOSURE_DAY', payload: id });
+  }, []);
+
   const getActivityTypeInfoFn = useCallback(
     (activityType: ActivityType) => {
       return getActivityTypeInfo(activityType, state.customActivityTypes);
@@ -652,6 +1079,59 @@ export function ActivityProvider({ children }: { children: React.ReactNode }) {
     return [...builtInTypes, ...customTypes];
   }, [state.customActivityTypes]);
 
+  // Procedure Template Management
+  const createProcedureTemplate = useCallback(
+    (data: Partial<ProcedureTemplate>): ProcedureTemplate => {
+      if (data.phases) assertAcyclicDependencies(data.phases);
+
+      const now = new Date().toISOString();
+      const template: ProcedureTemplate = {
+        id: uuidv4(),
+        name: data.name || 'New Procedure',
+        description: data.description || '',
+        activityType: data.activityType || 'trade_assistance',
+        eventType: data.eventType,
+        version: data.version || '1.0',
+        isActive: data.isActive ?? true,
+        phases: data.phases || [],
+        createdAt: now,
+        updatedAt: now,
+      };
+      dispatch({ type: 'ADD_TEMPLATE', payload: template });
+      return template;
+    },
+    []
+  );
+
+  const cloneProcedureTemplate = useCallback(
+    (id: string): ProcedureTemplate | null => {
+      const source = state.procedureTemplates.find((t) => t.id === id);
+      if (!source) return null;
+
+      const template = cloneTemplate(source);
+      dispatch({ type: 'ADD_TEMPLATE', payload: template });
+      return template;
+    },
+    [state.procedureTemplates]
+  );
+
+  const updateProcedureTemplate = useCallback(
+    (id: string, updates: Partial<ProcedureTemplate>) => {
+      if (isBuiltInTemplate(id)) return;
+      const existing = state.procedureTemplates.find((t) => t.id === id);
+      if (!existing) return;
+      if (updates.phases) assertAcyclicDependencies(updates.phases);
+
+      dispatch({ type: 'UPDATE_TEMPLATE', payload: { id, updates: createTemplateRevision(existing, updates) } });
+    },
+    [state.procedureTemplates]
+  );
+
+  const deleteProcedureTemplate = useCallback((id: string) => {
+    if (isBuiltInTemplate(id)) return;
+    dispatch({ type: 'DELETE_TEMPLATE', payload: id });
+  }, []);
+
   // Select activity
   const selectActivity = useCallback((id: string | null) => {
     dispatch({ type: 'SET_ACTIVE_ACTIVITY', payload: id });
@@ -756,9 +1236,11 @@ export function ActivityProvider({ children }: { children: React.ReactNode }) {
       const checklist = state.checklistInstances.find((c) => c.id === checklistId);
       if (!checklist) return;
 
-      const updatedItems = checklist.items.map((item) =>
-        item.id === itemId ? { ...item, ...updates } : item
-      );
+      // Items that require sign-off can only be completed through approval
+      const item = checklist.items.find((i) => i.id === itemId);
+      if (item && updates.status === 'completed' && isAwaitingApproval({ ...item, ...updates })) return;
+
+      const updatedItems = checklist.items.map((item) => (item.id === itemId ? applyItemUpdates(item, updates) : item));
 
       const updatedChecklist = updateChecklistCounts({
         ...checklist,
@@ -770,6 +1252,192 @@ export function ActivityProvider({ children }: { children: React.ReactNode }) {
     [state.checklistInstances]
   );
 
+  // Permissions
+  const currentRole = useMemo((): StaffRole => {
+    if (!user) return LOCAL_USER_ROLE;
+    // Hub users without an active staff record are read-only
+    const staff = state.staffMembers.find((s) => s.id === user.uid);
+    if (!staff?.isActive) return 'viewer';
+    return claimedRole ?? staff.role;
+  }, [state.staffMembers, user, claimedRole]);
+
+  const can = useCallback(
+    (permission: Permission, activity?: AnyActivity) =>
+      hasPermission(currentRole, state.currentUserId, permission, activity),
+    [currentRole, state.currentUserId]
+  );
+
+  // Check a permission, surfacing a message when the action is denied
+  const guard = useCallback(
+    (permission: Permission, activity?: AnyActivity) => {
+      if (can(permission, activity)) return true;
+      dispatch({ type: 'SET_PERMISSION_DENIED', payload: getPermissionDeniedMessage(permission) });
+      return false;
+    },
+    [can]
+  );
+
+  const clearPermissionDenied = useCallback(() => {
+    dispatch({ type: 'SET_PERMISSION_DENIED', payload: null });
+  }, []);
+
+  const dismissDroppedRecords = useCallback(() => {
+    dispatch({ type: 'SET_DROPPED_RECORDS', payload: [] });
+  }, []);
+
+  // Approvers also need a role senior enough for the task
+  const canReviewItem = useCallback(
+    (item: ChecklistItem) => can('task:approve') && canApproveItem(currentRole, item),
+    [can, currentRole]
+  );
+
+  // Approvals
+  const submitForApproval = useCallback(
+    (checklistId: string, itemId: string) => {
+      updateChecklistItem(checklistId, itemId, {
+        approvalStatus: 'pending',
+        approvalRequestedById: state.currentUserId || undefined,
+        approvalRequestedAt: new Date().toISOString(),
+        approvedById: undefined,
+        approvedAt: undefined,
+      });
+    },
+    [updateChecklistItem, state.currentUserId]
+  );
+
+  const reviewChecklistItem = useCallback(
+    (checklistId: string, itemId: string, decision: 'approved' | 'rejected', comment: string) => {
+      if (!comment.trim()) {
+        throw new Error('A comment is required to approve or reject a task');
+      }
+      const checklist = state.checklistInstances.find((c) => c.id === checklistId);
+      const item = checklist?.items.find((i) => i.id === itemId);
+      if (!item || item.approvalStatus !== 'pending') return;
+
+      if (!canReviewItem(item)) {
+        throw new Error('You do not have permission to review this task');
+      }
+
+      const now = new Date().toISOString();
+      const note = {
+        id: uuidv4(),
+        content: `${decision === 'approved' ? 'Approved' : 'Rejected'}: ${comment.trim()}`,
+        authorId: state.currentUserId || '',
+        createdAt: now,
+      };
+
+      updateChecklistItem(
+        checklistId,
+        itemId,
+        decision === 'approved'
+          ? {
+              approvalStatus: 'approved',
+              approvedById: state.currentUserId || undefined,
+              approvedAt: now,
+              status: 'completed',
+              completedAt: now,
+              completedById: item.approvalRequestedById,
+              notes: [...item.notes, note],
+            }
+          : {
+              approvalStatus: 'rejected',
+              status: 'in_progress',
+              notes: [...item.notes, note],
+            }
+      );
+    },
+    [updateChecklistItem, state.checklistInstances, state.currentUserId, canReviewItem]
+  );
+
+  const approveChecklistItem = useCallback(
+    (checklistId: string, itemId: string, comment: string) => {
+      reviewChecklistItem(checklistId, itemId, 'approved', comment);
+    },
+    [reviewChecklistItem]
+  );
+
+  const rejectChecklistItem = useCallback(
+    (checklistId: string, itemId: string, comment: string) => {
+      reviewChecklistItem(checklistId, itemId, 'rejected', comment);
+    },
+    [reviewChecklistItem]
+  );
+
+  // Pending approvals the current user is allowed to review
+  const pendingApprovals = useMemo(() => {
+    return getPendingApprovals(state.checklistInstances, state.activities).filter(({ item }) => canReviewItem(item));
+  }, [state.checklistInstances, state.activities, canReviewItem]);
+
+  // Move checklist due dates after an activity date change
+  const rebaselineChecklist = useCallback(
+    (checklistId: string, shifts: ChecklistDateShift[]) => {
+      const checklist = state.checklistInstances.find((c) => c.id === checklistId);
+      if (!checklist || shifts.length === 0) return;
+
+      dispatch({ type: 'UPDATE_CHECKLIST', payload: updateChecklistCounts(applyChecklistDateShifts(checklist, shifts)) });
+    },
+    [state.checklistInstances]
+  );
+
+  // Move an activity to new dates along with the accepted checklist due date shifts
+  const rescheduleActivity = useCallback(
+    (activityId: string, dates: ActivityDates, shifts: ChecklistDateShift[]): RescheduleUndo | null => {
+      const activity = state.activities.find((a) => a.id === activityId);
+      if (!activity) return null;
+      const checklist = state.checklistInstances.find((c) => c.activityId === activityId);
+
+      dispatch({
+        type: 'UPDATE_ACTIVITY',
+        payload: { id: activityId, updates: getRescheduleUpdates(activity, dates) },
+      });
+      if (checklist && shifts.length > 0) {
+        dispatch({ type: 'UPDATE_CHECKLIST', payload: updateChecklistCounts(applyChecklistDateShifts(checklist, shifts)) });
+      }
+
+      return {
+        activityId,
+        previous: {
+          startDate: activity.startDate,
+          endDate: activity.endDate,
+          fiscalYear: activity.fiscalYear,
+          locations: activity.locations,
+        },
+        checklistId: checklist?.id,
+        previousItemDates: checklist && shifts.length > 0 ? getShiftedItemDates(checklist, shifts) : [],
+      };
+    },
+    [state.activities, state.checklistInstances]
+  );
+
+  const undoReschedule = useCallback(
+    (undo: RescheduleUndo) => {
+      dispatch({ type: 'UPDATE_ACTIVITY', payload: { id: undo.activityId, updates: undo.previous } });
+      const checklist = state.checklistInstances.find((c) => c.id === undo.checklistId);
+      if (checklist && undo.previousItemDates.length > 0) {
+        dispatch({
+          type: 'UPDATE_CHECKLIST',
+          payload: updateChecklistCounts(restoreItemDates(checklist, undo.previousItemDates)),
+        });
+      }
+    },
+    [state.checklistInstances]
+  );
+
+  // Upgrade a checklist to the latest version of its template, keeping item progress
+  const upgradeChecklistToLatestTemplate = useCallback(
+    (checklistId: string) => {
+      const checklist = state.checklistInstances.find((c) => c.id === checklistId);
+      if (!checklist) return;
+      const activity = state.activities.find((a) => a.id === checklist.activityId);
+      const template = state.procedureTemplates.find((t) => t.id === checklist.procedureTemplateId);
+      if (!activity || !template) return;
+
+      const diff = diffChecklistWithTemplate(checklist, template);
+      dispatch({ type: 'UPDATE_CHECKLIST', payload: applyTemplateDiff(checklist, activity, template, diff, getHoliday) });
+    },
+    [state.checklistInstances, state.activities, state.procedureTemplates, getHoliday]
+  );
+
   // Reminders
   const dismissReminder = useCallback((id: string) => {
     dispatch({ type: 'DISMISS_REMINDER', payload: id });
@@ -779,9 +1447,64 @@ export function ActivityProvider({ children }: { children: React.ReactNode }) {
     dispatch({ type: 'MARK_REMINDER_READ', payload: id });
   }, []);
 
+  const snoozeReminder = useCallback(
+    (id: string, option: ReminderSnoozeOption) => {
+      const reminder = state.reminders.find((r) => r.id === id);
+      const checklist = state.checklistInstances.find((c) => c.activityId === reminder?.activityId);
+      const item = checklist?.items.find((i) => i.id === reminder?.checklistItemId);
+      dispatch({ type: 'SNOOZE_REMINDER', payload: { id, until: getSnoozeUntil(option, item?.dueDate) } });
+    },
+    [state.reminders, state.checklistInstances]
+  );
+
+  // The current user's reminders, with their read/dismissed/snooze state applied
+  const reminders = useMemo(
+    () =>
+      applyReminderStates(
+        state.reminders.filter((r) => isReminderForUser(r, state.currentUserId)),
+        state.reminderStates[userKey]
+      ),
+    [state.reminders, state.reminderStates, state.currentUserId, userKey]
+  );
+
   const unreadReminderCount = useMemo(() => {
-    return state.reminders.filter((r) => !r.isRead && !r.isDismissed).length;
-  }, [state.reminders]);
+    return reminders.filter((r) => !r.isRead && isReminderActive(r)).length;
+  }, [reminders]);
+
+  const addCustomReminder = useCallback(
+    (activityId: string, data: Omit<CustomReminder, 'id' | 'createdAt' | 'createdById'>) => {
+      const activity = state.activities.find((a) => a.id === activityId);
+      if (!activity) return;
+
+      const reminder: CustomReminder = {
+        ...data,
+        id: uuidv4(),
+        createdById: state.currentUserId || undefined,
+        createdAt: new Date().toISOString(),
+      };
+      updateActivity(activityId, { customReminders: [...(activity.customReminders || []), reminder] });
+    },
+    [state.activities, state.currentUserId, updateActivity]
+  );
+
+  const deleteCustomReminder = useCallback(
+    (activityId: string, reminderId: string) => {
+      const activity = state.activities.find((a) => a.id === activityId);
+      if (!activity) return;
+      updateActivity(activityId, {
+        customReminders: (activity.customReminders || []).filter((r) => r.id !== reminderId),
+      });
+    },
+    [state.activities, updateActivity]
+  );
+
+  // User Preferences
+  const updateUserPreferences = useCallback(
+    (updates: Partial<Omit<UserPreferences, 'userId'>>) => {
+      dispatch({ type: 'SET_USER_PREFERENCES', payload: { ...userPreferences, ...updates } });
+    },
+    [userPreferences]
+  );
 
   // Staff
   const getStaffMember = useCallback(
@@ -791,6 +1514,25 @@ export function ActivityProvider({ children }: { children: React.ReactNode }) {
     [state.staffMembers]
   );
 
+  const addStaffMember = useCallback((data: Omit<StaffMember, 'id'>): StaffMember => {
+    const staff: StaffMember = { ...data, id: uuidv4() };
+    dispatch({ type: 'ADD_STAFF', payload: staff });
+    return staff;
+  }, []);
+
+  const updateStaffMember = useCallback((id: string, updates: Partial<StaffMember>) => {
+    dispatch({ type: 'UPDATE_STAFF', payload: { id, updates } });
+  }, []);
+
+  // Staff who are still referenced should be deactivated instead
+  const deleteStaffMember = useCallback(
+    (id: string) => {
+      if (getStaffUsageCount(id, state.activities, state.checklistInstances) > 0) return;
+      dispatch({ type: 'DELETE_STAFF', payload: id });
+    },
+    [state.activities, state.checklistInstances]
+  );
+
   // Export/Import
   const exportToJSON = useCallback(() => {
     return JSON.stringify({
@@ -798,27 +1540,46 @@ export function ActivityProvider({ children }: { children: React.ReactNode }) {
       checklistInstances: state.checklistInstances,
       staffMembers: state.staffMembers,
       customActivityTypes: state.customActivityTypes,
+      closureDays: state.closureDays,
+      procedureTemplates: state.procedureTemplates.filter((t) => !isBuiltInTemplate(t.id)),
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       exportedAt: new Date().toISOString(),
     });
-  }, [state.activities, state.checklistInstances, state.staffMembers, state.customActivityTypes]);
+  }, [state.activities, state.checklistInstances, state.staffMembers, state.customActivityTypes, state.closureDays, state.procedureTemplates]);
 
+  // Throws with a description of the problems if the file can't be imported. Checks its own
+  // permission, as it marks deletions in refs that withPermission's wrapper can't touch.
   const importFromJSON = useCallback((json: string) => {
+    if (!guard('data:import')) return;
+    let parsed: unknown;
     try {
-      const data = JSON.parse(json);
-      dispatch({
-        type: 'LOAD_STATE',
-        payload: {
-          activities: data.activities || [],
-          checklistInstances: data.checklistInstances || [],
-          staffMembers: data.staffMembers || [],
-          customActivityTypes: data.customActivityTypes || [],
-        },
-      });
+      parsed = JSON.parse(json);
     } catch (e) {
       console.error('Failed to import JSON:', e);
       throw new Error('Invalid JSON format');
     }
-  }, []);
+
+    const { data } = migratePersistedData(parsed);
+    // Only the file's records are sent to the team. Shared records it leaves out are removed
+    // here but kept in Firestore, so an old or partial file can't delete the team's data.
+    for (const collection of SYNC_COLLECTIONS) {
+      const importedIds = new Set(((data[collection] || []) as Array<{ id: string }>).map((r) => r.id));
+      syncedRecordsRef.current[collection]
+        .filter((r) => !importedIds.has(r.id))
+        .forEach((r) => remoteDeletionsRef.current.add(r.id));
+    }
+    dispatch({
+      type: 'LOAD_STATE',
+      payload: {
+        activities: data.activities || [],
+        checklistInstances: data.checklistInstances || [],
+        staffMembers: data.staffMembers || [],
+        customActivityTypes: data.customActivityTypes || [],
+        closureDays: data.closureDays || [],
+        procedureTemplates: [...defaultProcedures, ...(data.procedureTemplates || [])],
+      },
+    });
+  }, [guard]);
 
   // Load sample data for testing
   const loadSampleData = useCallback(() => {
@@ -994,7 +1755,6 @@ export function ActivityProvider({ children }: { children: React.ReactNode }) {
         fiscalYear: getFiscalYear(),
         tags: ['export', 'compliance'],
         notes: '',
-        format: 'seminar',
         topic: 'Export Documentation',
         targetAudience: ['New Exporters', 'Small Businesses'],
         presenters: [],
@@ -1024,7 +1784,6 @@ export function ActivityProvider({ children }: { children: React.ReactNode }) {
         fiscalYear: getFiscalYear(),
         tags: ['japan', 'webinar'],
         notes: '',
-        format: 'webinar',
         topic: 'Japan Market Entry',
         targetAudience: ['Food Exporters', 'Wineries'],
         presenters: [],
@@ -1051,7 +1810,6 @@ export function ActivityProvider({ children }: { children: React.ReactNode }) {
         fiscalYear: getFiscalYear(),
         tags: ['organic', 'certification'],
         notes: '',
-        format: 'seminar',
         topic: 'Organic Certification',
         targetAudience: ['Farmers', 'Processors'],
         presenters: [],
@@ -1078,7 +1836,6 @@ export function ActivityProvider({ children }: { children: React.ReactNode }) {
         fiscalYear: getFiscalYear(),
         tags: ['china', 'e-commerce'],
         notes: '',
-        format: 'webinar',
         topic: 'China E-commerce',
         targetAudience: ['Food Manufacturers', 'Exporters'],
         presenters: [],
@@ -1106,7 +1863,6 @@ export function ActivityProvider({ children }: { children: React.ReactNode }) {
         fiscalYear: getFiscalYear(),
         tags: ['export readiness', 'series'],
         notes: '',
-        format: 'seminar',
         topic: 'Export Readiness',
         targetAudience: ['New Exporters', 'Small Businesses'],
         presenters: [],
@@ -1159,6 +1915,12 @@ export function ActivityProvider({ children }: { children: React.ReactNode }) {
     return state.activities.find((a) => a.id === state.activeActivityId) || null;
   }, [state.activities, state.activeActivityId]);
 
+  const findActivity = (id: string) => state.activities.find((a) => a.id === id);
+  const findChecklistActivity = (checklistId: string) => {
+    const checklist = state.checklistInstances.find((c) => c.id === checklistId);
+    return checklist ? findActivity(checklist.activityId) : undefined;
+  };
+
   const value: ActivityContextType = {
     // State
     activities: state.activities,
@@ -1168,22 +1930,38 @@ export function ActivityProvider({ children }: { children: React.ReactNode }) {
     procedureTemplates: state.procedureTemplates,
     staffMembers: state.staffMembers,
     customActivityTypes: state.customActivityTypes,
+    closureDays: state.closureDays,
+    getHoliday,
     currentUserId: state.currentUserId,
     filters: state.filters,
-    reminders: state.reminders,
+    reminders,
     isLoading: state.isLoading,
     syncStatus: state.syncStatus,
+    isLeaderTab,
+
+    // Permissions
+    currentRole,
+    can,
+    permissionDeniedMessage: state.permissionDeniedMessage,
+    clearPermissionDenied,
+    storageError: state.storageError,
+    droppedRecords: state.droppedRecords,
+    dismissDroppedRecords,
+
+    // Sync
+    syncConflicts: state.syncConflicts,
+    resolveSyncConflict,
 
     // Activity CRUD
-    createActivity,
-    createTradeActivity,
-    createEducationalActivity,
-    createConsultationActivity,
-    updateActivity,
-    deleteActivity,
-    duplicateActivity,
-    archiveActivity,
-    unarchiveActivity,
+    createActivity: withPermission(() => guard('activity:create'), createActivity),
+    createTradeActivity: withPermission(() => guard('activity:create'), createTradeActivity),
+    createEducationalActivity: withPermission(() => guard('activity:create'), createEducationalActivity),
+    createConsultationActivity: withPermission(() => guard('activity:create'), createConsultationActivity),
+    updateActivity: withPermission(([id]) => guard('activity:edit', findActivity(id)), updateActivity),
+    deleteActivity: withPermission(() => guard('activity:delete'), deleteActivity),
+    duplicateActivity: withPermission(() => guard('activity:create'), duplicateActivity),
+    archiveActivity: withPermission(() => guard('activity:delete'), archiveActivity),
+    unarchiveActivity: withPermission(() => guard('activity:delete'), unarchiveActivity),
 
     // Selection
     selectActivity,
@@ -1195,28 +1973,82 @@ export function ActivityProvider({ children }: { children: React.ReactNode }) {
     archivedCount,
 
     // Custom Activity Types
-    addCustomActivityType,
-    updateCustomActivityType,
-    deleteCustomActivityType,
+    addCustomActivityType: withPermission(() => guard('staff:manage'), addCustomActivityType),
+    updateCustomActivityType: withPermission(() => guard('staff:manage'), updateCustomActivityType),
+    deleteCustomActivityType: withPermission(() => guard('staff:manage'), deleteCustomActivityType),
     getActivityTypeInfo: getActivityTypeInfoFn,
     getAllActivityTypes,
 
+    // Office Closures
+    addClosureDay: withPermission(() => guard('staff:manage'), addClosureDay),
+    deleteClosureDay: withPermission(() => guard('staff:manage'), deleteClosureDay),
+
+    // Procedure Templates
+    createProcedureTemplate: withPermission(() => guard('template:edit'), createProcedureTemplate),
+    cloneProcedureTemplate: withPermission(() => guard('template:edit'), cloneProcedureTemplate),
+    updateProcedureTemplate: withPermission(() => guard('template:edit'), updateProcedureTemplate),
+    deleteProcedureTemplate: withPermission(() => guard('template:edit'), deleteProcedureTemplate),
+
     // Checklists
     getChecklistForActivity,
-    updateChecklistItem,
+    updateChecklistItem: withPermission(
+      ([id]) => guard('activity:edit', findChecklistActivity(id)),
+      updateChecklistItem
+    ),
+    rebaselineChecklist: withPermission(
+      ([id]) => guard('activity:edit', findChecklistActivity(id)),
+      rebaselineChecklist
+    ),
+    rescheduleActivity: withPermission(
+      ([activityId]) => guard('activity:edit', findActivity(activityId)),
+      rescheduleActivity
+    ),
+    undoReschedule: withPermission(
+      ([undo]) => guard('activity:edit', findActivity(undo.activityId)),
+      undoReschedule
+    ),
+    upgradeChecklistToLatestTemplate: withPermission(
+      ([id]) => guard('activity:edit', findChecklistActivity(id)),
+      upgradeChecklistToLatestTemplate
+    ),
+
+    // Approvals
+    submitForApproval: withPermission(
+      ([id]) => guard('activity:edit', findChecklistActivity(id)),
+      submitForApproval
+    ),
+    approveChecklistItem: withPermission(() => guard('task:approve'), approveChecklistItem),
+    rejectChecklistItem: withPermission(() => guard('task:approve'), rejectChecklistItem),
+    pendingApprovals,
 
     // Reminders
     dismissReminder,
     markReminderRead,
+    snoozeReminder,
     unreadReminderCount,
+    addCustomReminder: withPermission(
+      ([activityId]) => guard('activity:edit', findActivity(activityId)),
+      addCustomReminder
+    ),
+    deleteCustomReminder: withPermission(
+      ([activityId]) => guard('activity:edit', findActivity(activityId)),
+      deleteCustomReminder
+    ),
+
+    // User Preferences
+    userPreferences,
+    updateUserPreferences,
 
     // Staff
     getStaffMember,
+    addStaffMember: withPermission(() => guard('staff:manage'), addStaffMember),
+    updateStaffMember: withPermission(() => guard('staff:manage'), updateStaffMember),
+    deleteStaffMember: withPermission(() => guard('staff:manage'), deleteStaffMember),
 
     // Persistence
     exportToJSON,
     importFromJSON,
-    loadSampleData,
+    loadSampleData: withPermission(() => guard('data:import'), loadSampleData),
   };
 
   return <ActivityContext.Provider value={value}>{children}</ActivityContext.Provider>;
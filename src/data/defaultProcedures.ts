@@ -1212,3 +1212,8 @@ export function getProcedureForActivity(
     (p) => p.activityType === activityType && (!eventType || p.eventType === eventType)
   );
 }
+
+// Built-in procedures are read-only; they can be cloned but not edited
+export function isBuiltInTemplate(templateId: string): boolean {
+  return defaultProcedures.some((p) => p.id === templateId);
+}
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { differenceInCalendarDays } from 'date-fns';
+import type { AnyActivity } from '../types';
+import { applyDragDelta, type ActivityDates, type DragMode } from '../utils/reschedule';
+
+export interface ActivityDragPreview extends ActivityDates {
+  activityId: string;
+}
+
+// Maps a pointer position to the calendar day under it
+export type DateAtPoint = (clientX: number, clientY: number) => Date | null;
+
+// Pointer-driven dragging of activity bars and their edges. The preview dates are
+// shown while dragging; onDrop gets the final dates once the pointer is released.
+// A drag the browser cancels (e.g. a touch that turns into a scroll) changes nothing.
+export function useActivityDrag(onDrop: (activity: AnyActivity, dates: ActivityDates) => void) {
+  const [preview, setPreview] = useState<ActivityDragPreview | null>(null);
+  const draggedRef = useRef(false);
+  const cleanupRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => cleanupRef.current?.(), []);
+
+  const beginDrag = useCallback(
+    (event: React.PointerEvent, activity: AnyActivity, mode: DragMode, getDateAtPoint: DateAtPoint) => {
+      if (event.button !== 0 || !activity.startDate) return;
+      const origin = getDateAtPoint(event.clientX, event.clientY);
+      if (!origin) return;
+      event.stopPropagation();
+      draggedRef.current = false;
+      const { pointerId } = event;
+      let days = 0;
+
+      const handleMove = (e: PointerEvent) => {
+        const date = getDateAtPoint(e.clientX, e.clientY);
+        if (!date) return;
+        days = differenceInCalendarDays(date, origin);
+        if (days !== 0) draggedRef.current = true;
+        setPreview({ activityId: activity.id, ...applyDragDelta(activity, mode, days) });
+      };
+      const endDrag = () => {
+        cleanup();
+        setPreview(null);
+        // The click that follows pointerup fires before this resets
+        setTimeout(() => {
+          draggedRef.current = false;
+        }, 0);
+      };
+      const handleUp = () => {
+        endDrag();
+        if (days !== 0) onDrop(activity, applyDragDelta(activity, mode, days));
+      };
+      const handleCancel = (e: PointerEvent) => {
+        if (e.pointerId === pointerId) endDrag();
+      };
+      const cleanup = () => {
+        window.removeEventListener('pointermove', handleMove);
+        window.removeEventListener('pointerup', handleUp);
+        window.removeEventListener('pointercancel', handleCancel);
+        window.removeEventListener('lostpointercapture', handleCancel);
+        cleanupRef.current = null;
+      };
+
+      cleanupRef.current?.();
+      window.addEventListener('pointermove', handleMove);
+      window.addEventListener('pointerup', handleUp);
+      window.addEventListener('pointercancel', handleCancel);
+      window.addEventListener('lostpointercapture', handleCancel);
+      cleanupRef.current = cleanup;
+    },
+    [onDrop]
+  );
+
+  // A click that ends a drag shouldn't also open the activity or the day
+  const isDragClick = useCallback(() => draggedRef.current, []);
+
+  return { preview, beginDrag, isDragClick };
+}
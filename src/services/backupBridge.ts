@@ -3,67 +3,65 @@
  * Handles backup/restore requests from the CDFA Hub
  */
 
-const STORAGE_KEY = 'cdfa-project-manager-data';
+import { createEmptyData, getStorage, normalizeData } from './storage';
+import type { PersistedData } from './storage';
+import { openTabChannel } from './tabSync';
+import { CURRENT_SCHEMA_VERSION, migratePersistedData } from '../utils/schemaMigration';
+
 const TOOL_ID = 'project-manager';
 const TOOL_NAME = 'Project Manager';
 
-interface BackupData {
-  activities: unknown[];
-  checklistInstances: unknown[];
-  staffMembers: unknown[];
-  customActivityTypes: unknown[];
-  currentUserId: string | null;
+interface BackupData extends PersistedData {
+  schemaVersion?: number; // Missing in backups made before the schema was versioned
   theme: string | null;
 }
 
 /**
  * Export all Project Manager data
  */
-function exportData(): BackupData {
-  let data: Partial<BackupData> = {};
+async function exportData(): Promise<BackupData> {
+  let data = createEmptyData();
 
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      data = JSON.parse(stored);
-    }
+    data = (await getStorage().load())?.data || data;
   } catch (e) {
     console.error('Failed to read storage for backup:', e);
   }
 
   return {
-    activities: data.activities || [],
-    checklistInstances: data.checklistInstances || [],
-    staffMembers: data.staffMembers || [],
-    customActivityTypes: data.customActivityTypes || [],
-    currentUserId: data.currentUserId || null,
+    ...data,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     theme: localStorage.getItem('theme'),
   };
 }
 
 /**
- * Import data into Project Manager
+ * Import data into Project Manager. Every open tab stops saving while the data is replaced,
+ * then reloads it, so no tab writes its old records over the restored ones.
  */
-function importData(data: BackupData): boolean {
+async function importData(data: BackupData): Promise<boolean> {
+  const channel = openTabChannel(() => {});
+  let isReplacing = false;
   try {
-    const toSave = {
-      activities: data.activities || [],
-      checklistInstances: data.checklistInstances || [],
-      staffMembers: data.staffMembers || [],
-      customActivityTypes: data.customActivityTypes || [],
-      currentUserId: data.currentUserId || null,
-    };
-
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(toSave));
-
-    if (data.theme) {
-      localStorage.setItem('theme', data.theme);
+    const { theme, ...toSave } = data;
+    const restored = normalizeData(migratePersistedData(toSave).data);
+    channel.post({ type: 'DATA_REPLACING' });
+    isReplacing = true;
+    await getStorage().replaceAll(restored);
+
+    if (theme) {
+      localStorage.setItem('theme', theme);
     }
 
+    channel.post({ type: 'RELOAD' });
     return true;
   } catch (e) {
     console.error('Failed to import backup data:', e);
+    // The other tabs stopped saving; reload whatever storage now holds
+    if (isReplacing) channel.post({ type: 'RELOAD' });
     return false;
+  } finally {
+    channel.close();
   }
 }
 
@@ -71,12 +69,12 @@ function importData(data: BackupData): boolean {
  * Initialize backup bridge - listens for messages from Hub
  */
 export function initBackupBridge(): () => void {
-  const handleMessage = (event: MessageEvent) => {
+  const handleMessage = async (event: MessageEvent) => {
     const data = event.data;
 
     // Handle backup request from Hub
     if (data?.type === 'CDFA_BACKUP_REQUEST' && data?.action === 'EXPORT_DATA') {
-      const backupData = exportData();
+      const backupData = await exportData();
 
       // Send response back to Hub
       window.parent.postMessage(
@@ -92,7 +90,7 @@ export function initBackupBridge(): () => void {
 
     // Handle restore request from Hub
     if (data?.type === 'CDFA_RESTORE_REQUEST' && data?.action === 'IMPORT_DATA') {
-      const success = importData(data.data as BackupData);
+      const success = await importData(data.data as BackupData);
 
       // Send response back to Hub
       window.parent.postMessage(
@@ -104,7 +102,7 @@ export function initBackupBridge(): () => void {
         '*'
       );
 
-      // Reload the page to apply restored data
+      // Reload the page to apply restored data; the other tabs were told to reload too
       if (success) {
         window.location.reload();
       }
@@ -121,15 +119,14 @@ export function initBackupBridge(): () => void {
 /**
  * Get current data statistics for display
  */
-export function getDataStats(): { activities: number; checklists: number; staff: number } {
+export async function getDataStats(): Promise<{ activities: number; checklists: number; staff: number }> {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      const data = JSON.parse(stored);
+    const data = (await getStorage().load())?.data;
+    if (data) {
       return {
-        activities: data.activities?.length || 0,
-        checklists: data.checklistInstances?.length || 0,
-        staff: data.staffMembers?.length || 0,
+        activities: data.activities.length,
+        checklists: data.checklistInstances.length,
+        staff: data.staffMembers.length,
       };
     }
   } catch {
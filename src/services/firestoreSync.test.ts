@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RemoteChanges, SyncedRecords } from './firestoreSync';
+
+const DOCUMENTS_PATH = 'projects/demo-project/databases/(default)/documents/projectManager/shared';
+
+interface StoredDocument {
+  name: string;
+  syncedAt: string;
+  fields: Record<string, unknown>;
+}
+
+type QueryValue = { timestampValue?: string; referenceValue?: string };
+
+// Firestore's runQuery for the sync's query shape: ordered by syncedAt then name, from a cursor
+function runQuery(documents: StoredDocument[], collection: string, query: Record<string, unknown>) {
+  const { startAt, limit } = query as { startAt?: { values: QueryValue[]; before: boolean }; limit: number };
+  const sortKey = (d: StoredDocument) => [d.syncedAt, d.name];
+  const compare = (a: string[], b: string[]) => {
+    for (let i = 0; i < b.length; i++) {
+      if (a[i] !== b[i]) return a[i] < b[i] ? -1 : 1;
+    }
+    return 0;
+  };
+  const cursor = startAt?.values.map((v) => (v.timestampValue ?? v.referenceValue) as string);
+
+  return documents
+    .filter((d) => d.name.startsWith(`${DOCUMENTS_PATH}/${collection}/`))
+    .sort((a, b) => compare(sortKey(a), sortKey(b)))
+    .filter((d) => !cursor || (startAt?.before ? compare(sortKey(d), cursor) >= 0 : compare(sortKey(d), cursor) > 0))
+    .slice(0, limit)
+    .map((d) => ({
+      document: {
+        name: d.name,
+        updateTime: d.syncedAt,
+        fields: {
+          data: { mapValue: { fields: { id: { stringValue: d.fields.id }, name: { stringValue: d.fields.name } } } },
+          deleted: { booleanValue: false },
+          clientId: { stringValue: 'other-client' },
+          syncedAt: { timestampValue: d.syncedAt },
+        },
+      },
+    }));
+}
+
+describe('pulling team changes', () => {
+  const storage = new Map<string, string>();
+
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubEnv('VITE_FIREBASE_PROJECT_ID', 'demo-project');
+    vi.stubGlobal('navigator', { onLine: true });
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+    });
+  });
+
+  afterEach(() => {
+    storage.clear();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('pulls every record of a commit that spans more than one page', async () => {
+    // 600 records written in one commit share a syncedAt, so the first 500-record page ends mid-group
+    const documents: StoredDocument[] = Array.from({ length: 600 }, (_, i) => {
+      const id = `activity-${String(i).padStart(3, '0')}`;
+      return {
+        name: `${DOCUMENTS_PATH}/activities/${id}`,
+        syncedAt: '2026-03-02T10:00:00.000000Z',
+        fields: { id, name: `Activity ${i}` },
+      };
+    });
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (_url: string, init: { body: string }) => {
+        const { structuredQuery } = JSON.parse(init.body);
+        const body = runQuery(documents, structuredQuery.from[0].collectionId, structuredQuery);
+        return { ok: true, json: async () => body };
+      })
+    );
+
+    const { authBridge } = await import('./authBridge');
+    vi.spyOn(authBridge, 'getToken').mockReturnValue('token');
+    const { createFirestoreSync } = await import('./firestoreSync');
+    const empty: SyncedRecords = {
+      activities: [],
+      checklistInstances: [],
+      staffMembers: [],
+      customActivityTypes: [],
+      procedureTemplates: [],
+      closureDays: [],
+    };
+    const pulled: RemoteChanges[] = [];
+    const sync = createFirestoreSync({
+      userId: 'user-1',
+      getRecords: () => empty,
+      onRemoteChanges: (changes) => pulled.push(changes),
+      onStatusChange: () => {},
+      onConflicts: () => {},
+    });
+
+    await sync.syncNow();
+    const ids = pulled.flatMap((changes) => changes.put.activities || []).map((a) => a.id);
+    expect(new Set(ids).size).toBe(600);
+
+    // A later commit in the same millisecond as the cursor still arrives on the next pull
+    documents.push({
+      name: `${DOCUMENTS_PATH}/activities/activity-zzz`,
+      syncedAt: '2026-03-02T10:00:00.000000Z',
+      fields: { id: 'activity-zzz', name: 'Late arrival' },
+    });
+    pulled.length = 0;
+    await sync.syncNow();
+    expect(pulled.flatMap((changes) => changes.put.activities || []).map((a) => a.id)).toEqual(['activity-zzz']);
+  });
+});
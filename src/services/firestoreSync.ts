@@ -0,0 +1,638 @@
+/**
+ * Firestore Sync Service for Project Manager
+ * Shares the team's records with everyone through Firestore: activities, checklists, staff,
+ * custom activity types, custom procedure templates and closure days. Each person's own
+ * settings (preferences, reminder states, current user) stay in their browser. Reads and
+ * writes go through the Firestore REST API with the Hub user's ID token, since the app never
+ * signs in to Firebase itself. Local edits are queued (and survive reloads) until they can be sent.
+ *
+ * Other people's edits arrive live: a Firestore SDK snapshot listener on each collection
+ * starts a pull as soon as someone else writes. If the listener can't connect (for example
+ * when the security rules require a Firebase sign-in), changes are polled every
+ * POLL_INTERVAL_MS instead.
+ *
+ * Each write is conditional on the document being unchanged since this browser last saw
+ * it. When someone else got there first, their version is merged field by field with the
+ * local edits; fields both people changed are held back as conflicts for the user to resolve.
+ *
+ * Set VITE_FIRESTORE_EMULATOR_HOST (e.g. localhost:8080) to sync against the emulator.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getApps, initializeApp } from 'firebase/app';
+import { collection, connectFirestoreEmulator, getFirestore, limit, onSnapshot, orderBy, query } from 'firebase/firestore';
+import type { Firestore, Unsubscribe } from 'firebase/firestore';
+import type {
+  AnyActivity,
+  ChecklistInstance,
+  ClosureDay,
+  CustomActivityType,
+  ProcedureTemplate,
+  StaffMember,
+  SyncStatus,
+} from '../types';
+import { mergeActivity, mergeChecklist, mergeRecordFields } from '../utils/syncMerge';
+import type { MergeResult } from '../utils/syncMerge';
+import { authBridge } from './authBridge';
+
+export type SyncCollection =
+  | 'activities'
+  | 'checklistInstances'
+  | 'staffMembers'
+  | 'customActivityTypes'
+  | 'procedureTemplates'
+  | 'closureDays';
+
+export const SYNC_COLLECTIONS: SyncCollection[] = [
+  'activities',
+  'checklistInstances',
+  'staffMembers',
+  'customActivityTypes',
+  'procedureTemplates',
+  'closureDays',
+];
+
+export interface SyncedRecords {
+  activities: AnyActivity[];
+  checklistInstances: ChecklistInstance[];
+  staffMembers: StaffMember[];
+  customActivityTypes: CustomActivityType[];
+  procedureTemplates: ProcedureTemplate[]; // Custom templates only; built-in ones ship with the app
+  closureDays: ClosureDay[];
+}
+
+// Records added, changed or deleted by other people since the last pull
+export interface RemoteChanges {
+  put: Partial<SyncedRecords>;
+  delete: Partial<Record<SyncCollection, string[]>>;
+}
+
+type SyncedRecord = SyncedRecords[SyncCollection][number];
+
+// Local and remote edits to the same fields of a record, waiting for the user to choose
+export interface SyncConflict {
+  collection: SyncCollection;
+  id: string;
+  local: SyncedRecord;
+  remote: SyncedRecord;
+  result: MergeResult<SyncedRecord>; // Both sides merged, with local values for the conflicting fields
+}
+
+export interface FirestoreSyncOptions {
+  userId: string;
+  getRecords: () => SyncedRecords; // Current local records, read when queued changes are sent
+  onRemoteChanges: (changes: RemoteChanges) => void;
+  onStatusChange: (status: SyncStatus) => void;
+  onConflicts: (conflicts: SyncConflict[]) => void;
+}
+
+export interface FirestoreSync {
+  start(): void;
+  stop(): void;
+  syncNow(): Promise<void>;
+  resolveConflict(collection: SyncCollection, id: string): void; // Call before saving the resolved record
+}
+
+interface QueuedWrite {
+  collection: SyncCollection;
+  id: string;
+  seq: number; // Bumped on every edit, so a write sent while the record changed again stays queued
+  base: SyncedRecord | null; // Last synced version the local edits started from; null for new records
+  remote?: SyncedRecord; // Conflicting remote version; the write is held until the user resolves it
+}
+
+type FirestoreValue =
+  | { nullValue: null }
+  | { booleanValue: boolean }
+  | { integerValue: string }
+  | { doubleValue: number }
+  | { timestampValue: string }
+  | { stringValue: string }
+  | { referenceValue: string }
+  | { arrayValue: { values?: FirestoreValue[] } }
+  | { mapValue: { fields?: Record<string, FirestoreValue> } };
+
+interface FirestoreDocument {
+  name: string;
+  fields?: Record<string, FirestoreValue>;
+  updateTime?: string;
+}
+
+const PROJECT_ID = import.meta.env.VITE_FIREBASE_PROJECT_ID as string | undefined;
+const API_KEY = import.meta.env.VITE_FIREBASE_API_KEY as string | undefined;
+const AUTH_DOMAIN = import.meta.env.VITE_FIREBASE_AUTH_DOMAIN as string | undefined;
+const APP_ID = import.meta.env.VITE_FIREBASE_APP_ID as string | undefined;
+const EMULATOR_HOST = import.meta.env.VITE_FIRESTORE_EMULATOR_HOST as string | undefined;
+
+const SYNC_ROOT = 'projectManager/shared'; // Parent document of the team's collections
+const QUEUE_STORAGE_KEY = 'cdfa-project-manager-sync-queue';
+const CURSOR_STORAGE_KEY = 'cdfa-project-manager-sync-cursor';
+const VERSIONS_STORAGE_KEY = 'cdfa-project-manager-sync-versions'; // Last seen update time of each document
+const FIRST_CURSOR = '1970-01-01T00:00:00Z'; // Marks the first pull as done when the team had nothing yet
+const POLL_INTERVAL_MS = 15 * 1000; // Only while the live listeners can't connect
+const FIREBASE_APP_NAME = 'project-manager-sync';
+const FLUSH_DELAY_MS = 1000;
+const MAX_BATCH_SIZE = 500; // Firestore's limit on writes per commit and a sensible page size
+
+// Identifies writes from this tab, so its own changes aren't pulled back in
+const CLIENT_ID = uuidv4();
+
+class SyncRequestError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'SyncRequestError';
+    this.status = status;
+  }
+}
+
+/**
+ * Whether a Firebase project is configured to sync with
+ */
+export function isSyncConfigured(): boolean {
+  return !!PROJECT_ID;
+}
+
+// ============ Offline write queue ============
+
+const queueListeners = new Set<() => void>();
+let seqCounter = 0;
+
+function readQueue(): QueuedWrite[] {
+  try {
+    return JSON.parse(localStorage.getItem(QUEUE_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function writeQueue(queue: QueuedWrite[]) {
+  if (queue.length === 0) {
+    localStorage.removeItem(QUEUE_STORAGE_KEY);
+  } else {
+    localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+  }
+}
+
+/**
+ * Queue local changes to send to Firestore. The record itself is read when the write is
+ * sent, and a missing record is sent as a deletion. previousRecords are the versions before
+ * the change, kept as the merge base for records that had no unsent edits.
+ */
+export function queueSyncChanges(collection: SyncCollection, ids: string[], previousRecords: SyncedRecord[] = []) {
+  if (!isSyncConfigured() || ids.length === 0) return;
+
+  const queue = readQueue();
+  seqCounter = Math.max(seqCounter, ...queue.map((write) => write.seq));
+  for (const id of ids) {
+    const existing = queue.find((write) => write.collection === collection && write.id === id);
+    if (existing) {
+      existing.seq = ++seqCounter;
+    } else {
+      const base = previousRecords.find((r) => r.id === id) || null;
+      queue.push({ collection, id, seq: ++seqCounter, base });
+    }
+  }
+  writeQueue(queue);
+  queueListeners.forEach((listener) => listener());
+}
+
+/**
+ * Number of local changes not yet sent
+ */
+export function getPendingSyncCount(): number {
+  return readQueue().length;
+}
+
+function readStoredMap(key: string): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(key) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+const getVersionKey = (collection: SyncCollection, id: string) => `${collection}/${id}`;
+
+function mergeRecord(
+  collection: SyncCollection,
+  base: SyncedRecord | null,
+  local: SyncedRecord,
+  remote: SyncedRecord
+): MergeResult<SyncedRecord> {
+  if (collection === 'activities') {
+    return mergeActivity((base as AnyActivity) || undefined, local as AnyActivity, remote as AnyActivity);
+  }
+  if (collection === 'checklistInstances') {
+    return mergeChecklist((base as ChecklistInstance) || undefined, local as ChecklistInstance, remote as ChecklistInstance);
+  }
+  return mergeRecordFields<SyncedRecord>(base || undefined, local, remote);
+}
+
+// ============ Firestore REST encoding ============
+
+function toFirestoreValue(value: unknown): FirestoreValue {
+  if (value === null || value === undefined) return { nullValue: null };
+  if (typeof value === 'boolean') return { booleanValue: value };
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { integerValue: String(value) } : { doubleValue: value };
+  }
+  if (typeof value === 'string') return { stringValue: value };
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(toFirestoreValue) } };
+  if (typeof value === 'object') return { mapValue: { fields: toFirestoreFields(value as Record<string, unknown>) } };
+  return { nullValue: null };
+}
+
+// Undefined fields are left out, as they would be in JSON
+function toFirestoreFields(record: Record<string, unknown>): Record<string, FirestoreValue> {
+  const fields: Record<string, FirestoreValue> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (value !== undefined) fields[key] = toFirestoreValue(value);
+  }
+  return fields;
+}
+
+function fromFirestoreValue(value: FirestoreValue): unknown {
+  if ('booleanValue' in value) return value.booleanValue;
+  if ('integerValue' in value) return Number(value.integerValue);
+  if ('doubleValue' in value) return value.doubleValue;
+  if ('timestampValue' in value) return value.timestampValue;
+  if ('stringValue' in value) return value.stringValue;
+  if ('referenceValue' in value) return value.referenceValue;
+  if ('arrayValue' in value) return (value.arrayValue.values || []).map(fromFirestoreValue);
+  if ('mapValue' in value) return fromFirestoreFields(value.mapValue.fields || {});
+  return null;
+}
+
+function fromFirestoreFields(fields: Record<string, FirestoreValue>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, fromFirestoreValue(value)]));
+}
+
+// ============ Firestore REST requests ============
+
+const DATABASE_PATH = `projects/${PROJECT_ID}/databases/(default)/documents`;
+
+function getApiUrl(path: string): string {
+  const base = EMULATOR_HOST ? `http://${EMULATOR_HOST}/v1` : 'https://firestore.googleapis.com/v1';
+  return `${base}/${path}${API_KEY && !EMULATOR_HOST ? `?key=${API_KEY}` : ''}`;
+}
+
+async function firestoreRequest<T>(path: string, body: unknown): Promise<T> {
+  const token = authBridge.getToken();
+  if (!token) throw new SyncRequestError(401, 'Not signed in');
+
+  const response = await fetch(getApiUrl(path), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new SyncRequestError(response.status, `Firestore request failed (${response.status}): ${await response.text()}`);
+  }
+  return response.json();
+}
+
+function getDocumentName(collection: SyncCollection, id: string): string {
+  return `${DATABASE_PATH}/${SYNC_ROOT}/${collection}/${id}`;
+}
+
+// Cursors are "<syncedAt> <document name>" for the last document pulled. Every document in a
+// commit shares its syncedAt, so pages continue after the name as well as the time.
+// Cursors saved before names were added hold only the time, and pull its documents again.
+function parseCursor(cursor: string): FirestoreValue[] {
+  const [syncedAt, name] = cursor.split(' ');
+  return name ? [{ timestampValue: syncedAt }, { referenceValue: name }] : [{ timestampValue: syncedAt }];
+}
+
+// Documents in a collection changed after the cursor, oldest first
+async function queryChangedDocuments(collection: SyncCollection, after: string | undefined): Promise<FirestoreDocument[]> {
+  const startAt = after ? parseCursor(after) : null;
+  const results = await firestoreRequest<Array<{ document?: FirestoreDocument }>>(`${DATABASE_PATH}/${SYNC_ROOT}:runQuery`, {
+    structuredQuery: {
+      from: [{ collectionId: collection }],
+      orderBy: [
+        { field: { fieldPath: 'syncedAt' }, direction: 'ASCENDING' },
+        { field: { fieldPath: '__name__' }, direction: 'ASCENDING' },
+      ],
+      ...(startAt && { startAt: { values: startAt, before: startAt.length === 1 } }),
+      limit: MAX_BATCH_SIZE,
+    },
+  });
+  return results.flatMap((result) => (result.document ? [result.document] : []));
+}
+
+let listenerFirestore: Firestore | null = null;
+
+// Firestore SDK instance for the live listeners, set up on first use
+function getListenerFirestore(userId: string): Firestore {
+  if (listenerFirestore) return listenerFirestore;
+  const app =
+    getApps().find((a) => a.name === FIREBASE_APP_NAME) ||
+    initializeApp({ apiKey: API_KEY, authDomain: AUTH_DOMAIN, projectId: PROJECT_ID, appId: APP_ID }, FIREBASE_APP_NAME);
+  listenerFirestore = getFirestore(app);
+  if (EMULATOR_HOST) {
+    const [host, port] = EMULATOR_HOST.split(':');
+    connectFirestoreEmulator(listenerFirestore, host, Number(port), { mockUserToken: { user_id: userId } });
+  }
+  return listenerFirestore;
+}
+
+// Someone else wrote the document since this browser last saw it
+function isWriteConflict(error: unknown): boolean {
+  return (
+    error instanceof SyncRequestError &&
+    (error.status === 409 || (error.status === 400 && error.message.includes('FAILED_PRECONDITION')))
+  );
+}
+
+/**
+ * Create a sync session for the signed-in user. Sends queued changes and pulls other
+ * people's changes until stopped.
+ */
+export function createFirestoreSync({
+  userId,
+  getRecords,
+  onRemoteChanges,
+  onStatusChange,
+  onConflicts,
+}: FirestoreSyncOptions): FirestoreSync {
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let unsubscribes: Unsubscribe[] = [];
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  let running: Promise<void> | null = null;
+  let isStopped = false;
+
+  const setStatus = (status: SyncStatus) => {
+    if (!isStopped) onStatusChange(status);
+  };
+
+  const findLocalRecord = (collection: SyncCollection, id: string): SyncedRecord | undefined =>
+    (getRecords()[collection] as SyncedRecord[]).find((r) => r.id === id);
+
+  const emitConflicts = () => {
+    if (isStopped) return;
+    const conflicts = readQueue().flatMap((write): SyncConflict[] => {
+      const local = findLocalRecord(write.collection, write.id);
+      if (!write.remote || !local) return [];
+      const result = mergeRecord(write.collection, write.base, local, write.remote);
+      return [{ collection: write.collection, id: write.id, local, remote: write.remote, result }];
+    });
+    onConflicts(conflicts);
+  };
+
+  // Send queued changes, in batches of up to MAX_BATCH_SIZE. Each write only succeeds if
+  // the document hasn't changed since it was last seen. Writes held for conflict
+  // resolution, or just merged and not yet in the local state, wait for a later run.
+  const pushChanges = async (skipKeys: Set<string>) => {
+    const records = getRecords();
+    let queue = readQueue().filter((write) => !write.remote && !skipKeys.has(getVersionKey(write.collection, write.id)));
+    while (queue.length > 0 && !isStopped) {
+      const batch = queue.slice(0, MAX_BATCH_SIZE);
+      const versions = readStoredMap(VERSIONS_STORAGE_KEY);
+      const sentRecords = batch.map(({ collection, id }) => (records[collection] as SyncedRecord[]).find((r) => r.id === id));
+      const response = await firestoreRequest<{ writeResults?: Array<{ updateTime?: string }> }>(`${DATABASE_PATH}:commit`, {
+        writes: batch.map(({ collection, id }, i) => {
+          const record = sentRecords[i];
+          const version = versions[getVersionKey(collection, id)];
+          return {
+            update: {
+              name: getDocumentName(collection, id),
+              fields: toFirestoreFields({
+                data: record || null,
+                deleted: !record,
+                updatedBy: userId,
+                clientId: CLIENT_ID,
+              }),
+            },
+            updateTransforms: [{ fieldPath: 'syncedAt', setToServerValue: 'REQUEST_TIME' }],
+            currentDocument: version ? { updateTime: version } : { exists: false },
+          };
+        }),
+      });
+
+      batch.forEach(({ collection, id }, i) => {
+        const updateTime = response.writeResults?.[i]?.updateTime;
+        if (updateTime) versions[getVersionKey(collection, id)] = updateTime;
+      });
+      localStorage.setItem(VERSIONS_STORAGE_KEY, JSON.stringify(versions));
+
+      // Anything edited again while the batch was in flight stays queued, based on what was sent
+      const sent = new Map(batch.map((write, i) => [getVersionKey(write.collection, write.id), { seq: write.seq, record: sentRecords[i] }]));
+      const remaining = readQueue().flatMap((write) => {
+        const sentWrite = sent.get(getVersionKey(write.collection, write.id));
+        if (!sentWrite) return [write];
+        return sentWrite.seq === write.seq ? [] : [{ ...write, base: sentWrite.record || null }];
+      });
+      writeQueue(remaining);
+      queue = remaining.filter((write) => !write.remote && !skipKeys.has(getVersionKey(write.collection, write.id)));
+    }
+  };
+
+  // Pull changes made elsewhere since the last pull. Records with unsent local edits are
+  // merged with the remote version. On the first pull, local records the team doesn't have
+  // yet are queued for upload. Returns the records merged in this pull.
+  const pullChanges = async (): Promise<Set<string>> => {
+    const cursors = readStoredMap(CURSOR_STORAGE_KEY);
+    const versions = readStoredMap(VERSIONS_STORAGE_KEY);
+    const changes: RemoteChanges = { put: {}, delete: {} };
+    const mergedKeys = new Set<string>();
+    let hasChanges = false;
+
+    for (const collection of SYNC_COLLECTIONS) {
+      const isFirstPull = !cursors[collection];
+      const remoteIds = new Set<string>();
+      const put: SyncedRecord[] = [];
+      const deleted: string[] = [];
+
+      let page: FirestoreDocument[];
+      do {
+        page = await queryChangedDocuments(collection, cursors[collection]);
+        const queue = readQueue();
+        for (const document of page) {
+          const { data, deleted: isDeleted, clientId, syncedAt } = fromFirestoreFields(document.fields || {});
+          const id = document.name.split('/').pop() as string;
+          const key = getVersionKey(collection, id);
+          cursors[collection] = `${syncedAt} ${document.name}`;
+          if (document.updateTime) versions[key] = document.updateTime;
+          remoteIds.add(id);
+          if (clientId === CLIENT_ID) continue;
+
+          const pending = queue.find((write) => write.collection === collection && write.id === id);
+          const remote = data as SyncedRecord | null;
+          if (!pending) {
+            if (isDeleted) {
+              deleted.push(id);
+            } else if (remote) {
+              put.push(remote);
+            }
+            continue;
+          }
+
+          // Local edits win over a remote deletion, and a local deletion wins over remote edits
+          const local = findLocalRecord(collection, id);
+          if (isDeleted || !remote || !local) continue;
+          if (pending.remote) {
+            pending.remote = remote;
+            continue;
+          }
+          const { merged, conflicts } = mergeRecord(collection, pending.base, local, remote);
+          if (conflicts.length > 0) {
+            pending.remote = remote;
+          } else {
+            pending.base = remote;
+            pending.seq = ++seqCounter;
+            if (merged !== local) {
+              put.push(merged);
+              mergedKeys.add(key);
+            }
+          }
+        }
+        writeQueue(queue);
+      } while (page.length === MAX_BATCH_SIZE && !isStopped);
+
+      if (isStopped) return mergedKeys;
+      if (put.length > 0) (changes.put as Record<string, SyncedRecord[]>)[collection] = put;
+      if (deleted.length > 0) changes.delete[collection] = deleted;
+      hasChanges ||= put.length > 0 || deleted.length > 0;
+
+      if (isFirstPull) {
+        cursors[collection] ||= FIRST_CURSOR;
+        const localOnly = (getRecords()[collection] as SyncedRecord[]).filter((r) => !remoteIds.has(r.id));
+        queueSyncChanges(collection, localOnly.map((r) => r.id));
+      }
+      localStorage.setItem(CURSOR_STORAGE_KEY, JSON.stringify(cursors));
+      localStorage.setItem(VERSIONS_STORAGE_KEY, JSON.stringify(versions));
+    }
+
+    if (hasChanges) onRemoteChanges(changes);
+    emitConflicts();
+    return mergedKeys;
+  };
+
+  const run = async () => {
+    if (!navigator.onLine) {
+      setStatus('offline');
+      return;
+    }
+    setStatus('syncing');
+    try {
+      // Pull first so writes are checked against the latest remote versions
+      let mergedKeys = await pullChanges();
+      try {
+        await pushChanges(mergedKeys);
+      } catch (e) {
+        if (!isWriteConflict(e)) throw e;
+        mergedKeys = await pullChanges();
+        await pushChanges(mergedKeys);
+      }
+      // Merged records are sent once they are in the local state
+      if (mergedKeys.size > 0) scheduleFlush();
+      setStatus('synced');
+    } catch (e) {
+      if (e instanceof SyncRequestError) {
+        console.error('[FirestoreSync] Sync failed:', e);
+        setStatus('error');
+        // The Hub refreshes tokens; ask for the current one in case ours expired
+        if (e.status === 401 || e.status === 403) authBridge.requestAuthState();
+      } else {
+        // fetch only rejects when the network is unreachable
+        setStatus('offline');
+      }
+    }
+  };
+
+  // One sync at a time; a request made while one is running starts another after it
+  let rerun = false;
+  const syncNow = async () => {
+    if (running) {
+      rerun = true;
+      return running;
+    }
+    running = run().finally(() => {
+      running = null;
+      if (rerun && !isStopped) {
+        rerun = false;
+        void syncNow();
+      }
+    });
+    return running;
+  };
+
+  const scheduleFlush = () => {
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = setTimeout(() => void syncNow(), FLUSH_DELAY_MS);
+  };
+
+  const startPolling = () => {
+    if (!pollTimer && !isStopped) pollTimer = setInterval(() => void syncNow(), POLL_INTERVAL_MS);
+  };
+
+  // Listen to the latest write in each collection and pull when it came from someone else.
+  // The listener's first snapshot is skipped, as start() pulls anyway.
+  const listenForChanges = () => {
+    const firestore = getListenerFirestore(userId);
+    unsubscribes = SYNC_COLLECTIONS.map((name) => {
+      let isFirstSnapshot = true;
+      return onSnapshot(
+        query(collection(firestore, SYNC_ROOT, name), orderBy('syncedAt', 'desc'), limit(1)),
+        (snapshot) => {
+          if (isFirstSnapshot) {
+            isFirstSnapshot = false;
+            return;
+          }
+          if (snapshot.docChanges().some((change) => change.doc.get('clientId') !== CLIENT_ID)) scheduleFlush();
+        },
+        (error) => {
+          console.warn(`[FirestoreSync] Live updates for ${name} stopped, polling instead:`, error);
+          startPolling();
+        }
+      );
+    });
+  };
+
+  const handleOnline = () => void syncNow();
+  const handleOffline = () => setStatus('offline');
+  // Changes queued by the app's other open tabs
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === QUEUE_STORAGE_KEY) scheduleFlush();
+  };
+
+  return {
+    start() {
+      isStopped = false;
+      queueListeners.add(scheduleFlush);
+      window.addEventListener('online', handleOnline);
+      window.addEventListener('offline', handleOffline);
+      window.addEventListener('storage', handleStorage);
+      listenForChanges();
+      emitConflicts();
+      void syncNow();
+    },
+
+    stop() {
+      isStopped = true;
+      queueListeners.delete(scheduleFlush);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('storage', handleStorage);
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      unsubscribes = [];
+      if (pollTimer) clearInterval(pollTimer);
+      pollTimer = null;
+      if (flushTimer) clearTimeout(flushTimer);
+    },
+
+    syncNow,
+
+    resolveConflict(collection, id) {
+      const queue = readQueue();
+      const write = queue.find((w) => w.collection === collection && w.id === id);
+      if (!write?.remote) return;
+      write.base = write.remote;
+      delete write.remote;
+      writeQueue(queue);
+      emitConflicts();
+    },
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Notification Service for Project Manager
+ * Shows browser notifications for task reminders, with an in-app toast fallback
+ */
+
+import type { Reminder } from '../types';
+
+const NOTIFIED_KEY = 'cdfa-project-manager-notified';
+const NOTIFIED_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export function isNotificationSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+export function getNotificationPermission(): NotificationPermission | 'unsupported' {
+  return isNotificationSupported() ? Notification.permission : 'unsupported';
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermission | 'unsupported'> {
+  if (!isNotificationSupported()) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  try {
+    return await Notification.requestPermission();
+  } catch (e) {
+    console.error('[Notifications] Permission request failed:', e);
+    return 'denied';
+  }
+}
+
+function readNotified(): Record<string, number> {
+  try {
+    return JSON.parse(localStorage.getItem(NOTIFIED_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Claim a reminder for notification. Open tabs share the record in localStorage,
+ * so only the first tab to claim a reminder for a user shows it.
+ */
+export function claimReminderNotification(reminderId: string, userId: string | null): boolean {
+  const key = `${userId || 'local'}:${reminderId}`;
+  const notified = readNotified();
+  if (notified[key]) return false;
+
+  // Drop old entries so the record doesn't grow forever
+  const cutoff = Date.now() - NOTIFIED_RETENTION_MS;
+  const kept = Object.fromEntries(Object.entries(notified).filter(([, at]) => at >= cutoff));
+  localStorage.setItem(NOTIFIED_KEY, JSON.stringify({ ...kept, [key]: Date.now() }));
+  return true;
+}
+
+/**
+ * Show a browser notification for a reminder. Returns false when notifications
+ * aren't available or allowed, so the caller can fall back to an in-app toast.
+ */
+export function showReminderNotification(reminder: Reminder, onClick: () => void): boolean {
+  if (getNotificationPermission() !== 'granted') return false;
+
+  try {
+    const notification = new Notification(reminder.title, {
+      body: reminder.message,
+      tag: reminder.id, // Lets the browser replace rather than stack repeats
+    });
+    notification.onclick = () => {
+      window.focus();
+      onClick();
+      notification.close();
+    };
+    return true;
+  } catch (e) {
+    // Some browsers (e.g. Android Chrome) only allow notifications from a service worker
+    console.error('[Notifications] Failed to show notification:', e);
+    return false;
+  }
+}
@@ -0,0 +1,390 @@
+/**
+ * Storage Service for Project Manager
+ * Persists app data in IndexedDB with one object store per entity, so a change only
+ * rewrites the records it touched. Falls back to a single localStorage entry where
+ * IndexedDB isn't available.
+ */
+
+import type {
+  AnyActivity,
+  ChecklistInstance,
+  ClosureDay,
+  CustomActivityType,
+  ProcedureTemplate,
+  ReminderState,
+  StaffMember,
+  UserPreferences,
+} from '../types';
+import { CURRENT_SCHEMA_VERSION, migratePersistedData } from '../utils/schemaMigration';
+import type { DroppedRecord } from '../utils/schemaMigration';
+
+/**
+ * The original single-blob storage key, still used by the localStorage fallback
+ */
+export const LEGACY_STORAGE_KEY = 'cdfa-project-manager-data';
+
+const DB_NAME = 'cdfa-project-manager';
+const DB_VERSION = 1;
+const SETTINGS_STORE = 'settings';
+const MIGRATED_SETTING = 'migratedFromLocalStorage';
+const SCHEMA_VERSION_SETTING = 'schemaVersion';
+// Saved records that failed validation on load, set aside rather than deleted
+const QUARANTINE_SETTING = 'quarantinedRecords';
+const QUARANTINE_STORAGE_KEY = 'cdfa-project-manager-quarantine';
+
+export interface PersistedData {
+  activities: AnyActivity[];
+  checklistInstances: ChecklistInstance[];
+  staffMembers: StaffMember[];
+  customActivityTypes: CustomActivityType[];
+  closureDays: ClosureDay[];
+  procedureTemplates: ProcedureTemplate[]; // Custom templates only
+  currentUserId: string | null;
+  reminderStates: Record<string, Record<string, ReminderState>>; // By user, then reminder ID
+  userPreferences: Record<string, UserPreferences>; // By user
+}
+
+export type EntityStoreName =
+  | 'activities'
+  | 'checklistInstances'
+  | 'staffMembers'
+  | 'customActivityTypes'
+  | 'closureDays'
+  | 'procedureTemplates';
+
+export type SettingName = 'currentUserId' | 'reminderStates' | 'userPreferences';
+
+export const ENTITY_STORES: EntityStoreName[] = [
+  'activities',
+  'checklistInstances',
+  'staffMembers',
+  'customActivityTypes',
+  'closureDays',
+  'procedureTemplates',
+];
+
+const SETTINGS: SettingName[] = ['currentUserId', 'reminderStates', 'userPreferences'];
+
+/**
+ * A batch of record changes to write in one go
+ */
+export interface StorageChanges {
+  put: Partial<Record<EntityStoreName, { id: string }[]>>;
+  delete: Partial<Record<EntityStoreName, string[]>>;
+  settings: Partial<Record<SettingName, unknown>>;
+}
+
+export interface LoadedData {
+  data: PersistedData;
+  droppedRecords: DroppedRecord[]; // Invalid records left out of data and moved to quarantine
+}
+
+export interface StorageEngine {
+  name: 'indexeddb' | 'localstorage';
+  load(): Promise<LoadedData | null>; // null when nothing has been saved yet; throws a DataValidationError for unusable data
+  write(changes: StorageChanges): Promise<void>;
+  replaceAll(data: PersistedData): Promise<void>;
+}
+
+export function createEmptyData(): PersistedData {
+  return {
+    activities: [],
+    checklistInstances: [],
+    staffMembers: [],
+    customActivityTypes: [],
+    closureDays: [],
+    procedureTemplates: [],
+    currentUserId: null,
+    reminderStates: {},
+    userPreferences: {},
+  };
+}
+
+/**
+ * Fill in anything missing from older or partial saves
+ */
+export function normalizeData(data: Partial<PersistedData>): PersistedData {
+  return { ...createEmptyData(), ...data, currentUserId: data.currentUserId || null };
+}
+
+/**
+ * Records that were added or replaced (by reference) and ids that were removed
+ */
+function diffEntities<T extends { id: string }>(previous: T[], next: T[]): { put: T[]; deleted: string[] } {
+  const previousById = new Map(previous.map((item) => [item.id, item]));
+  const nextIds = new Set(next.map((item) => item.id));
+  return {
+    put: next.filter((item) => previousById.get(item.id) !== item),
+    deleted: previous.filter((item) => !nextIds.has(item.id)).map((item) => item.id),
+  };
+}
+
+/**
+ * What has to be written to go from one saved snapshot to the next. The reducer only
+ * replaces records it changes, so comparing references finds the edited ones.
+ */
+export function getStorageChanges(previous: PersistedData, next: PersistedData): StorageChanges | null {
+  const changes: StorageChanges = { put: {}, delete: {}, settings: {} };
+  let hasChanges = false;
+
+  for (const store of ENTITY_STORES) {
+    const { put, deleted } = diffEntities<{ id: string }>(previous[store], next[store]);
+    if (put.length > 0) changes.put[store] = put;
+    if (deleted.length > 0) changes.delete[store] = deleted;
+    hasChanges ||= put.length > 0 || deleted.length > 0;
+  }
+  for (const setting of SETTINGS) {
+    if (previous[setting] !== next[setting]) {
+      changes.settings[setting] = next[setting];
+      hasChanges = true;
+    }
+  }
+  return hasChanges ? changes : null;
+}
+
+/**
+ * Apply a batch of changes to data holding the persisted fields, such as another tab's
+ * edits to this tab's state. Changed records keep their place; new ones are added at the end.
+ */
+export function applyStorageChanges<T extends Pick<PersistedData, EntityStoreName | SettingName>>(
+  data: T,
+  changes: StorageChanges
+): T {
+  const result: Record<string, unknown> = { ...data, ...changes.settings };
+  for (const store of ENTITY_STORES) {
+    const put = changes.put[store] || [];
+    const deleted = new Set(changes.delete[store] || []);
+    if (put.length === 0 && deleted.size === 0) continue;
+
+    const putById = new Map(put.map((item) => [item.id, item]));
+    const records = data[store] as { id: string }[];
+    const existingIds = new Set(records.map((item) => item.id));
+    result[store] = [
+      ...records.filter((item) => !deleted.has(item.id)).map((item) => putById.get(item.id) || item),
+      ...put.filter((item) => !existingIds.has(item.id)),
+    ];
+  }
+  return result as T;
+}
+
+function readLegacyData(): unknown {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error('[Storage] Failed to read saved data:', e);
+    return null;
+  }
+}
+
+/**
+ * Upgrade saved data to the current schema, filling in anything missing. Records that fail
+ * validation are left out, so the rest still loads.
+ */
+function migrateSavedData(raw: unknown): LoadedData & { wasMigrated: boolean } {
+  const { data, fromVersion, droppedRecords } = migratePersistedData(raw, { dropInvalidRecords: true });
+  if (droppedRecords.length > 0) {
+    console.warn('[Storage] Left out saved records that failed validation:', droppedRecords);
+  }
+  return { data: normalizeData(data), droppedRecords, wasMigrated: fromVersion < CURRENT_SCHEMA_VERSION };
+}
+
+function readQuarantine(): DroppedRecord[] {
+  try {
+    return JSON.parse(localStorage.getItem(QUARANTINE_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const store of ENTITY_STORES) {
+        if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SETTINGS_STORE)) db.createObjectStore(SETTINGS_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function createIndexedDBStorage(): StorageEngine {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDatabase = () => (dbPromise ||= openDatabase());
+
+  const writeAll = async (data: PersistedData, extraSettings: Record<string, unknown> = {}) => {
+    const db = await getDatabase();
+    const transaction = db.transaction([...ENTITY_STORES, SETTINGS_STORE], 'readwrite');
+    for (const store of ENTITY_STORES) {
+      const objectStore = transaction.objectStore(store);
+      objectStore.clear();
+      for (const item of data[store]) objectStore.put(item);
+    }
+    const settings = transaction.objectStore(SETTINGS_STORE);
+    for (const setting of SETTINGS) settings.put(data[setting], setting);
+    settings.put(CURRENT_SCHEMA_VERSION, SCHEMA_VERSION_SETTING);
+    for (const [key, value] of Object.entries(extraSettings)) settings.put(value, key);
+    await transactionDone(transaction);
+  };
+
+  // Move invalid records out of their stores, so they are kept but not loaded again
+  const quarantine = async (droppedRecords: DroppedRecord[]) => {
+    const db = await getDatabase();
+    const transaction = db.transaction([...ENTITY_STORES, SETTINGS_STORE], 'readwrite');
+    const settings = transaction.objectStore(SETTINGS_STORE);
+    const existing = ((await promisify(settings.get(QUARANTINE_SETTING))) as DroppedRecord[] | undefined) || [];
+    settings.put([...existing, ...droppedRecords], QUARANTINE_SETTING);
+    for (const { store, record } of droppedRecords) {
+      const id = (record as { id?: unknown } | null)?.id;
+      // Records without a usable key are dropped by the next full write
+      if (typeof id === 'string' && id) transaction.objectStore(store).delete(id);
+    }
+    await transactionDone(transaction);
+  };
+
+  // Copy the old localStorage blob over once, then drop it to free the quota. Data that
+  // can't be migrated is left in place.
+  const migrateLegacyData = async (db: IDBDatabase): Promise<boolean> => {
+    const migrated = await promisify(db.transaction(SETTINGS_STORE).objectStore(SETTINGS_STORE).get(MIGRATED_SETTING));
+    if (migrated) return false;
+
+    const legacy = readLegacyData();
+    if (legacy) {
+      const { data, droppedRecords } = migrateSavedData(legacy);
+      await writeAll(data, {
+        [MIGRATED_SETTING]: new Date().toISOString(),
+        ...(droppedRecords.length > 0 && { [QUARANTINE_SETTING]: droppedRecords }),
+      });
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      return true;
+    }
+    const transaction = db.transaction(SETTINGS_STORE, 'readwrite');
+    transaction.objectStore(SETTINGS_STORE).put(new Date().toISOString(), MIGRATED_SETTING);
+    await transactionDone(transaction);
+    return false;
+  };
+
+  return {
+    name: 'indexeddb',
+
+    async load() {
+      const db = await getDatabase();
+      await migrateLegacyData(db);
+
+      const transaction = db.transaction([...ENTITY_STORES, SETTINGS_STORE]);
+      const settingsStore = transaction.objectStore(SETTINGS_STORE);
+      const [entities, settings, schemaVersion] = await Promise.all([
+        Promise.all(ENTITY_STORES.map((store) => promisify(transaction.objectStore(store).getAll()))),
+        Promise.all(SETTINGS.map((setting) => promisify(settingsStore.get(setting)))),
+        promisify(settingsStore.get(SCHEMA_VERSION_SETTING)),
+      ]);
+      if (entities.every((records) => records.length === 0) && settings.every((value) => value === undefined)) {
+        return null;
+      }
+
+      const saved: Record<string, unknown> = { schemaVersion };
+      ENTITY_STORES.forEach((store, i) => (saved[store] = entities[i]));
+      SETTINGS.forEach((setting, i) => {
+        if (settings[i] !== undefined) saved[setting] = settings[i];
+      });
+
+      const { data, droppedRecords, wasMigrated } = migrateSavedData(saved);
+      if (wasMigrated) {
+        await writeAll(data);
+      }
+      if (droppedRecords.length > 0) {
+        await quarantine(droppedRecords);
+      }
+      return { data, droppedRecords };
+    },
+
+    async write(changes) {
+      const db = await getDatabase();
+      const transaction = db.transaction([...ENTITY_STORES, SETTINGS_STORE], 'readwrite');
+      for (const store of ENTITY_STORES) {
+        const objectStore = transaction.objectStore(store);
+        for (const item of changes.put[store] || []) objectStore.put(item);
+        for (const id of changes.delete[store] || []) objectStore.delete(id);
+      }
+      const settings = transaction.objectStore(SETTINGS_STORE);
+      for (const [setting, value] of Object.entries(changes.settings)) settings.put(value, setting);
+      await transactionDone(transaction);
+    },
+
+    replaceAll(data) {
+      return writeAll(data);
+    },
+  };
+}
+
+/**
+ * Single-blob storage for browsers without IndexedDB; every write saves everything
+ */
+function createLocalStorageStorage(): StorageEngine {
+  let cache: PersistedData | null = null;
+  const getData = () => (cache ||= createEmptyData());
+  const save = () =>
+    localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify({ ...getData(), schemaVersion: CURRENT_SCHEMA_VERSION }));
+
+  return {
+    name: 'localstorage',
+
+    async load() {
+      const saved = readLegacyData();
+      if (!saved) return (cache = null);
+
+      const { data, droppedRecords, wasMigrated } = migrateSavedData(saved);
+      cache = data;
+      if (droppedRecords.length > 0) {
+        localStorage.setItem(QUARANTINE_STORAGE_KEY, JSON.stringify([...readQuarantine(), ...droppedRecords]));
+      }
+      if (wasMigrated || droppedRecords.length > 0) save();
+      return { data, droppedRecords };
+    },
+
+    async write(changes) {
+      cache = applyStorageChanges(getData(), changes);
+      save();
+    },
+
+    async replaceAll(data) {
+      cache = data;
+      save();
+    },
+  };
+}
+
+let storage: StorageEngine | null = null;
+
+/**
+ * The storage engine for this browser
+ */
+export function getStorage(): StorageEngine {
+  if (!storage) {
+    storage = typeof indexedDB !== 'undefined' ? createIndexedDBStorage() : createLocalStorageStorage();
+  }
+  return storage;
+}
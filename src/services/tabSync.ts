@@ -0,0 +1,90 @@
+/**
+ * Tab Sync Service for Project Manager
+ * Keeps every open tab of the app in step. Each tab broadcasts the records it changes so
+ * the others show them straight away. One tab, the leader, writes to storage and runs
+ * team sync and reminder notifications; when it closes another tab takes over.
+ */
+
+import type { Reminder, SyncStatus } from '../types';
+import type { SyncCollection, SyncConflict } from './firestoreSync';
+import type { StorageChanges } from './storage';
+
+const CHANNEL_NAME = 'cdfa-project-manager';
+const LEADER_LOCK_NAME = 'cdfa-project-manager-leader';
+
+export type TabMessage =
+  | { type: 'CHANGES'; changes: StorageChanges } // Records a tab changed
+  | { type: 'SYNC_STATE'; status: SyncStatus; conflicts: SyncConflict[] } // From the leader
+  | { type: 'SYNC_STATE_REQUEST' } // From a tab that just opened, to the leader
+  | { type: 'RESOLVE_CONFLICT'; collection: SyncCollection; id: string; useRemotePaths: string[] } // To the leader
+  | { type: 'REMINDER_TOASTS'; reminders: Reminder[] } // From the leader, for reminders it couldn't show as notifications
+  | { type: 'DATA_REPLACING' } // A backup is being restored; stop saving so the old data isn't written back
+  | { type: 'RELOAD' }; // The saved data was replaced; every tab reloads it
+
+export interface TabChannel {
+  post(message: TabMessage): void;
+  close(): void;
+}
+
+/**
+ * Open the channel shared by this app's tabs. Without BroadcastChannel support each tab
+ * works on its own.
+ */
+export function openTabChannel(onMessage: (message: TabMessage) => void): TabChannel {
+  if (typeof BroadcastChannel === 'undefined') {
+    return { post: () => {}, close: () => {} };
+  }
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<TabMessage>) => onMessage(event.data);
+
+  return {
+    post(message) {
+      try {
+        channel.postMessage(message);
+      } catch (e) {
+        console.error('[TabSync] Failed to broadcast message:', e);
+      }
+    },
+    close() {
+      channel.close();
+    },
+  };
+}
+
+/**
+ * Wait to become the leader tab. The leadership is a Web Lock held until the tab closes
+ * or the returned function is called, so exactly one open tab is leader at a time.
+ * Browsers without Web Locks treat every tab as leader.
+ */
+export function requestTabLeadership(onLeader: () => void): () => void {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    onLeader();
+    return () => {};
+  }
+
+  const controller = new AbortController();
+  let release: (() => void) | null = null;
+
+  navigator.locks
+    .request(LEADER_LOCK_NAME, { signal: controller.signal }, () => {
+      onLeader();
+      return new Promise<void>((resolve) => {
+        release = resolve;
+      });
+    })
+    .catch((e) => {
+      // Aborted while waiting for the lock
+      if (!(e instanceof DOMException && e.name === 'AbortError')) {
+        console.error('[TabSync] Leader lock failed:', e);
+      }
+    });
+
+  return () => {
+    if (release) {
+      release();
+    } else {
+      controller.abort();
+    }
+  };
+}
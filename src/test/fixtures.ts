@@ -0,0 +1,74 @@
+import type { AnyActivity, ChecklistInstance, ChecklistItem, StaffMember } from '../types';
+
+// Records for tests, with every required field set. Pass overrides for the fields under test.
+
+export function createActivity(overrides: Partial<AnyActivity> = {}): AnyActivity {
+  return {
+    id: 'activity-1',
+    activityType: 'trade_show',
+    name: 'Trade Show',
+    description: '',
+    status: 'planning',
+    startDate: '2026-09-01',
+    endDate: '2026-09-03',
+    location: '',
+    locationType: 'international',
+    locations: [],
+    leadStaffId: '',
+    teamMemberIds: [],
+    procedureTemplateId: '',
+    fiscalYear: '2026-27',
+    tags: [],
+    notes: '',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// The id follows the task id unless given, so items of one checklist only need distinct task ids
+export function createItem(overrides: Partial<ChecklistItem> = {}): ChecklistItem {
+  const taskId = overrides.taskId ?? 'task-1';
+  return {
+    id: `item-${taskId}`,
+    taskId,
+    phaseId: 'phase-1',
+    title: taskId,
+    description: '',
+    category: 'administrative',
+    status: 'not_started',
+    dueDate: '2026-08-01',
+    reminderDates: [],
+    isRequired: true,
+    requiresApproval: false,
+    notes: [],
+    attachments: [],
+    ...overrides,
+  };
+}
+
+export function createChecklist(items: ChecklistItem[], overrides: Partial<ChecklistInstance> = {}): ChecklistInstance {
+  return {
+    id: 'checklist-1',
+    activityId: 'activity-1',
+    procedureTemplateId: 'template-1',
+    items,
+    completedCount: items.filter((item) => item.status === 'completed').length,
+    totalCount: items.length,
+    overdueCount: 0,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+export function createStaff(overrides: Partial<StaffMember> = {}): StaffMember {
+  return {
+    id: 'staff-1',
+    name: 'Ana Reyes',
+    email: 'ana@example.com',
+    role: 'specialist',
+    isActive: true,
+    ...overrides,
+  };
+}
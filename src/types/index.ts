@@ -178,6 +178,9 @@ export interface Activity {
   fiscalYear: string;
   tags: string[];
   notes: string;
+  customReminders?: CustomReminder[]; // Ad-hoc reminders on the activity or its checklist items
+  externalUid?: string; // iCalendar UID of the event the activity was imported from
+  revision?: number; // Incremented on every edit; used to detect concurrent edits when syncing
   createdAt: string;
   updatedAt: string;
 
@@ -322,6 +325,13 @@ export interface ProcedurePhase {
   tasks: ProcedureTask[];
 }
 
+// Snapshot of a template's phases as they were at a given version
+export interface ProcedureTemplateVersion {
+  version: string;
+  phases: ProcedurePhase[];
+  createdAt: string;
+}
+
 export interface ProcedureTemplate {
   id: string;
   name: string;
@@ -331,10 +341,19 @@ export interface ProcedureTemplate {
   version: string;
   isActive: boolean;
   phases: ProcedurePhase[];
+  useBusinessDays?: boolean; // Task due offsets count business days, skipping weekends and holidays
+  basedOnTemplateId?: string; // Set when the template was cloned from another template
+  versionHistory?: ProcedureTemplateVersion[]; // Earlier versions, oldest first
   createdAt: string;
   updatedAt: string;
 }
 
+// Why a computed due date was moved to an earlier business day
+export interface DueDateAdjustment {
+  originalDate: string; // YYYY-MM-DD the offset landed on
+  reason: string; // e.g. "Saturday" or a holiday name
+}
+
 // Checklist Instance (actual tracking for an activity)
 export type ChecklistItemStatus =
   | 'not_started'
@@ -359,23 +378,33 @@ export interface ChecklistItem {
   category: TaskCategory;
   status: ChecklistItemStatus;
   dueDate: string;
+  dueDateAdjustment?: DueDateAdjustment; // Set when the due date was rolled off a non-business day
   reminderDates: string[];
   isRequired: boolean;
   requiresApproval: boolean;
+  approverRole?: string; // Inherited from the ProcedureTask
+  estimatedHours?: number; // Inherited from the ProcedureTask
   assigneeId?: string;
   completedAt?: string;
   completedById?: string;
   approvalStatus?: 'pending' | 'approved' | 'rejected';
+  approvalRequestedById?: string;
+  approvalRequestedAt?: string;
   approvedById?: string;
   approvedAt?: string;
   notes: ChecklistNote[];
   attachments: string[];
+  dependsOnTaskIds?: string[]; // Inherited from the ProcedureTask
+  blockedFromStatus?: ChecklistItemStatus; // Status before being blocked automatically by a slipping predecessor
+  dependencyOverride?: boolean; // Set when a user proceeds despite open predecessors
+  revision?: number; // Incremented on every edit; used to detect concurrent edits when syncing
 }
 
 export interface ChecklistInstance {
   id: string;
   activityId: string;
   procedureTemplateId: string;
+  procedureTemplateVersion?: string; // Template version the items were generated from
   items: ChecklistItem[];
   completedCount: number;
   totalCount: number;
@@ -397,10 +426,31 @@ export interface Reminder {
   scheduledFor: string;
   isRead: boolean;
   isDismissed: boolean;
+  snoozedUntil?: string; // yyyy-MM-dd; hidden until this date
   recipientIds: string[];
   createdAt: string;
 }
 
+// A user's read/dismissed/snooze state for one reminder, kept across regenerations
+export interface ReminderState {
+  isRead: boolean;
+  isDismissed: boolean;
+  snoozedUntil?: string;
+}
+
+export type ReminderSnoozeOption = '1_day' | '3_days' | 'until_due';
+
+// A reminder created by hand on an activity or one of its checklist items
+export interface CustomReminder {
+  id: string;
+  checklistItemId?: string;
+  remindOn: string; // YYYY-MM-DD
+  message: string;
+  recipientIds: string[]; // Empty means everyone
+  createdById?: string;
+  createdAt: string;
+}
+
 // Staff/Team
 export type StaffRole = 'admin' | 'manager' | 'coordinator' | 'specialist' | 'viewer';
 
@@ -411,16 +461,33 @@ export interface StaffMember {
   role: StaffRole;
   isActive: boolean;
   avatarUrl?: string;
+  weeklyCapacityHours?: number; // Defaults to DEFAULT_WEEKLY_CAPACITY_HOURS
 }
 
+export type CalendarViewMode = 'week' | 'month' | 'quarter' | 'year' | 'agenda';
+
 export interface UserPreferences {
   userId: string;
-  defaultCalendarView: 'month' | 'quarter' | 'year';
+  defaultCalendarView: CalendarViewMode;
+  agendaWeeks?: number; // How many weeks ahead the agenda view lists
   emailNotifications: boolean;
+  desktopNotifications?: boolean; // Opt-in browser notifications for task reminders
+  quietHoursStart?: string; // HH:mm; no notifications from here...
+  quietHoursEnd?: string; // ...until here (may wrap past midnight)
   reminderDaysBefore: number[];
+  holidayCalendarIds?: string[]; // Holiday calendars always shown on the calendar
+  overlayDestinationHolidays?: boolean; // Also show holidays for countries activities visit
   theme: 'light' | 'dark' | 'system';
 }
 
+// Office closure day added on top of the holiday calendars
+export interface ClosureDay {
+  id: string;
+  date: string; // YYYY-MM-DD
+  name: string;
+  createdAt: string;
+}
+
 // Filtering
 export interface ActivityFilters {
   activityType?: ActivityType; // Specific activity type
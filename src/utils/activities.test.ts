@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createConsultationActivityRecord,
+  createEducationalActivityRecord,
+  createGenericActivityRecord,
+  createTradeActivityRecord,
+} from './activities';
+import { CURRENT_SCHEMA_VERSION, migratePersistedData, validatePersistedData } from './schemaMigration';
+
+describe('new activity records', () => {
+  const activities = [
+    createTradeActivityRecord({ activityType: 'inbound_trade_mission', startDate: '2026-05-04' }, 'staff-1'),
+    createEducationalActivityRecord({ activityType: 'seminar_series', startDate: '2026-05-04' }, 'staff-1'),
+    createConsultationActivityRecord({}, 'staff-1'),
+    createGenericActivityRecord('custom_farm_tour', {}, 'staff-1'),
+  ];
+
+  it('pass validation without the fields the schema migration removes', () => {
+    expect(validatePersistedData({ activities })).toEqual([]);
+    for (const activity of activities) {
+      expect(activity).not.toHaveProperty('format');
+      expect(activity).not.toHaveProperty('eventType');
+    }
+  });
+
+  it('load unchanged at the current schema version', () => {
+    const data = { schemaVersion: CURRENT_SCHEMA_VERSION, activities };
+
+    expect(migratePersistedData(data).data.activities).toEqual(activities);
+  });
+});
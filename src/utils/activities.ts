@@ -0,0 +1,96 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { ActivityType, AnyActivity, ConsultationActivity, EducationalActivity, TradeActivity } from '../types';
+import { getFiscalYear } from './fiscalYear';
+
+// Fields every new activity gets, whatever its category
+function createBaseActivity(data: Partial<AnyActivity>, activityType: ActivityType, leadStaffId: string) {
+  const now = new Date().toISOString();
+  return {
+    id: uuidv4(),
+    activityType,
+    description: data.description || '',
+    status: data.status || 'draft',
+    startDate: data.startDate || '',
+    endDate: data.endDate || data.startDate || '',
+    location: data.location || '',
+    locations: data.locations || [],
+    leadStaffId: data.leadStaffId || leadStaffId,
+    teamMemberIds: data.teamMemberIds || [],
+    procedureTemplateId: data.procedureTemplateId || '',
+    fiscalYear: data.fiscalYear || getFiscalYear(),
+    tags: data.tags || [],
+    notes: data.notes || '',
+    externalUid: data.externalUid,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// New trade activity in the current schema, led by leadStaffId unless data names a lead
+export function createTradeActivityRecord(data: Partial<TradeActivity>, leadStaffId: string): TradeActivity {
+  return {
+    ...createBaseActivity(data, data.activityType || 'trade_show', leadStaffId),
+    type: 'trade_assistance', // Legacy compatibility
+    name: data.name || 'New Trade Activity',
+    locationType: data.locationType || 'international',
+    country: data.country,
+    targetMarket: data.targetMarket || '',
+    commodities: data.commodities || [],
+    suppliers: data.suppliers || [],
+    buyers: data.buyers || [],
+  };
+}
+
+// New educational activity in the current schema; activityType replaces the legacy format field
+export function createEducationalActivityRecord(
+  data: Partial<EducationalActivity>,
+  leadStaffId: string
+): EducationalActivity {
+  return {
+    ...createBaseActivity(data, data.activityType || 'webinar', leadStaffId),
+    type: 'educational', // Legacy compatibility
+    name: data.name || 'New Educational Activity',
+    locationType: data.locationType || 'virtual',
+    topic: data.topic || '',
+    targetAudience: data.targetAudience || [],
+    presenters: data.presenters || [],
+    materials: data.materials || [],
+    registrationRequired: data.registrationRequired ?? true,
+    seriesInfo: data.seriesInfo,
+  };
+}
+
+// New consultation activity in the current schema
+export function createConsultationActivityRecord(
+  data: Partial<ConsultationActivity>,
+  leadStaffId: string
+): ConsultationActivity {
+  return {
+    ...createBaseActivity(data, data.activityType || 'consultation', leadStaffId),
+    name: data.name || 'New Consultation',
+    locationType: data.locationType || 'virtual',
+    consultationType: data.consultationType || 'one_on_one',
+    clientName: data.clientName,
+    clientOrganization: data.clientOrganization,
+    clientEmail: data.clientEmail,
+    clientPhone: data.clientPhone,
+    topics: data.topics || [],
+    outcomes: data.outcomes,
+    followUpRequired: data.followUpRequired,
+    followUpDate: data.followUpDate,
+    duration: data.duration,
+  };
+}
+
+// New activity of a custom type outside the built-in categories
+export function createGenericActivityRecord(
+  activityType: ActivityType,
+  data: Partial<AnyActivity>,
+  leadStaffId: string
+): AnyActivity {
+  return {
+    ...createBaseActivity(data, activityType, leadStaffId),
+    name: data.name || 'New Activity',
+    locationType: data.locationType || 'domestic',
+  };
+}
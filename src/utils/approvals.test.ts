@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { createActivity, createChecklist, createItem } from '../test/fixtures';
+import { applyItemUpdates, canApproveItem, getPendingApprovals, isAwaitingApproval } from './approvals';
+
+describe('canApproveItem', () => {
+  const item = createItem({ requiresApproval: true });
+
+  it('lets managers and admins approve by default', () => {
+    expect(canApproveItem('manager', item)).toBe(true);
+    expect(canApproveItem('admin', item)).toBe(true);
+    expect(canApproveItem('coordinator', item)).toBe(false);
+  });
+
+  it('lets higher roles approve items a lower role can sign off', () => {
+    const coordinatorItem = { ...item, approverRole: 'coordinator' };
+
+    expect(canApproveItem('coordinator', coordinatorItem)).toBe(true);
+    expect(canApproveItem('manager', coordinatorItem)).toBe(true);
+    expect(canApproveItem('specialist', coordinatorItem)).toBe(false);
+  });
+
+  it('never lets viewers approve', () => {
+    expect(canApproveItem('viewer', { ...item, approverRole: 'viewer' })).toBe(false);
+  });
+});
+
+describe('getPendingApprovals', () => {
+  it('lists pending items of existing activities, oldest request first', () => {
+    const later = createItem({
+      taskId: 'sign-contract',
+      requiresApproval: true,
+      approvalStatus: 'pending',
+      approvalRequestedAt: '2026-05-02T09:00:00.000Z',
+    });
+    const earlier = { ...later, id: 'item-budget', approvalRequestedAt: '2026-05-01T09:00:00.000Z' };
+    const approved = { ...later, id: 'item-approved', approvalStatus: 'approved' as const };
+    const checklists = [
+      createChecklist([later, approved, earlier]),
+      createChecklist([{ ...later, id: 'item-orphan' }], { id: 'checklist-2', activityId: 'deleted-activity' }),
+    ];
+
+    const pending = getPendingApprovals(checklists, [createActivity()]);
+    expect(pending.map(({ item }) => item.id)).toEqual(['item-budget', later.id]);
+  });
+});
+
+describe('applyItemUpdates', () => {
+  const approved = createItem({
+    requiresApproval: true,
+    status: 'completed',
+    completedAt: '2026-05-03T09:00:00.000Z',
+    completedById: 'staff-1',
+    approvalStatus: 'approved',
+    approvedById: 'staff-2',
+    approvedAt: '2026-05-03T09:00:00.000Z',
+  });
+
+  it('needs a new sign-off to complete an approved item again after reopening it', () => {
+    const reopened = applyItemUpdates(approved, { status: 'in_progress' });
+    expect(reopened).toMatchObject({ status: 'in_progress', approvalStatus: undefined, approvedById: undefined });
+    expect(reopened.completedAt).toBeUndefined();
+    expect(isAwaitingApproval(reopened)).toBe(true);
+
+    // Completing it goes through submitForApproval, which leaves it pending review
+    const submitted = applyItemUpdates(reopened, {
+      approvalStatus: 'pending',
+      approvalRequestedAt: '2026-05-04T09:00:00.000Z',
+    });
+    expect(submitted.status).toBe('in_progress');
+    const pending = getPendingApprovals([createChecklist([submitted])], [createActivity()]);
+    expect(pending.map(({ item }) => item.id)).toEqual([approved.id]);
+  });
+
+  it('keeps the sign-off on edits that leave the item completed', () => {
+    expect(applyItemUpdates(approved, { notes: [] })).toMatchObject({ approvalStatus: 'approved', status: 'completed' });
+  });
+});
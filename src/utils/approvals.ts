@@ -0,0 +1,70 @@
+import type { AnyActivity, ChecklistInstance, ChecklistItem, StaffRole } from '../types';
+
+// Default approver when a task requires approval without naming a role
+export const DEFAULT_APPROVER_ROLE: StaffRole = 'manager';
+
+// Higher roles can sign off on anything a lower role can approve; viewers cannot approve
+const APPROVER_RANK: Record<StaffRole, number> = {
+  admin: 4,
+  manager: 3,
+  coordinator: 2,
+  specialist: 1,
+  viewer: 0,
+};
+
+// Get the role required to approve an item
+export function getRequiredApproverRole(item: ChecklistItem): StaffRole {
+  const role = item.approverRole as StaffRole | undefined;
+  return role && role in APPROVER_RANK ? role : DEFAULT_APPROVER_ROLE;
+}
+
+// Whether a staff role may approve an item
+export function canApproveItem(role: StaffRole | undefined, item: ChecklistItem): boolean {
+  if (!role || role === 'viewer') return false;
+  return APPROVER_RANK[role] >= APPROVER_RANK[getRequiredApproverRole(item)];
+}
+
+// Items that require approval cannot be completed until approved
+export function isAwaitingApproval(item: ChecklistItem): boolean {
+  return item.requiresApproval && item.approvalStatus !== 'approved';
+}
+
+// Apply edits to an item. An item moved out of 'completed' is no longer done, and an approved
+// one loses its sign-off, so completing it again goes back for approval.
+export function applyItemUpdates(item: ChecklistItem, updates: Partial<ChecklistItem>): ChecklistItem {
+  const updated = { ...item, ...updates };
+  if (item.status !== 'completed' || updated.status === 'completed') return updated;
+
+  const reopened: ChecklistItem = { ...updated, completedAt: undefined, completedById: undefined };
+  if (reopened.approvalStatus !== 'approved') return reopened;
+  return { ...reopened, approvalStatus: undefined, approvedById: undefined, approvedAt: undefined };
+}
+
+export interface PendingApproval {
+  activity: AnyActivity;
+  checklist: ChecklistInstance;
+  item: ChecklistItem;
+}
+
+// Collect items submitted for approval, oldest request first
+export function getPendingApprovals(
+  checklists: ChecklistInstance[],
+  activities: AnyActivity[]
+): PendingApproval[] {
+  const pending: PendingApproval[] = [];
+
+  for (const checklist of checklists) {
+    const activity = activities.find((a) => a.id === checklist.activityId);
+    if (!activity) continue;
+
+    for (const item of checklist.items) {
+      if (item.requiresApproval && item.approvalStatus === 'pending') {
+        pending.push({ activity, checklist, item });
+      }
+    }
+  }
+
+  return pending.sort((a, b) =>
+    (a.item.approvalRequestedAt || '').localeCompare(b.item.approvalRequestedAt || '')
+  );
+}
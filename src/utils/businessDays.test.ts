@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { format, parseISO } from 'date-fns';
+import { createHolidayLookup, rollToPreviousBusinessDay } from './businessDays';
+import { getRescheduleWarnings } from './reschedule';
+
+const closureDays = [{ id: 'closure-1', date: '2026-03-11', name: 'Office move', createdAt: '2026-01-01T00:00:00.000Z' }];
+
+describe('createHolidayLookup', () => {
+  it('rolls due dates off closure days', () => {
+    const { date, adjustment } = rollToPreviousBusinessDay(parseISO('2026-03-11'), createHolidayLookup(undefined, closureDays));
+
+    expect(format(date, 'yyyy-MM-dd')).toBe('2026-03-10');
+    expect(adjustment?.reason).toBe('Office move');
+  });
+
+  it('uses the selected office calendars but not destination calendars', () => {
+    // Juneteenth is a federal holiday but not a California state one; Jan 2 is only a holiday in Japan
+    expect(createHolidayLookup(['ca-state'])('2026-06-19')).toBeUndefined();
+    expect(createHolidayLookup(['ca-state', 'us-federal'])('2026-06-19')?.name).toBe('Juneteenth');
+    expect(createHolidayLookup(['japan'])('2026-01-02')).toBeUndefined();
+  });
+
+  it('warns when a reschedule lands on a closure day', () => {
+    const dates = { startDate: '2026-03-11', endDate: '2026-03-12' };
+
+    expect(getRescheduleWarnings(dates, createHolidayLookup(undefined, closureDays))).toEqual(['Starts on Office move']);
+  });
+});
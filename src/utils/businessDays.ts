@@ -0,0 +1,114 @@
+import { addDays, format, getDay, parseISO } from 'date-fns';
+import type { AnyActivity, ChecklistInstance, ChecklistItem, ClosureDay, DueDateAdjustment } from '../types';
+import {
+  DEFAULT_HOLIDAY_CALENDAR_IDS,
+  HOLIDAY_CALENDARS,
+  getCAStateHolidays,
+  getHolidaysForYears,
+  type Holiday,
+} from './holidays';
+
+// Looks up the holiday (if any) observed on a yyyy-MM-dd date
+export type HolidayLookup = (dateStr: string) => Holiday | undefined;
+
+const holidaysByYear = new Map<number, Map<string, Holiday>>();
+
+// California state holidays, computed once per year
+export const getCAStateHoliday: HolidayLookup = (dateStr) => {
+  const year = Number(dateStr.slice(0, 4));
+  let holidays = holidaysByYear.get(year);
+  if (!holidays) {
+    holidays = new Map(getCAStateHolidays(year).map((h) => [h.date, h]));
+    holidaysByYear.set(year, holidays);
+  }
+  return holidays.get(dateStr);
+};
+
+// Days the office is closed: holidays on the selected calendars plus office closure days.
+// Destination calendars are left out; they only mark dates abroad.
+export function createHolidayLookup(
+  calendarIds: string[] = DEFAULT_HOLIDAY_CALENDAR_IDS,
+  closureDays: ClosureDay[] = []
+): HolidayLookup {
+  const officeCalendarIds = HOLIDAY_CALENDARS.filter((c) => !c.foreign && calendarIds.includes(c.id)).map((c) => c.id);
+  const byYear = new Map<number, Map<string, Holiday[]>>();
+  return (dateStr) => {
+    const year = Number(dateStr.slice(0, 4));
+    let holidays = byYear.get(year);
+    if (!holidays) {
+      holidays = getHolidaysForYears(year, year, officeCalendarIds, closureDays);
+      byYear.set(year, holidays);
+    }
+    return holidays.get(dateStr)?.[0];
+  };
+}
+
+// Why a date is not a business day, or null when it is one
+export function getNonBusinessDayReason(date: Date, getHoliday: HolidayLookup = getCAStateHoliday): string | null {
+  const day = getDay(date);
+  if (day === 0) return 'Sunday';
+  if (day === 6) return 'Saturday';
+  return getHoliday(format(date, 'yyyy-MM-dd'))?.name ?? null;
+}
+
+export function isBusinessDay(date: Date, getHoliday: HolidayLookup = getCAStateHoliday): boolean {
+  return getNonBusinessDayReason(date, getHoliday) === null;
+}
+
+// Move a number of business days from a date (negative moves backwards)
+export function addBusinessDays(date: Date, amount: number, getHoliday: HolidayLookup = getCAStateHoliday): Date {
+  const step = amount < 0 ? -1 : 1;
+  let remaining = Math.abs(amount);
+  let current = date;
+  while (remaining > 0) {
+    current = addDays(current, step);
+    if (isBusinessDay(current, getHoliday)) remaining--;
+  }
+  return current;
+}
+
+// Roll a due date that falls on a weekend or holiday back to the previous business day
+export function rollToPreviousBusinessDay(
+  date: Date,
+  getHoliday: HolidayLookup = getCAStateHoliday
+): { date: Date; adjustment?: DueDateAdjustment } {
+  const reason = getNonBusinessDayReason(date, getHoliday);
+  if (!reason) return { date };
+
+  let rolled = addDays(date, -1);
+  while (!isBusinessDay(rolled, getHoliday)) {
+    rolled = addDays(rolled, -1);
+  }
+  return { date: rolled, adjustment: { originalDate: format(date, 'yyyy-MM-dd'), reason } };
+}
+
+// Short explanation of a due date shift, e.g. "Moved from Sat, Nov 11 (Veterans Day)"
+export function describeDueDateAdjustment(adjustment: DueDateAdjustment): string {
+  return `Moved from ${format(parseISO(adjustment.originalDate), 'EEE, MMM d')} (${adjustment.reason})`;
+}
+
+export interface ShiftedDueDate {
+  activity: AnyActivity;
+  item: ChecklistItem;
+  adjustment: DueDateAdjustment;
+}
+
+// Open checklist items whose due dates were rolled off a non-business day, keyed by their due date
+export function getShiftedDueDates(
+  checklists: ChecklistInstance[],
+  activities: AnyActivity[]
+): Map<string, ShiftedDueDate[]> {
+  const byDate = new Map<string, ShiftedDueDate[]>();
+  for (const checklist of checklists) {
+    const activity = activities.find((a) => a.id === checklist.activityId);
+    if (!activity) continue;
+
+    for (const item of checklist.items) {
+      if (!item.dueDateAdjustment || item.status === 'completed' || item.status === 'skipped') continue;
+      const list = byDate.get(item.dueDate) || [];
+      list.push({ activity, item, adjustment: item.dueDateAdjustment });
+      byDate.set(item.dueDate, list);
+    }
+  }
+  return byDate;
+}
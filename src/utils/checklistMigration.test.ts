@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { tradeShowProcedure } from '../data/defaultProcedures';
+import { createActivity } from '../test/fixtures';
+import { cloneTemplate, createBlankTask, createTemplateRevision, findProcedureTemplate } from './procedureTemplates';
+import { generateChecklistFromTemplate } from './reminderScheduler';
+import { applyTemplateDiff, getChecklistUpgrade } from './checklistMigration';
+
+describe('checklist upgrades from a custom template', () => {
+  const customTemplate = cloneTemplate(tradeShowProcedure, { name: 'Our Trade Show' });
+
+  it('generates the checklist from the template picked for the activity', () => {
+    const activity = createActivity({ procedureTemplateId: customTemplate.id });
+    const templates = [tradeShowProcedure, customTemplate];
+
+    expect(findProcedureTemplate(activity, templates, [])?.id).toBe(customTemplate.id);
+  });
+
+  it('uses an active custom template for the type when none was picked', () => {
+    const activity = createActivity();
+
+    expect(findProcedureTemplate(activity, [tradeShowProcedure, customTemplate], [])?.id).toBe(customTemplate.id);
+    expect(
+      findProcedureTemplate(activity, [tradeShowProcedure, { ...customTemplate, isActive: false }], [])?.id
+    ).toBe(tradeShowProcedure.id);
+  });
+
+  it('offers an upgrade once the linked template is edited', () => {
+    const activity = createActivity({ procedureTemplateId: customTemplate.id });
+    const checklist = generateChecklistFromTemplate(activity, customTemplate);
+    expect(getChecklistUpgrade(checklist, customTemplate)).toBeNull();
+
+    const [firstPhase, ...otherPhases] = customTemplate.phases;
+    const newTask = { ...createBlankTask(firstPhase.tasks.length + 1, -10), title: 'Book booth furniture' };
+    const edited = {
+      ...customTemplate,
+      ...createTemplateRevision(customTemplate, {
+        phases: [{ ...firstPhase, tasks: [...firstPhase.tasks, newTask] }, ...otherPhases],
+      }),
+    };
+
+    const upgrade = getChecklistUpgrade(checklist, edited);
+    expect(upgrade).not.toBeNull();
+    expect(upgrade?.fromVersion).toBe('1.0');
+    expect(upgrade?.toVersion).toBe('1.1');
+    expect(upgrade?.added.map((a) => a.task.title)).toEqual(['Book booth furniture']);
+    expect(upgrade?.removed).toEqual([]);
+    expect(upgrade?.changed).toEqual([]);
+  });
+
+  it('updates items whose estimated hours changed in the template', () => {
+    const activity = createActivity({ procedureTemplateId: customTemplate.id });
+    const checklist = generateChecklistFromTemplate(activity, customTemplate);
+    const [firstPhase, ...otherPhases] = customTemplate.phases;
+    const [firstTask, ...otherTasks] = firstPhase.tasks;
+    const edited = {
+      ...customTemplate,
+      ...createTemplateRevision(customTemplate, {
+        phases: [{ ...firstPhase, tasks: [{ ...firstTask, estimatedHours: 12 }, ...otherTasks] }, ...otherPhases],
+      }),
+    };
+
+    const upgrade = getChecklistUpgrade(checklist, edited)!;
+    expect(upgrade.changed.map(({ task, fields }) => [task.id, fields])).toEqual([[firstTask.id, ['estimatedHours']]]);
+    const upgraded = applyTemplateDiff(checklist, activity, edited, upgrade);
+    expect(upgraded.items.find((item) => item.taskId === firstTask.id)?.estimatedHours).toBe(12);
+  });
+});
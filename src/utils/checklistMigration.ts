@@ -0,0 +1,183 @@
+import { parseISO } from 'date-fns';
+import type {
+  Activity,
+  ChecklistInstance,
+  ChecklistItem,
+  ProcedureTask,
+  ProcedureTemplate,
+} from '../types';
+import { createChecklistItem, getTaskDates, updateChecklistCounts } from './reminderScheduler';
+import { getCAStateHoliday, type HolidayLookup } from './businessDays';
+import { getTemplateAtVersion, INITIAL_TEMPLATE_VERSION } from './procedureTemplates';
+
+export type ChecklistItemChangeField =
+  | 'title'
+  | 'description'
+  | 'category'
+  | 'isRequired'
+  | 'estimatedHours'
+  | 'requiresApproval'
+  | 'phase'
+  | 'dependencies'
+  | 'dueDate';
+
+export interface ChecklistTemplateDiff {
+  fromVersion: string;
+  toVersion: string;
+  added: Array<{ phaseId: string; task: ProcedureTask }>;
+  // Removed items with progress (status, notes, assignee) are kept rather than deleted
+  removed: Array<{ item: ChecklistItem; willBeKept: boolean }>;
+  changed: Array<{ item: ChecklistItem; phaseId: string; task: ProcedureTask; fields: ChecklistItemChangeField[] }>;
+}
+
+// Whether the checklist was generated from an older version of its template
+export function isChecklistOutdated(checklist: ChecklistInstance, template: ProcedureTemplate): boolean {
+  return (checklist.procedureTemplateVersion ?? INITIAL_TEMPLATE_VERSION) !== template.version;
+}
+
+// The changes to offer when the checklist's template has a newer version, otherwise null
+export function getChecklistUpgrade(
+  checklist: ChecklistInstance,
+  template: ProcedureTemplate
+): ChecklistTemplateDiff | null {
+  return isChecklistOutdated(checklist, template) ? diffChecklistWithTemplate(checklist, template) : null;
+}
+
+// An item has progress worth keeping if anyone has worked on it
+export function hasItemProgress(item: ChecklistItem): boolean {
+  return (
+    item.status !== 'not_started' ||
+    item.notes.length > 0 ||
+    item.attachments.length > 0 ||
+    !!item.assigneeId ||
+    !!item.approvalStatus
+  );
+}
+
+function indexTasks(template: ProcedureTemplate): Map<string, { phaseId: string; task: ProcedureTask }> {
+  const tasks = new Map<string, { phaseId: string; task: ProcedureTask }>();
+  for (const phase of template.phases) {
+    for (const task of phase.tasks) {
+      tasks.set(task.id, { phaseId: phase.id, task });
+    }
+  }
+  return tasks;
+}
+
+// Compare a checklist against the latest version of its template, matching items by taskId.
+// Due dates are only reported as changed when the task's dueOffset changed between the
+// pinned and latest versions, so manually adjusted dates are not treated as template changes.
+export function diffChecklistWithTemplate(
+  checklist: ChecklistInstance,
+  template: ProcedureTemplate
+): ChecklistTemplateDiff {
+  const pinnedTasks = indexTasks(getTemplateAtVersion(template, checklist.procedureTemplateVersion));
+  const latestTasks = indexTasks(template);
+  const itemTaskIds = new Set(checklist.items.map((item) => item.taskId));
+
+  const diff: ChecklistTemplateDiff = {
+    fromVersion: checklist.procedureTemplateVersion ?? INITIAL_TEMPLATE_VERSION,
+    toVersion: template.version,
+    added: [],
+    removed: [],
+    changed: [],
+  };
+
+  for (const [taskId, entry] of latestTasks) {
+    if (!itemTaskIds.has(taskId)) {
+      diff.added.push(entry);
+    }
+  }
+
+  for (const item of checklist.items) {
+    const latest = latestTasks.get(item.taskId);
+    if (!latest) {
+      // Only tasks that came from the template count as removed
+      if (pinnedTasks.has(item.taskId)) {
+        diff.removed.push({ item, willBeKept: hasItemProgress(item) });
+      }
+      continue;
+    }
+
+    const { task, phaseId } = latest;
+    const fields: ChecklistItemChangeField[] = [];
+    if (item.title !== task.title) fields.push('title');
+    if (item.description !== task.description) fields.push('description');
+    if (item.category !== task.category) fields.push('category');
+    if (item.isRequired !== task.isRequired) fields.push('isRequired');
+    if (item.estimatedHours !== task.estimatedHours) fields.push('estimatedHours');
+    if (item.requiresApproval !== task.requiresApproval || item.approverRole !== task.approverRole) {
+      fields.push('requiresApproval');
+    }
+    if (item.phaseId !== phaseId) fields.push('phase');
+    if ((item.dependsOnTaskIds || []).join(',') !== task.dependsOnTaskIds.join(',')) fields.push('dependencies');
+
+    const pinned = pinnedTasks.get(item.taskId)?.task;
+    if (
+      pinned &&
+      (pinned.dueOffset !== task.dueOffset ||
+        pinned.reminderOffsets.join(',') !== task.reminderOffsets.join(','))
+    ) {
+      fields.push('dueDate');
+    }
+
+    if (fields.length > 0) {
+      diff.changed.push({ item, phaseId, task, fields });
+    }
+  }
+
+  return diff;
+}
+
+// Merge a template diff into a checklist. Status, notes, assignees, completion and
+// approval details of existing items are always preserved.
+export function applyTemplateDiff(
+  checklist: ChecklistInstance,
+  activity: Activity,
+  template: ProcedureTemplate,
+  diff: ChecklistTemplateDiff,
+  getHoliday: HolidayLookup = getCAStateHoliday
+): ChecklistInstance {
+  const hasStartDate = !!activity.startDate;
+  const activityStart = hasStartDate ? parseISO(activity.startDate) : null;
+  const changedById = new Map(diff.changed.map((c) => [c.item.id, c]));
+  const removedIds = new Set(diff.removed.filter((r) => !r.willBeKept).map((r) => r.item.id));
+
+  const items: ChecklistItem[] = checklist.items
+    .filter((item) => !removedIds.has(item.id))
+    .map((item) => {
+      const change = changedById.get(item.id);
+      if (!change) return item;
+
+      const { task, phaseId } = change;
+      return {
+        ...item,
+        phaseId,
+        title: task.title,
+        description: task.description,
+        category: task.category,
+        isRequired: task.isRequired,
+        requiresApproval: task.requiresApproval,
+        approverRole: task.approverRole,
+        estimatedHours: task.estimatedHours,
+        dependsOnTaskIds: [...task.dependsOnTaskIds],
+        ...(change.fields.includes('dueDate') && activityStart
+          ? getTaskDates(task, activityStart, template.useBusinessDays, getHoliday)
+          : {}),
+      };
+    });
+
+  if (activityStart) {
+    for (const { task, phaseId } of diff.added) {
+      items.push(createChecklistItem(task, phaseId, activityStart, template.useBusinessDays, getHoliday));
+    }
+  }
+
+  return updateChecklistCounts({
+    ...checklist,
+    procedureTemplateId: template.id,
+    procedureTemplateVersion: template.version,
+    items,
+    totalCount: items.length,
+  });
+}
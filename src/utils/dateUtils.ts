@@ -13,6 +13,7 @@ import {
   isAfter,
   isBefore,
   isWithinInterval,
+  isValid,
   startOfDay,
 } from 'date-fns';
 
@@ -63,6 +64,16 @@ export function formatShortDate(dateStr: string): string {
   return format(parseISO(dateStr), 'MMM d');
 }
 
+// Earliest year a typed date is taken as finished, rather than a year still being entered
+const MIN_ENTERED_YEAR = 1900;
+
+// Check if a date input holds a whole, real YYYY-MM-DD date
+export function isCompleteDate(dateStr: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) return false;
+  const date = parseISO(dateStr);
+  return isValid(date) && date.getFullYear() >= MIN_ENTERED_YEAR;
+}
+
 // Get current date in YYYY-MM-DD format
 export function getCurrentDate(): string {
   return format(new Date(), 'yyyy-MM-dd');
@@ -0,0 +1,64 @@
+import { addDays, format, parseISO } from 'date-fns';
+import type { AnyActivity, ChecklistInstance, ChecklistItem, ProcedurePhase, ProcedureTemplate } from '../types';
+import { getTasksByPhase, getPhaseStatus } from './reminderScheduler';
+import { getTemplateAtVersion } from './procedureTemplates';
+
+export interface GanttPhase {
+  phase: ProcedurePhase;
+  startDate: string; // Phase window from the template offsets
+  endDate: string;
+  status: 'not_started' | 'in_progress' | 'completed';
+  items: ChecklistItem[];
+}
+
+export interface GanttDependency {
+  from: ChecklistItem; // Predecessor
+  to: ChecklistItem;
+  isSlipped: boolean; // Predecessor is due after the item that waits on it
+}
+
+// Phase windows and their checklist items for an activity, using the template version
+// the checklist was generated from. Phases that are no longer in the template span their items.
+export function getGanttPhases(
+  activity: AnyActivity,
+  checklist: ChecklistInstance | undefined,
+  templates: ProcedureTemplate[]
+): GanttPhase[] {
+  if (!checklist || !activity.startDate) return [];
+  const template = templates.find((t) => t.id === checklist.procedureTemplateId);
+  if (!template) return [];
+
+  const activityStart = parseISO(activity.startDate);
+  const phases = getTasksByPhase(checklist, getTemplateAtVersion(template, checklist.procedureTemplateVersion));
+
+  return Array.from(phases.values())
+    .filter(({ items }) => items.length > 0)
+    .sort((a, b) => a.phase.order - b.phase.order)
+    .map(({ phase, items }) => {
+      const isTemplatePhase = phase.tasks.length > 0;
+      const dueDates = items.map((item) => item.dueDate).sort();
+      return {
+        phase,
+        startDate: isTemplatePhase
+          ? format(addDays(activityStart, phase.startOffset), 'yyyy-MM-dd')
+          : dueDates[0] || activity.startDate,
+        endDate: isTemplatePhase
+          ? format(addDays(activityStart, phase.endOffset), 'yyyy-MM-dd')
+          : dueDates[dueDates.length - 1] || activity.startDate,
+        status: getPhaseStatus(items),
+        items,
+      };
+    });
+}
+
+// Dependency links between the items of a checklist
+export function getGanttDependencies(checklist: ChecklistInstance | undefined): GanttDependency[] {
+  if (!checklist) return [];
+  const byTaskId = new Map(checklist.items.map((item) => [item.taskId, item]));
+  return checklist.items.flatMap((item) =>
+    (item.dependsOnTaskIds || []).flatMap((taskId) => {
+      const from = byTaskId.get(taskId);
+      return from ? [{ from, to: item, isSlipped: from.dueDate > item.dueDate }] : [];
+    })
+  );
+}
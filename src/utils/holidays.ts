@@ -1,11 +1,24 @@
-import { format, getDay, addDays } from 'date-fns';
+import { format, getDay, addDays, parseISO, eachDayOfInterval } from 'date-fns';
+import type { AnyActivity, ActivityLocation, ClosureDay } from '../types';
 
 export interface Holiday {
   date: string; // yyyy-MM-dd format
   name: string;
   shortName: string;
+  calendarId?: string; // Calendar the holiday belongs to
+  observance?: boolean; // Business slows down but offices stay open (e.g. Ramadan)
 }
 
+export interface HolidayCalendar {
+  id: string;
+  name: string;
+  foreign: boolean; // Destination market calendar rather than one our offices observe
+  countries: string[]; // Lowercase country names that bring this calendar into view
+  getHolidays: (year: number) => Holiday[];
+}
+
+export const CLOSURE_CALENDAR_ID = 'closures';
+
 /**
  * Get the nth occurrence of a weekday in a month
  * @param year - The year
@@ -138,24 +151,296 @@ export function getCAStateHolidays(year: number): Holiday[] {
 }
 
 /**
- * Get holidays for a range of years
+ * Get US federal holidays for a given year
+ * Reference: https://www.opm.gov/policy-data-oversight/pay-leave/federal-holidays/
+ */
+export function getUSFederalHolidays(year: number): Holiday[] {
+  return [
+    { date: `${year}-01-01`, name: "New Year's Day", shortName: 'New Year' },
+    { date: format(getNthWeekdayOfMonth(year, 0, 1, 3), 'yyyy-MM-dd'), name: 'Martin Luther King Jr. Day', shortName: 'MLK Day' },
+    { date: format(getNthWeekdayOfMonth(year, 1, 1, 3), 'yyyy-MM-dd'), name: "Washington's Birthday", shortName: 'Presidents' },
+    { date: format(getNthWeekdayOfMonth(year, 4, 1, -1), 'yyyy-MM-dd'), name: 'Memorial Day', shortName: 'Memorial' },
+    { date: `${year}-06-19`, name: 'Juneteenth', shortName: 'Juneteenth' },
+    { date: `${year}-07-04`, name: 'Independence Day', shortName: 'July 4th' },
+    { date: format(getNthWeekdayOfMonth(year, 8, 1, 1), 'yyyy-MM-dd'), name: 'Labor Day', shortName: 'Labor Day' },
+    { date: format(getNthWeekdayOfMonth(year, 9, 1, 2), 'yyyy-MM-dd'), name: 'Columbus Day', shortName: 'Columbus' },
+    { date: `${year}-11-11`, name: 'Veterans Day', shortName: 'Veterans' },
+    { date: format(getNthWeekdayOfMonth(year, 10, 4, 4), 'yyyy-MM-dd'), name: 'Thanksgiving Day', shortName: 'Thanksgiving' },
+    { date: `${year}-12-25`, name: 'Christmas Day', shortName: 'Christmas' },
+  ];
+}
+
+// Lunisolar and Islamic holidays move every year, so they come from published tables.
+// Years outside the tables simply have no entry for these holidays.
+const LUNAR_NEW_YEAR: Record<number, string> = {
+  2024: '2024-02-10', 2025: '2025-01-29', 2026: '2026-02-17', 2027: '2027-02-06',
+  2028: '2028-01-26', 2029: '2029-02-13', 2030: '2030-02-03',
+};
+const QINGMING: Record<number, string> = {
+  2024: '2024-04-04', 2025: '2025-04-04', 2026: '2026-04-05', 2027: '2027-04-05',
+  2028: '2028-04-04', 2029: '2029-04-04', 2030: '2030-04-05',
+};
+const DRAGON_BOAT: Record<number, string> = {
+  2024: '2024-06-10', 2025: '2025-05-31', 2026: '2026-06-19', 2027: '2027-06-09',
+  2028: '2028-05-28', 2029: '2029-06-16', 2030: '2030-06-05',
+};
+const MID_AUTUMN: Record<number, string> = {
+  2024: '2024-09-17', 2025: '2025-10-06', 2026: '2026-09-25', 2027: '2027-09-15',
+  2028: '2028-10-03', 2029: '2029-09-22', 2030: '2030-09-12',
+};
+const RAMADAN_START: Record<number, string> = {
+  2024: '2024-03-11', 2025: '2025-03-01', 2026: '2026-02-18', 2027: '2027-02-08',
+  2028: '2028-01-28', 2029: '2029-01-16', 2030: '2030-01-06',
+};
+const EID_AL_FITR: Record<number, string> = {
+  2024: '2024-04-10', 2025: '2025-03-30', 2026: '2026-03-20', 2027: '2027-03-09',
+  2028: '2028-02-26', 2029: '2029-02-14', 2030: '2030-02-04',
+};
+const EID_AL_ADHA: Record<number, string> = {
+  2024: '2024-06-16', 2025: '2025-06-06', 2026: '2026-05-27', 2027: '2027-05-16',
+  2028: '2028-05-05', 2029: '2029-04-24', 2030: '2030-04-13',
+};
+
+// A holiday observed over consecutive days, starting `offset` days from an anchor date
+function holidayRun(
+  anchor: string | undefined,
+  offset: number,
+  days: number,
+  name: string,
+  shortName: string,
+  observance = false
+): Holiday[] {
+  if (!anchor) return [];
+  const start = addDays(parseISO(anchor), offset);
+  return Array.from({ length: days }, (_, i) => ({
+    date: format(addDays(start, i), 'yyyy-MM-dd'),
+    name,
+    shortName,
+    ...(observance && { observance }),
+  }));
+}
+
+function getChinaHolidays(year: number): Holiday[] {
+  return [
+    { date: `${year}-01-01`, name: "New Year's Day", shortName: 'New Year' },
+    ...holidayRun(LUNAR_NEW_YEAR[year], -1, 8, 'Spring Festival (Lunar New Year)', 'Spring Fest.'),
+    ...holidayRun(QINGMING[year], 0, 1, 'Qingming Festival', 'Qingming'),
+    ...holidayRun(`${year}-05-01`, 0, 5, 'Labor Day Golden Week', 'Labor Day'),
+    ...holidayRun(DRAGON_BOAT[year], 0, 1, 'Dragon Boat Festival', 'Dragon Boat'),
+    ...holidayRun(MID_AUTUMN[year], 0, 1, 'Mid-Autumn Festival', 'Mid-Autumn'),
+    ...holidayRun(`${year}-10-01`, 0, 7, 'National Day Golden Week', 'National Day'),
+  ];
+}
+
+function getJapanHolidays(year: number): Holiday[] {
+  return [
+    ...holidayRun(`${year}-01-01`, 0, 3, 'New Year Holidays', 'New Year'),
+    { date: format(getNthWeekdayOfMonth(year, 0, 1, 2), 'yyyy-MM-dd'), name: 'Coming of Age Day', shortName: 'Coming of Age' },
+    { date: `${year}-02-11`, name: 'National Foundation Day', shortName: 'Foundation' },
+    { date: `${year}-02-23`, name: "Emperor's Birthday", shortName: 'Emperor' },
+    { date: `${year}-04-29`, name: 'Showa Day (Golden Week)', shortName: 'Golden Week' },
+    ...holidayRun(`${year}-05-03`, 0, 3, 'Golden Week', 'Golden Week'),
+    { date: format(getNthWeekdayOfMonth(year, 6, 1, 3), 'yyyy-MM-dd'), name: 'Marine Day', shortName: 'Marine Day' },
+    { date: `${year}-08-11`, name: 'Mountain Day', shortName: 'Mountain Day' },
+    ...holidayRun(`${year}-08-13`, 0, 4, 'Obon (many businesses closed)', 'Obon'),
+    { date: format(getNthWeekdayOfMonth(year, 8, 1, 3), 'yyyy-MM-dd'), name: 'Respect for the Aged Day', shortName: 'Aged Day' },
+    { date: format(getNthWeekdayOfMonth(year, 9, 1, 2), 'yyyy-MM-dd'), name: 'Sports Day', shortName: 'Sports Day' },
+    { date: `${year}-11-03`, name: 'Culture Day', shortName: 'Culture Day' },
+    { date: `${year}-11-23`, name: 'Labor Thanksgiving Day', shortName: 'Labor Thanks' },
+  ];
+}
+
+function getSouthKoreaHolidays(year: number): Holiday[] {
+  return [
+    { date: `${year}-01-01`, name: "New Year's Day", shortName: 'New Year' },
+    ...holidayRun(LUNAR_NEW_YEAR[year], -1, 3, 'Seollal (Lunar New Year)', 'Seollal'),
+    { date: `${year}-03-01`, name: 'Independence Movement Day', shortName: 'Samiljeol' },
+    { date: `${year}-05-05`, name: "Children's Day", shortName: "Children's" },
+    { date: `${year}-06-06`, name: 'Memorial Day', shortName: 'Memorial' },
+    { date: `${year}-08-15`, name: 'Liberation Day', shortName: 'Liberation' },
+    ...holidayRun(MID_AUTUMN[year], -1, 3, 'Chuseok', 'Chuseok'),
+    { date: `${year}-10-03`, name: 'National Foundation Day', shortName: 'Foundation' },
+    { date: `${year}-10-09`, name: 'Hangul Day', shortName: 'Hangul' },
+    { date: `${year}-12-25`, name: 'Christmas Day', shortName: 'Christmas' },
+  ];
+}
+
+function getVietnamHolidays(year: number): Holiday[] {
+  return [
+    { date: `${year}-01-01`, name: "New Year's Day", shortName: 'New Year' },
+    ...holidayRun(LUNAR_NEW_YEAR[year], -1, 5, 'Tet (Lunar New Year)', 'Tet'),
+    { date: `${year}-04-30`, name: 'Reunification Day', shortName: 'Reunification' },
+    { date: `${year}-05-01`, name: 'Labor Day', shortName: 'Labor Day' },
+    ...holidayRun(`${year}-09-01`, 0, 2, 'National Day', 'National Day'),
+  ];
+}
+
+function getSingaporeHolidays(year: number): Holiday[] {
+  return [
+    { date: `${year}-01-01`, name: "New Year's Day", shortName: 'New Year' },
+    ...holidayRun(LUNAR_NEW_YEAR[year], 0, 2, 'Chinese New Year', 'CNY'),
+    ...holidayRun(EID_AL_FITR[year], 0, 1, 'Hari Raya Puasa', 'Hari Raya'),
+    { date: `${year}-05-01`, name: 'Labour Day', shortName: 'Labour Day' },
+    ...holidayRun(EID_AL_ADHA[year], 0, 1, 'Hari Raya Haji', 'Hari Raya'),
+    { date: `${year}-08-09`, name: 'National Day', shortName: 'National Day' },
+    { date: `${year}-12-25`, name: 'Christmas Day', shortName: 'Christmas' },
+  ];
+}
+
+function getIslamicObservances(year: number): Holiday[] {
+  const ramadanDays = RAMADAN_START[year] && EID_AL_FITR[year]
+    ? Math.round((parseISO(EID_AL_FITR[year]).getTime() - parseISO(RAMADAN_START[year]).getTime()) / 86400000)
+    : 0;
+  return [
+    ...holidayRun(RAMADAN_START[year], 0, ramadanDays, 'Ramadan (reduced business hours)', 'Ramadan', true),
+    ...holidayRun(EID_AL_FITR[year], 0, 3, 'Eid al-Fitr', 'Eid al-Fitr'),
+    ...holidayRun(EID_AL_ADHA[year], 0, 3, 'Eid al-Adha', 'Eid al-Adha'),
+  ];
+}
+
+export const HOLIDAY_CALENDARS: HolidayCalendar[] = [
+  { id: 'ca-state', name: 'California State', foreign: false, countries: [], getHolidays: getCAStateHolidays },
+  { id: 'us-federal', name: 'US Federal', foreign: false, countries: [], getHolidays: getUSFederalHolidays },
+  { id: 'china', name: 'China', foreign: true, countries: ['china', 'prc', 'hong kong'], getHolidays: getChinaHolidays },
+  { id: 'japan', name: 'Japan', foreign: true, countries: ['japan'], getHolidays: getJapanHolidays },
+  {
+    id: 'south-korea',
+    name: 'South Korea',
+    foreign: true,
+    countries: ['south korea', 'korea', 'republic of korea'],
+    getHolidays: getSouthKoreaHolidays,
+  },
+  { id: 'vietnam', name: 'Vietnam', foreign: true, countries: ['vietnam', 'viet nam'], getHolidays: getVietnamHolidays },
+  { id: 'singapore', name: 'Singapore', foreign: true, countries: ['singapore'], getHolidays: getSingaporeHolidays },
+  {
+    id: 'islamic',
+    name: 'Ramadan & Eid',
+    foreign: true,
+    countries: [
+      'united arab emirates', 'uae', 'saudi arabia', 'qatar', 'kuwait', 'oman', 'bahrain',
+      'egypt', 'jordan', 'morocco', 'turkey', 'indonesia', 'malaysia', 'pakistan',
+    ],
+    getHolidays: getIslamicObservances,
+  },
+];
+
+export const DEFAULT_HOLIDAY_CALENDAR_IDS = ['ca-state'];
+
+export function getHolidayCalendarName(calendarId: string | undefined): string {
+  if (calendarId === CLOSURE_CALENDAR_ID) return 'Office closure';
+  return HOLIDAY_CALENDARS.find((c) => c.id === calendarId)?.name ?? 'Holiday';
+}
+
+// Destination calendars that apply to a location's country
+export function getHolidayCalendarsForCountry(country: string | undefined): HolidayCalendar[] {
+  const normalized = country?.trim().toLowerCase();
+  if (!normalized) return [];
+  return HOLIDAY_CALENDARS.filter((c) => c.foreign && c.countries.includes(normalized));
+}
+
+// Country of an activity without stops, falling back to the end of "City, Country"
+export function getPrimaryCountry(activity: AnyActivity): string | undefined {
+  return activity.country || activity.location?.split(',').pop()?.trim();
+}
+
+// Destination calendar ids for every country an activity visits
+export function getActivityHolidayCalendarIds(activity: AnyActivity): string[] {
+  const countries = [getPrimaryCountry(activity), ...(activity.locations || []).map((l) => l.country)];
+  return [...new Set(countries.flatMap((country) => getHolidayCalendarsForCountry(country).map((c) => c.id)))];
+}
+
+/**
+ * Get holidays for a range of years from the given calendars plus office closure days.
+ * A date may carry holidays from several calendars.
  */
-export function getHolidaysForYears(startYear: number, endYear: number): Map<string, Holiday> {
-  const holidayMap = new Map<string, Holiday>();
-
-  for (let year = startYear; year <= endYear; year++) {
-    const holidays = getCAStateHolidays(year);
-    holidays.forEach((holiday) => {
-      holidayMap.set(holiday.date, holiday);
-    });
+export function getHolidaysForYears(
+  startYear: number,
+  endYear: number,
+  calendarIds: string[] = DEFAULT_HOLIDAY_CALENDAR_IDS,
+  closureDays: ClosureDay[] = []
+): Map<string, Holiday[]> {
+  const holidayMap = new Map<string, Holiday[]>();
+  const add = (holiday: Holiday) => {
+    holidayMap.set(holiday.date, [...(holidayMap.get(holiday.date) || []), holiday]);
+  };
+
+  for (const calendar of HOLIDAY_CALENDARS) {
+    if (!calendarIds.includes(calendar.id)) continue;
+    for (let year = startYear; year <= endYear; year++) {
+      calendar.getHolidays(year).forEach((holiday) => add({ ...holiday, calendarId: calendar.id }));
+    }
   }
 
+  closureDays.forEach((closure) => {
+    const year = Number(closure.date.slice(0, 4));
+    if (year < startYear || year > endYear) return;
+    add({ date: closure.date, name: closure.name, shortName: closure.name, calendarId: CLOSURE_CALENDAR_ID });
+  });
+
   return holidayMap;
 }
 
 /**
- * Check if a date string is a CA State holiday
+ * Check if a date string is a holiday in the map
  */
-export function isHoliday(dateStr: string, holidayMap: Map<string, Holiday>): Holiday | undefined {
+export function isHoliday(dateStr: string, holidayMap: Map<string, Holiday[]>): Holiday[] | undefined {
   return holidayMap.get(dateStr);
 }
+
+// Whether every holiday on a date comes from a destination calendar (shown as an overlay)
+export function isForeignHolidayDate(holidays: Holiday[]): boolean {
+  return holidays.every((h) => HOLIDAY_CALENDARS.find((c) => c.id === h.calendarId)?.foreign);
+}
+
+// Tooltip text listing each holiday with its calendar
+export function describeHolidays(holidays: Holiday[]): string {
+  return holidays.map((h) => `${h.name} (${getHolidayCalendarName(h.calendarId)})`).join('\n');
+}
+
+export interface LocationHolidayConflict {
+  location: ActivityLocation | null; // null when the conflict comes from the activity's own country
+  country: string;
+  holidays: Holiday[];
+}
+
+// Destination holidays that fall on the days an activity spends at each stop.
+// Stops without their own dates are checked against the whole activity.
+export function getLocationHolidayConflicts(activity: AnyActivity): LocationHolidayConflict[] {
+  const stops: { location: ActivityLocation | null; country: string | undefined; start?: string; end?: string }[] =
+    activity.locations && activity.locations.length > 0
+      ? activity.locations.map((l) => ({
+          location: l,
+          country: l.country,
+          start: l.startDate || activity.startDate,
+          end: l.endDate || l.startDate || activity.endDate,
+        }))
+      : [{ location: null, country: getPrimaryCountry(activity), start: activity.startDate, end: activity.endDate }];
+
+  const conflicts: LocationHolidayConflict[] = [];
+  for (const stop of stops) {
+    const calendarIds = getHolidayCalendarsForCountry(stop.country).map((c) => c.id);
+    if (!stop.start || calendarIds.length === 0) continue;
+
+    const start = parseISO(stop.start);
+    const end = stop.end && stop.end >= stop.start ? parseISO(stop.end) : start;
+    const holidayMap = getHolidaysForYears(start.getFullYear(), end.getFullYear(), calendarIds);
+    const holidays = eachDayOfInterval({ start, end }).flatMap(
+      (day) => holidayMap.get(format(day, 'yyyy-MM-dd')) || []
+    );
+    if (holidays.length > 0) {
+      conflicts.push({ location: stop.location, country: stop.country!.trim(), holidays });
+    }
+  }
+  return conflicts;
+}
+
+// Summarize a run of holiday dates as "Golden Week (May 3 - May 5)"
+export function summarizeHolidays(holidays: Holiday[]): string[] {
+  const byName = new Map<string, string[]>();
+  holidays.forEach((h) => byName.set(h.name, [...(byName.get(h.name) || []), h.date]));
+  return [...byName.entries()].map(([name, dates]) => {
+    const first = format(parseISO(dates[0]), 'MMM d');
+    const last = format(parseISO(dates[dates.length - 1]), 'MMM d');
+    return dates.length > 1 ? `${name} (${first} - ${last})` : `${name} (${first})`;
+  });
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { createActivity, createChecklist, createItem } from '../test/fixtures';
+import { generateActivitiesICS, parseICS } from './icalendar';
+import { updateChecklistCounts } from './reminderScheduler';
+
+const activity = createActivity({
+  name: 'Fancy Food Show',
+  startDate: '2030-06-10',
+  endDate: '2030-06-12',
+  location: 'New York',
+  locationType: 'domestic',
+  fiscalYear: '2029-30',
+});
+const item = createItem({ title: 'Ship samples', category: 'logistics', dueDate: '2030-05-20' });
+const checklist = createChecklist([item], { activityId: activity.id });
+
+// Property values of the task's VEVENT
+function getTaskEventProps(ics: string): Record<string, string> {
+  const lines = ics.replace(/\r\n /g, '').split('\r\n');
+  const start = lines.indexOf(`UID:task-${item.id}@project-manager.cdfa.ca.gov`);
+  const props: Record<string, string> = {};
+  for (const line of lines.slice(start, lines.indexOf('END:VEVENT', start))) {
+    const separator = line.indexOf(':');
+    props[line.slice(0, separator)] = line.slice(separator + 1);
+  }
+  return props;
+}
+
+describe('generateActivitiesICS', () => {
+  it('raises the task sequence when only its due date moves', () => {
+    const before = getTaskEventProps(generateActivitiesICS([activity], 'Tasks', [checklist]));
+    const moved = updateChecklistCounts({ ...checklist, items: [{ ...item, dueDate: '2030-05-27' }] });
+    const after = getTaskEventProps(generateActivitiesICS([activity], 'Tasks', [moved]));
+
+    expect(after['DTSTART;VALUE=DATE']).toBe('20300527');
+    expect(Number(after.SEQUENCE)).toBeGreaterThan(Number(before.SEQUENCE));
+    expect(after['LAST-MODIFIED'] > before['LAST-MODIFIED']).toBe(true);
+  });
+
+  it('folds lines at 75 octets without splitting characters', () => {
+    const name = Array(4).fill('Exposición de Alimentos — 食品展示会').join(' ');
+    const ics = generateActivitiesICS([{ ...activity, name }], 'Activities');
+    const encoder = new TextEncoder();
+
+    for (const line of ics.split('\r\n')) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(parseICS(ics)[0].summary).toBe(name);
+  });
+});
@@ -0,0 +1,338 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { AnyActivity, ActivityStatus, ChecklistInstance, ChecklistItem } from '../types';
+
+const PRODID = '-//CDFA//Project Manager//EN';
+const UID_DOMAIN = 'project-manager.cdfa.ca.gov';
+
+// Hour of the day (local) that task reminder alarms go off
+const ALARM_HOUR = 9;
+
+// Escape TEXT values per RFC 5545 (backslash, semicolon, comma, newline)
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Bytes a character takes up in UTF-8
+function getUtf8Length(char: string): number {
+  const codePoint = char.codePointAt(0) ?? 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+}
+
+// Fold content lines longer than 75 octets onto continuation lines, which start with a
+// space, without splitting a multi-byte character
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentLength = 0;
+  for (const char of line) {
+    const charLength = getUtf8Length(char);
+    if (currentLength + charLength > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      currentLength = 0;
+    }
+    current += char;
+    currentLength += charLength;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatDateValue(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+const EVENT_STATUS: Record<ActivityStatus, string> = {
+  draft: 'TENTATIVE',
+  planning: 'TENTATIVE',
+  in_progress: 'CONFIRMED',
+  completed: 'CONFIRMED',
+  cancelled: 'CANCELLED',
+  postponed: 'TENTATIVE',
+};
+
+interface CalendarEvent {
+  uid: string;
+  summary: string;
+  startDate: string; // YYYY-MM-DD, all-day
+  endDate: string; // YYYY-MM-DD, inclusive
+  updatedAt: string;
+  description?: string;
+  location?: string;
+  status?: string;
+  alarms?: string[]; // TRIGGER values
+}
+
+function formatEvent(event: CalendarEvent): string[] {
+  // Outlook only replaces an event it already has when the sequence goes up,
+  // so derive it from the last edit time
+  const sequence = Math.floor(new Date(event.updatedAt).getTime() / 1000);
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatTimestamp(new Date().toISOString())}`,
+    `LAST-MODIFIED:${formatTimestamp(event.updatedAt)}`,
+    `SEQUENCE:${Number.isFinite(sequence) ? sequence : 0}`,
+    `DTSTART;VALUE=DATE:${formatDateValue(event.startDate)}`,
+    // DTEND is exclusive for all-day events
+    `DTEND;VALUE=DATE:${format(addDays(parseISO(event.endDate), 1), 'yyyyMMdd')}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  lines.push('TRANSP:TRANSPARENT');
+  for (const trigger of event.alarms || []) {
+    lines.push('BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeText(event.summary)}`, `TRIGGER:${trigger}`, 'END:VALARM');
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+function formatCalendar(name: string, events: CalendarEvent[]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap(formatEvent),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// Events for an activity: one per stop for multi-stop activities, otherwise one for the whole activity.
+// UIDs are derived from record ids so re-importing updates the existing events.
+function getActivityEvents(activity: AnyActivity): CalendarEvent[] {
+  if (!activity.startDate) return [];
+  const endDate = activity.endDate || activity.startDate;
+  const base = {
+    description: activity.description,
+    status: EVENT_STATUS[activity.status],
+    updatedAt: activity.updatedAt,
+  };
+
+  if (!activity.locations || activity.locations.length === 0) {
+    return [
+      {
+        ...base,
+        uid: `activity-${activity.id}@${UID_DOMAIN}`,
+        summary: activity.name,
+        startDate: activity.startDate,
+        endDate,
+        location: activity.location,
+      },
+    ];
+  }
+
+  return activity.locations.map((stop, index) => {
+    const startDate = stop.startDate || activity.startDate;
+    const place = [stop.city, stop.country].filter(Boolean).join(', ');
+    return {
+      ...base,
+      uid: `activity-${activity.id}-stop-${stop.id}@${UID_DOMAIN}`,
+      summary: `${activity.name} (Stop ${index + 1}${place ? `: ${place}` : ''})`,
+      startDate,
+      endDate: stop.endDate || stop.startDate || endDate,
+      location: [stop.venue, place].filter(Boolean).join(', '),
+    };
+  });
+}
+
+// Alarm triggers relative to the start of an all-day event, one per reminder date
+function getReminderTriggers(item: ChecklistItem): string[] {
+  const due = parseISO(item.dueDate);
+  return [...new Set(item.reminderDates)].map((date) => {
+    const daysBefore = differenceInCalendarDays(due, parseISO(date));
+    if (daysBefore <= 0) return `PT${ALARM_HOUR}H`;
+    return `-P${daysBefore - 1}DT${24 - ALARM_HOUR}H`;
+  });
+}
+
+function isOpenItem(item: ChecklistItem): boolean {
+  return item.status !== 'completed' && item.status !== 'skipped';
+}
+
+// Checklists are stamped whenever an item changes, so a moved due date raises the sequence
+function getTaskEvent(activity: AnyActivity, checklist: ChecklistInstance, item: ChecklistItem): CalendarEvent {
+  return {
+    uid: `task-${item.id}@${UID_DOMAIN}`,
+    summary: `Due: ${item.title} (${activity.name})`,
+    startDate: item.dueDate,
+    endDate: item.dueDate,
+    description: item.description,
+    updatedAt: checklist.updatedAt > activity.updatedAt ? checklist.updatedAt : activity.updatedAt,
+    alarms: getReminderTriggers(item),
+  };
+}
+
+// Calendar of activities, optionally with the open task deadlines from their checklists
+export function generateActivitiesICS(
+  activities: AnyActivity[],
+  calendarName: string,
+  checklists: ChecklistInstance[] = []
+): string {
+  const events = activities.flatMap((activity) => {
+    const checklist = checklists.find((c) => c.activityId === activity.id);
+    const tasks = checklist ? checklist.items.filter(isOpenItem).map((item) => getTaskEvent(activity, checklist, item)) : [];
+    return [...getActivityEvents(activity), ...tasks];
+  });
+  return formatCalendar(calendarName, events);
+}
+
+// Calendar of every open task deadline assigned to a staff member
+export function generateAssigneeTasksICS(
+  assigneeId: string,
+  activities: AnyActivity[],
+  checklists: ChecklistInstance[],
+  calendarName: string
+): string {
+  const events: CalendarEvent[] = [];
+  for (const checklist of checklists) {
+    const activity = activities.find((a) => a.id === checklist.activityId);
+    if (!activity || activity.isArchived || activity.status === 'cancelled') continue;
+
+    for (const item of checklist.items) {
+      if (item.assigneeId === assigneeId && isOpenItem(item)) {
+        events.push(getTaskEvent(activity, checklist, item));
+      }
+    }
+  }
+  return formatCalendar(calendarName, events);
+}
+
+// File name safe slug for downloads
+export function toCalendarFileName(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'calendar'}.ics`;
+}
+
+// Event read from an imported .ics file
+export interface ParsedCalendarEvent {
+  uid?: string;
+  summary: string;
+  description: string;
+  location: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+  isCancelled: boolean;
+}
+
+// Join folded continuation lines back onto the line they belong to
+function unfoldLines(content: string): string[] {
+  return content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+// Split "NAME;PARAM=...:value", ignoring colons inside quoted parameter values
+function parseContentLine(line: string): { name: string; params: string; value: string } | null {
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      const [name, ...params] = line.slice(0, i).split(';');
+      return { name: name.toUpperCase(), params: params.join(';').toUpperCase(), value: line.slice(i + 1) };
+    }
+  }
+  return null;
+}
+
+// DATE or DATE-TIME value as a local YYYY-MM-DD; UTC times are converted to local time first
+function parseDateValue(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (utc) {
+    const date = new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+    return format(date, 'yyyy-MM-dd');
+  }
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Read the VEVENTs of an iCalendar file. Recurring events come in as their
+ * first occurrence, and repeated UIDs (recurrence overrides) are skipped.
+ */
+export function parseICS(content: string): ParsedCalendarEvent[] {
+  const events: ParsedCalendarEvent[] = [];
+  const seenUids = new Set<string>();
+  let current: Record<string, { params: string; value: string }> | null = null;
+  let nestedDepth = 0; // Inside a component within the event, e.g. VALARM
+
+  for (const line of unfoldLines(content)) {
+    const trimmed = line.trim();
+    const upper = trimmed.toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      current = {};
+      nestedDepth = 0;
+    } else if (upper === 'END:VEVENT') {
+      const event = current && toParsedEvent(current);
+      current = null;
+      if (!event || (event.uid && seenUids.has(event.uid))) continue;
+      if (event.uid) seenUids.add(event.uid);
+      events.push(event);
+    } else if (current && upper.startsWith('BEGIN:')) {
+      nestedDepth++;
+    } else if (current && upper.startsWith('END:')) {
+      nestedDepth--;
+    } else if (current && nestedDepth === 0) {
+      const property = parseContentLine(trimmed);
+      if (property && !(property.name in current)) {
+        current[property.name] = { params: property.params, value: property.value };
+      }
+    }
+  }
+
+  return events;
+}
+
+function toParsedEvent(props: Record<string, { params: string; value: string }>): ParsedCalendarEvent | null {
+  const startDate = props.DTSTART && parseDateValue(props.DTSTART.value);
+  if (!startDate) return null;
+
+  let endDate = startDate;
+  const end = props.DTEND && parseDateValue(props.DTEND.value);
+  if (end) {
+    // All-day DTEND is exclusive
+    const isDateOnly = props.DTEND.value.length === 8;
+    endDate = isDateOnly ? format(addDays(parseISO(end), -1), 'yyyy-MM-dd') : end;
+    if (endDate < startDate) endDate = startDate;
+  }
+
+  return {
+    uid: props.UID?.value.trim() || undefined,
+    summary: props.SUMMARY ? unescapeText(props.SUMMARY.value).trim() : '',
+    description: props.DESCRIPTION ? unescapeText(props.DESCRIPTION.value).trim() : '',
+    location: props.LOCATION ? unescapeText(props.LOCATION.value).trim() : '',
+    startDate,
+    endDate,
+    isCancelled: props.STATUS?.value.toUpperCase() === 'CANCELLED',
+  };
+}
+
+// Existing activity an imported event would duplicate: same UID (including ones we exported),
+// or the same name starting on the same day
+export function findDuplicateActivity(
+  event: ParsedCalendarEvent,
+  activities: AnyActivity[]
+): AnyActivity | undefined {
+  if (event.uid) {
+    const exported = event.uid.match(new RegExp(`^activity-(.+?)(?:-stop-.+)?@${UID_DOMAIN.replace(/\./g, '\\.')}$`));
+    const byUid = activities.find((a) => a.externalUid === event.uid || a.id === exported?.[1]);
+    if (byUid) return byUid;
+  }
+  const name = event.summary.toLowerCase();
+  return activities.find((a) => a.name.trim().toLowerCase() === name && a.startDate === event.startDate);
+}
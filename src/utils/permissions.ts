@@ -0,0 +1,60 @@
+import type { AnyActivity, StaffRole } from '../types';
+
+export type Permission =
+  | 'activity:create'
+  | 'activity:edit' // Includes working on the activity's checklist
+  | 'activity:delete' // Includes archiving
+  | 'template:edit'
+  | 'task:approve'
+  | 'staff:manage' // Staff directory, custom activity types and office closures
+  | 'data:import';
+
+const MANAGER_PERMISSIONS: Permission[] = [
+  'activity:create',
+  'activity:edit',
+  'activity:delete',
+  'template:edit',
+  'task:approve',
+  'staff:manage',
+  'data:import',
+];
+
+// Coordinators and specialists can only edit activities they lead or are on the team for
+const CONTRIBUTOR_PERMISSIONS: Permission[] = ['activity:create', 'activity:edit'];
+
+const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  admin: MANAGER_PERMISSIONS,
+  manager: MANAGER_PERMISSIONS,
+  coordinator: CONTRIBUTOR_PERMISSIONS,
+  specialist: CONTRIBUTOR_PERMISSIONS,
+  viewer: [],
+};
+
+const DENIED_MESSAGES: Record<Permission, string> = {
+  'activity:create': 'You do not have permission to create activities.',
+  'activity:edit': 'You can only edit activities you lead or are a team member on.',
+  'activity:delete': 'Only managers and admins can delete or archive activities.',
+  'template:edit': 'Only managers and admins can edit procedure templates.',
+  'task:approve': 'Only managers and admins can approve tasks.',
+  'staff:manage': 'Only managers and admins can manage staff and settings.',
+  'data:import': 'Only managers and admins can import data.',
+};
+
+// Whether a role grants a permission
+export function hasPermission(
+  role: StaffRole,
+  userId: string | null,
+  permission: Permission,
+  activity?: AnyActivity
+): boolean {
+  if (!ROLE_PERMISSIONS[role].includes(permission)) return false;
+
+  if (permission === 'activity:edit' && role !== 'admin' && role !== 'manager') {
+    return !!activity && !!userId && (activity.leadStaffId === userId || activity.teamMemberIds.includes(userId));
+  }
+  return true;
+}
+
+export function getPermissionDeniedMessage(permission: Permission): string {
+  return DENIED_MESSAGES[permission];
+}
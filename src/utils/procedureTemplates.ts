@@ -0,0 +1,163 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { AnyActivity, CustomActivityType, ProcedureTemplate, ProcedurePhase, ProcedureTask } from '../types';
+import { getActivityCategory } from '../types';
+import { getProcedureForActivity, isBuiltInTemplate } from '../data/defaultProcedures';
+
+// Versions before tracking started are treated as the initial version
+export const INITIAL_TEMPLATE_VERSION = '1.0';
+
+// Create an empty phase to append to a template
+export function createBlankPhase(order: number): ProcedurePhase {
+  return {
+    id: uuidv4(),
+    name: 'New Phase',
+    description: '',
+    order,
+    startOffset: -30,
+    endOffset: 0,
+    tasks: [],
+  };
+}
+
+// Create an empty task to append to a phase
+export function createBlankTask(order: number, dueOffset: number = 0): ProcedureTask {
+  return {
+    id: uuidv4(),
+    title: 'New Task',
+    description: '',
+    order,
+    dueOffset,
+    reminderOffsets: [7, 3],
+    isRequired: true,
+    requiresApproval: false,
+    dependsOnTaskIds: [],
+    category: 'administrative',
+  };
+}
+
+// Copy a template into a new, editable template.
+// Phase and task IDs are kept so dependencies still resolve within the copy.
+export function cloneTemplate(
+  source: ProcedureTemplate,
+  overrides: Partial<ProcedureTemplate> = {}
+): ProcedureTemplate {
+  const now = new Date().toISOString();
+  return {
+    ...structuredClone(source),
+    id: uuidv4(),
+    name: `${source.name} (Copy)`,
+    version: INITIAL_TEMPLATE_VERSION,
+    isActive: true,
+    basedOnTemplateId: source.id,
+    versionHistory: [],
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+// Move an entry up or down in an ordered list, renumbering `order` from 1
+export function moveOrdered<T extends { order: number }>(
+  list: T[],
+  index: number,
+  direction: -1 | 1
+): T[] {
+  const target = index + direction;
+  if (target < 0 || target >= list.length) return list;
+
+  const result = [...list];
+  [result[index], result[target]] = [result[target], result[index]];
+  return renumber(result);
+}
+
+// Remove an entry from an ordered list, renumbering `order` from 1
+export function removeOrdered<T extends { order: number }>(list: T[], index: number): T[] {
+  return renumber(list.filter((_, i) => i !== index));
+}
+
+function renumber<T extends { order: number }>(list: T[]): T[] {
+  return list.map((entry, i) => (entry.order === i + 1 ? entry : { ...entry, order: i + 1 }));
+}
+
+// Count tasks across all phases of a template
+export function getTemplateTaskCount(template: ProcedureTemplate): number {
+  return template.phases.reduce((sum, phase) => sum + phase.tasks.length, 0);
+}
+
+// Parse a comma-separated list of day offsets (e.g. "14, 7, 3")
+export function parseOffsetList(value: string): number[] {
+  return value
+    .split(',')
+    .map((s) => parseInt(s.trim(), 10))
+    .filter((n) => !Number.isNaN(n));
+}
+
+// Bump the minor part of a "major.minor" version string (1.0 -> 1.1, 1.9 -> 1.10)
+export function getNextTemplateVersion(version: string): string {
+  const match = version.match(/^(\d+)\.(\d+)$/);
+  if (!match) return `${version}.1`;
+  return `${match[1]}.${parseInt(match[2], 10) + 1}`;
+}
+
+// Build the updates for saving a template. When the phases change, the current
+// phases are archived in versionHistory and a new version number is assigned.
+export function createTemplateRevision(
+  template: ProcedureTemplate,
+  updates: Partial<ProcedureTemplate>
+): Partial<ProcedureTemplate> {
+  if (!updates.phases || JSON.stringify(updates.phases) === JSON.stringify(template.phases)) {
+    return updates;
+  }
+
+  return {
+    ...updates,
+    version: getNextTemplateVersion(template.version),
+    versionHistory: [
+      ...(template.versionHistory || []),
+      { version: template.version, phases: template.phases, createdAt: template.updatedAt },
+    ],
+  };
+}
+
+// Get a template as it was at a given version (falls back to the latest version)
+export function getTemplateAtVersion(
+  template: ProcedureTemplate,
+  version: string | undefined
+): ProcedureTemplate {
+  const target = version ?? INITIAL_TEMPLATE_VERSION;
+  if (target === template.version) return template;
+
+  const snapshot = template.versionHistory?.find((v) => v.version === target);
+  return snapshot ? { ...template, version: snapshot.version, phases: snapshot.phases } : template;
+}
+
+// Procedure template for an activity: the one picked for it, otherwise the active template for
+// its type. A custom template (cloned from the type's built-in one) wins over the built-in.
+export function findProcedureTemplate(
+  activity: AnyActivity,
+  procedureTemplates: ProcedureTemplate[],
+  customActivityTypes: CustomActivityType[]
+): ProcedureTemplate | undefined {
+  const ownTemplate = procedureTemplates.find((t) => t.id === activity.procedureTemplateId);
+  if (ownTemplate) return ownTemplate;
+
+  const category = getActivityCategory(activity.activityType, customActivityTypes);
+  let procedureType: 'trade_assistance' | 'educational';
+  let eventType: string;
+  if (category === 'trade') {
+    procedureType = 'trade_assistance';
+    eventType = activity.activityType === 'outbound_trade_mission' ? 'trade_mission'
+      : activity.activityType === 'inbound_trade_mission' ? 'reverse_mission'
+      : activity.activityType;
+  } else if (category === 'educational') {
+    procedureType = 'educational';
+    eventType = activity.activityType === 'seminar_series' ? 'seminar' : activity.activityType;
+  } else {
+    return undefined;
+  }
+
+  const customTemplate = procedureTemplates
+    .filter((t) => t.isActive && !isBuiltInTemplate(t.id) && t.activityType === procedureType && t.eventType === eventType)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+  return customTemplate || getProcedureForActivity(procedureType, eventType);
+}
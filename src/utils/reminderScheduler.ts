@@ -1,44 +1,32 @@
 import { v4 as uuidv4 } from 'uuid';
-import { format, parseISO, addDays, isBefore, isAfter, isSameDay, startOfDay, differenceInDays } from 'date-fns';
+import { format, parseISO, addDays, isBefore, isAfter, startOfDay, differenceInDays } from 'date-fns';
 import type {
   Activity,
+  AnyActivity,
   ProcedureTemplate,
   ChecklistInstance,
   ChecklistItem,
+  DueDateAdjustment,
   Reminder,
+  ReminderSnoozeOption,
+  ReminderState,
   ProcedureTask,
 } from '../types';
+import { updateDependencyBlocking } from './taskDependencies';
+import { addBusinessDays, getCAStateHoliday, rollToPreviousBusinessDay, type HolidayLookup } from './businessDays';
 
 // Generate a checklist instance from a procedure template and activity dates
 export function generateChecklistFromTemplate(
   activity: Activity,
-  template: ProcedureTemplate
+  template: ProcedureTemplate,
+  getHoliday: HolidayLookup = getCAStateHoliday
 ): ChecklistInstance {
   const items: ChecklistItem[] = [];
   const activityStart = parseISO(activity.startDate);
 
   for (const phase of template.phases) {
     for (const task of phase.tasks) {
-      const dueDate = addDays(activityStart, task.dueOffset);
-      const reminderDates = task.reminderOffsets.map((offset) =>
-        format(addDays(dueDate, -offset), 'yyyy-MM-dd')
-      );
-
-      items.push({
-        id: uuidv4(),
-        taskId: task.id,
-        phaseId: phase.id,
-        title: task.title,
-        description: task.description,
-        category: task.category,
-        status: 'not_started',
-        dueDate: format(dueDate, 'yyyy-MM-dd'),
-        reminderDates,
-        isRequired: task.isRequired,
-        requiresApproval: task.requiresApproval,
-        notes: [],
-        attachments: [],
-      });
+      items.push(createChecklistItem(task, phase.id, activityStart, template.useBusinessDays, getHoliday));
     }
   }
 
@@ -46,6 +34,7 @@ export function generateChecklistFromTemplate(
     id: uuidv4(),
     activityId: activity.id,
     procedureTemplateId: template.id,
+    procedureTemplateVersion: template.version,
     items,
     completedCount: 0,
     totalCount: items.length,
@@ -55,51 +44,144 @@ export function generateChecklistFromTemplate(
   };
 }
 
-// Recalculate checklist dates when activity dates change
-export function recalculateChecklistDates(
+// Create a fresh checklist item for a procedure task
+export function createChecklistItem(
+  task: ProcedureTask,
+  phaseId: string,
+  activityStart: Date,
+  useBusinessDays = false,
+  getHoliday: HolidayLookup = getCAStateHoliday
+): ChecklistItem {
+  const { dueDate, dueDateAdjustment, reminderDates } = getTaskDates(task, activityStart, useBusinessDays, getHoliday);
+
+  return {
+    id: uuidv4(),
+    taskId: task.id,
+    phaseId,
+    title: task.title,
+    description: task.description,
+    category: task.category,
+    status: 'not_started',
+    dueDate,
+    dueDateAdjustment,
+    reminderDates,
+    isRequired: task.isRequired,
+    requiresApproval: task.requiresApproval,
+    approverRole: task.approverRole,
+    estimatedHours: task.estimatedHours,
+    notes: [],
+    attachments: [],
+    dependsOnTaskIds: [...task.dependsOnTaskIds],
+  };
+}
+
+// Compute the due date and reminder dates of a task for a given activity start.
+// Due dates landing on a weekend, holiday or closure day roll back to the previous business day.
+export function getTaskDates(
+  task: ProcedureTask,
+  activityStart: Date,
+  useBusinessDays = false,
+  getHoliday: HolidayLookup = getCAStateHoliday
+): { dueDate: string; dueDateAdjustment: DueDateAdjustment | undefined; reminderDates: string[] } {
+  const offsetDate = useBusinessDays
+    ? addBusinessDays(activityStart, task.dueOffset, getHoliday)
+    : addDays(activityStart, task.dueOffset);
+  const { date: dueDate, adjustment } = rollToPreviousBusinessDay(offsetDate, getHoliday);
+  return {
+    dueDate: format(dueDate, 'yyyy-MM-dd'),
+    dueDateAdjustment: adjustment,
+    reminderDates: task.reminderOffsets.map((offset) =>
+      format(addDays(dueDate, -offset), 'yyyy-MM-dd')
+    ),
+  };
+}
+
+export interface ChecklistDateShift {
+  itemId: string;
+  title: string;
+  fromDueDate: string;
+  toDueDate: string;
+  toDueDateAdjustment?: DueDateAdjustment;
+  toReminderDates: string[];
+  isManualOverride: boolean; // Due date no longer matches the template offset for the old start date
+}
+
+// Preview how checklist due dates move when the activity start date changes.
+// Completed and skipped items are left alone.
+export function previewChecklistDateShifts(
   checklist: ChecklistInstance,
-  activity: Activity,
-  template: ProcedureTemplate
-): ChecklistInstance {
-  const activityStart = parseISO(activity.startDate);
+  template: ProcedureTemplate,
+  previousStartDate: string,
+  newStartDate: string,
+  getHoliday: HolidayLookup = getCAStateHoliday
+): ChecklistDateShift[] {
+  if (!newStartDate) return [];
+
+  const previousStart = previousStartDate ? parseISO(previousStartDate) : null;
+  const newStart = parseISO(newStartDate);
   const taskMap = new Map<string, ProcedureTask>();
 
-  // Build map of tasks from template
   for (const phase of template.phases) {
     for (const task of phase.tasks) {
       taskMap.set(task.id, task);
     }
   }
 
-  const updatedItems = checklist.items.map((item) => {
+  const shifts: ChecklistDateShift[] = [];
+  for (const item of checklist.items) {
     const task = taskMap.get(item.taskId);
-    if (!task) return item;
+    if (!task || item.status === 'completed' || item.status === 'skipped') continue;
+
+    const next = getTaskDates(task, newStart, template.useBusinessDays, getHoliday);
+    if (next.dueDate === item.dueDate) continue;
+
+    shifts.push({
+      itemId: item.id,
+      title: item.title,
+      fromDueDate: item.dueDate,
+      toDueDate: next.dueDate,
+      toDueDateAdjustment: next.dueDateAdjustment,
+      toReminderDates: next.reminderDates,
+      isManualOverride:
+        !!previousStart &&
+        getTaskDates(task, previousStart, template.useBusinessDays, getHoliday).dueDate !== item.dueDate,
+    });
+  }
 
-    const dueDate = addDays(activityStart, task.dueOffset);
-    const reminderDates = task.reminderOffsets.map((offset) =>
-      format(addDays(dueDate, -offset), 'yyyy-MM-dd')
-    );
+  return shifts;
+}
 
-    return {
-      ...item,
-      dueDate: format(dueDate, 'yyyy-MM-dd'),
-      reminderDates,
-    };
-  });
+// Apply accepted date shifts to a checklist
+export function applyChecklistDateShifts(
+  checklist: ChecklistInstance,
+  shifts: ChecklistDateShift[]
+): ChecklistInstance {
+  const shiftMap = new Map(shifts.map((shift) => [shift.itemId, shift]));
 
   return {
     ...checklist,
-    items: updatedItems,
+    items: checklist.items.map((item) => {
+      const shift = shiftMap.get(item.id);
+      return shift
+        ? {
+            ...item,
+            dueDate: shift.toDueDate,
+            dueDateAdjustment: shift.toDueDateAdjustment,
+            reminderDates: shift.toReminderDates,
+          }
+        : item;
+    }),
     updatedAt: new Date().toISOString(),
   };
 }
 
-// Update checklist counts
+// Update checklist counts (and dependency-blocked statuses, which the counts depend on)
 export function updateChecklistCounts(checklist: ChecklistInstance): ChecklistInstance {
   const today = startOfDay(new Date());
   let completedCount = 0;
   let overdueCount = 0;
 
+  checklist = updateDependencyBlocking(checklist);
   for (const item of checklist.items) {
     if (item.status === 'completed' || item.status === 'skipped') {
       completedCount++;
@@ -150,31 +232,131 @@ export function generateReminders(
       });
     }
 
-    // Check for upcoming due date reminders
-    for (const reminderDateStr of item.reminderDates) {
-      const reminderDate = parseISO(reminderDateStr);
-      if (isSameDay(reminderDate, today) || (isAfter(reminderDate, today) && isBefore(reminderDate, addDays(today, 1)))) {
-        const daysUntil = differenceInDays(dueDate, today);
-        reminders.push({
-          id: `upcoming-${item.id}-${reminderDateStr}`,
-          type: 'task_due',
-          activityId: activity.id,
-          checklistItemId: item.id,
-          title: 'Task Due Soon',
-          message: `"${item.title}" for ${activity.name} is due in ${daysUntil} day${daysUntil !== 1 ? 's' : ''}`,
-          scheduledFor: reminderDateStr,
-          isRead: false,
-          isDismissed: false,
-          recipientIds: item.assigneeId ? [item.assigneeId] : [],
-          createdAt: new Date().toISOString(),
-        });
-      }
+    // The latest reminder date that has arrived stays active until the task is due,
+    // so it is still there to read, dismiss or snooze on later days
+    const reminderDateStr = isBefore(dueDate, today)
+      ? undefined
+      : item.reminderDates.filter((d) => !isAfter(parseISO(d), today)).sort().pop();
+    if (reminderDateStr) {
+      const daysUntil = differenceInDays(dueDate, today);
+      reminders.push({
+        id: `upcoming-${item.id}-${reminderDateStr}`,
+        type: 'task_due',
+        activityId: activity.id,
+        checklistItemId: item.id,
+        title: 'Task Due Soon',
+        message: `"${item.title}" for ${activity.name} is due in ${daysUntil} day${daysUntil !== 1 ? 's' : ''}`,
+        scheduledFor: reminderDateStr,
+        isRead: false,
+        isDismissed: false,
+        recipientIds: item.assigneeId ? [item.assigneeId] : [],
+        createdAt: new Date().toISOString(),
+      });
     }
   }
 
   return reminders;
 }
 
+// Remind about an activity N days before it starts. The closest reminder that
+// has arrived stays active until the start date.
+export function generateActivityReminders(activity: Activity, reminderDaysBefore: number[]): Reminder[] {
+  if (!activity.startDate) return [];
+  const today = startOfDay(new Date());
+  const startDate = parseISO(activity.startDate);
+  if (isBefore(startDate, today)) return [];
+
+  const daysUntil = differenceInDays(startDate, today);
+  const daysBefore = reminderDaysBefore.filter((days) => days >= daysUntil).sort((a, b) => a - b)[0];
+  if (daysBefore === undefined) return [];
+
+  return [
+    {
+      id: `activity-${activity.id}-${daysBefore}d`,
+      type: 'activity_upcoming',
+      activityId: activity.id,
+      title: 'Activity Starting Soon',
+      message:
+        daysUntil === 0
+          ? `${activity.name} starts today`
+          : `${activity.name} starts in ${daysUntil} day${daysUntil !== 1 ? 's' : ''}`,
+      scheduledFor: format(addDays(startDate, -daysBefore), 'yyyy-MM-dd'),
+      isRead: false,
+      isDismissed: false,
+      recipientIds: [activity.leadStaffId, ...activity.teamMemberIds].filter(Boolean),
+      createdAt: new Date().toISOString(),
+    },
+  ];
+}
+
+// Custom reminders on an activity whose date has arrived
+export function generateCustomReminders(activity: Activity, checklist?: ChecklistInstance): Reminder[] {
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  return (activity.customReminders || [])
+    .filter((custom) => custom.remindOn <= today)
+    .map((custom) => {
+      const item = checklist?.items.find((i) => i.id === custom.checklistItemId);
+      return {
+        id: `custom-${custom.id}`,
+        type: 'custom',
+        activityId: activity.id,
+        checklistItemId: custom.checklistItemId,
+        title: item ? `Reminder: ${item.title}` : 'Reminder',
+        message: custom.message,
+        scheduledFor: custom.remindOn,
+        isRead: false,
+        isDismissed: false,
+        recipientIds: custom.recipientIds,
+        createdAt: custom.createdAt,
+      };
+    });
+}
+
+// Whether a reminder is meant for a user. Reminders without recipients go to everyone,
+// and everything is shown when nobody is signed in.
+export function isReminderForUser(reminder: Reminder, userId: string | null): boolean {
+  return !userId || reminder.recipientIds.length === 0 || reminder.recipientIds.includes(userId);
+}
+
+export const REMINDER_SNOOZE_OPTIONS: { value: ReminderSnoozeOption; label: string }[] = [
+  { value: '1_day', label: '1 day' },
+  { value: '3_days', label: '3 days' },
+  { value: 'until_due', label: 'Until due date' },
+];
+
+// Date a snoozed reminder reappears. Snoozing until a due date that has already
+// arrived falls back to tomorrow.
+export function getSnoozeUntil(option: ReminderSnoozeOption, dueDate?: string): string {
+  const today = startOfDay(new Date());
+  const days = option === '3_days' ? 3 : 1;
+  if (option === 'until_due' && dueDate && isAfter(parseISO(dueDate), today)) {
+    return dueDate;
+  }
+  return format(addDays(today, days), 'yyyy-MM-dd');
+}
+
+export function isReminderSnoozed(reminder: Reminder): boolean {
+  return !!reminder.snoozedUntil && reminder.snoozedUntil > format(new Date(), 'yyyy-MM-dd');
+}
+
+// Reminders that should be shown now: not dismissed and not snoozed
+export function isReminderActive(reminder: Reminder): boolean {
+  return !reminder.isDismissed && !isReminderSnoozed(reminder);
+}
+
+// Overlay a user's saved state onto freshly generated reminders (matched by reminder ID)
+export function applyReminderStates(
+  reminders: Reminder[],
+  states: Record<string, ReminderState> | undefined
+): Reminder[] {
+  if (!states) return reminders;
+  return reminders.map((reminder) => {
+    const saved = states[reminder.id];
+    return saved ? { ...reminder, ...saved } : reminder;
+  });
+}
+
 // Get upcoming tasks for an activity (next N days)
 export function getUpcomingTasks(
   checklist: ChecklistInstance,
@@ -208,6 +390,33 @@ export function getOverdueTasks(checklist: ChecklistInstance): ChecklistItem[] {
     .sort((a, b) => parseISO(a.dueDate).getTime() - parseISO(b.dueDate).getTime());
 }
 
+export interface DatedChecklistItem {
+  activity: AnyActivity;
+  item: ChecklistItem;
+}
+
+// Checklist items of the given activities, keyed by due date
+export function getChecklistItemsByDueDate(
+  checklists: ChecklistInstance[],
+  activities: AnyActivity[]
+): Map<string, DatedChecklistItem[]> {
+  const byDate = new Map<string, DatedChecklistItem[]>();
+  for (const checklist of checklists) {
+    const activity = activities.find((a) => a.id === checklist.activityId);
+    if (!activity) continue;
+
+    for (const item of checklist.items) {
+      if (!item.dueDate) continue;
+      const list = byDate.get(item.dueDate) || [];
+      list.push({ activity, item });
+      byDate.set(item.dueDate, list);
+    }
+  }
+  return byDate;
+}
+
+const OTHER_TASKS_PHASE_ID = 'other-tasks';
+
 // Get tasks by phase
 export function getTasksByPhase(
   checklist: ChecklistInstance,
@@ -220,10 +429,27 @@ export function getTasksByPhase(
   }
 
   for (const item of checklist.items) {
-    const phaseData = phaseMap.get(item.phaseId);
-    if (phaseData) {
-      phaseData.items.push(item);
+    let phaseData = phaseMap.get(item.phaseId);
+    if (!phaseData) {
+      // Items whose phase is no longer in the template (e.g. kept after an upgrade)
+      phaseData = phaseMap.get(OTHER_TASKS_PHASE_ID);
+      if (!phaseData) {
+        phaseData = {
+          phase: {
+            id: OTHER_TASKS_PHASE_ID,
+            name: 'Other Tasks',
+            description: 'Tasks that are no longer part of this procedure',
+            order: template.phases.length + 1,
+            startOffset: 0,
+            endOffset: 0,
+            tasks: [],
+          },
+          items: [],
+        };
+        phaseMap.set(OTHER_TASKS_PHASE_ID, phaseData);
+      }
     }
+    phaseData.items.push(item);
   }
 
   // Sort items within each phase by due date
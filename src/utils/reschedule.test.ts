@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { createChecklist, createItem } from '../test/fixtures';
+import { applyChecklistDateShifts } from './reminderScheduler';
+import { getShiftedItemDates, restoreItemDates } from './reschedule';
+
+describe('undoing a reschedule', () => {
+  const booth = createItem({ taskId: 'book-booth', dueDate: '2026-08-01', reminderDates: ['2026-07-25'] });
+  const flyers = createItem({ taskId: 'print-flyers', dueDate: '2026-08-10' });
+  const checklist = createChecklist([booth, flyers]);
+  const shifts = [
+    {
+      itemId: booth.id,
+      title: booth.title,
+      fromDueDate: booth.dueDate,
+      toDueDate: '2026-08-08',
+      toReminderDates: ['2026-08-01'],
+      isManualOverride: false,
+    },
+  ];
+
+  it('puts back the shifted dates and keeps edits made since', () => {
+    const previousItemDates = getShiftedItemDates(checklist, shifts);
+    const shifted = applyChecklistDateShifts(checklist, shifts);
+    // Edited after the reschedule, here or by a teammate
+    const edited = {
+      ...shifted,
+      items: shifted.items.map((item) =>
+        item.id === booth.id ? { ...item, status: 'completed' as const } : { ...item, assigneeId: 'staff-2' }
+      ),
+    };
+
+    const [restoredBooth, restoredFlyers] = restoreItemDates(edited, previousItemDates).items;
+    expect(restoredBooth).toMatchObject({ dueDate: '2026-08-01', reminderDates: ['2026-07-25'], status: 'completed' });
+    expect(restoredFlyers).toMatchObject({ dueDate: '2026-08-10', assigneeId: 'staff-2' });
+  });
+});
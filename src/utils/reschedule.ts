@@ -0,0 +1,116 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { AnyActivity, ChecklistInstance, ChecklistItem, ProcedureTemplate } from '../types';
+import { getFiscalYearFromDateString } from './fiscalYear';
+import { getCAStateHoliday, getNonBusinessDayReason, type HolidayLookup } from './businessDays';
+import { previewChecklistDateShifts, type ChecklistDateShift } from './reminderScheduler';
+import { getTemplateAtVersion } from './procedureTemplates';
+
+export type DragMode = 'move' | 'start' | 'end'; // Drag the whole bar or one of its edges
+
+export interface ActivityDates {
+  startDate: string;
+  endDate: string;
+}
+
+export type ItemDates = Pick<ChecklistItem, 'id' | 'dueDate' | 'dueDateAdjustment' | 'reminderDates'>;
+
+// What a reschedule changed, so it can be put back
+export interface RescheduleUndo {
+  activityId: string;
+  previous: Pick<AnyActivity, 'startDate' | 'endDate' | 'fiscalYear' | 'locations'>;
+  checklistId?: string;
+  previousItemDates: ItemDates[]; // Only the shifted items, so other edits since then are kept
+}
+
+function shiftDate(date: string, days: number): string {
+  return format(addDays(parseISO(date), days), 'yyyy-MM-dd');
+}
+
+// New dates after dragging by a number of days. Edges can't be dragged past each other.
+export function applyDragDelta(activity: AnyActivity, mode: DragMode, days: number): ActivityDates {
+  const startDate = activity.startDate;
+  const endDate = activity.endDate || activity.startDate;
+  if (mode === 'move') {
+    return { startDate: shiftDate(startDate, days), endDate: shiftDate(endDate, days) };
+  }
+  if (mode === 'start') {
+    const newStart = shiftDate(startDate, days);
+    return { startDate: newStart > endDate ? endDate : newStart, endDate };
+  }
+  const newEnd = shiftDate(endDate, days);
+  return { startDate, endDate: newEnd < startDate ? startDate : newEnd };
+}
+
+// Activity updates for new dates: the fiscal year follows the start date, and when the
+// whole activity moves its stop dates move with it
+export function getRescheduleUpdates(activity: AnyActivity, dates: ActivityDates): Partial<AnyActivity> {
+  const updates: Partial<AnyActivity> = {
+    startDate: dates.startDate,
+    endDate: dates.endDate,
+    fiscalYear: getFiscalYearFromDateString(dates.startDate),
+  };
+
+  const startDelta = differenceInCalendarDays(parseISO(dates.startDate), parseISO(activity.startDate));
+  const endDelta = differenceInCalendarDays(parseISO(dates.endDate), parseISO(activity.endDate || activity.startDate));
+  if (startDelta !== 0 && startDelta === endDelta && activity.locations?.length) {
+    updates.locations = activity.locations.map((stop) => ({
+      ...stop,
+      startDate: stop.startDate && shiftDate(stop.startDate, startDelta),
+      endDate: stop.endDate && shiftDate(stop.endDate, startDelta),
+    }));
+  }
+  return updates;
+}
+
+// Dates of the items a reschedule will shift, as they are now
+export function getShiftedItemDates(checklist: ChecklistInstance, shifts: ChecklistDateShift[]): ItemDates[] {
+  const shiftedIds = new Set(shifts.map((shift) => shift.itemId));
+  return checklist.items
+    .filter((item) => shiftedIds.has(item.id))
+    .map(({ id, dueDate, dueDateAdjustment, reminderDates }) => ({ id, dueDate, dueDateAdjustment, reminderDates }));
+}
+
+// Put back the dates of shifted items, leaving everything else as it is now
+export function restoreItemDates(checklist: ChecklistInstance, previousItemDates: ItemDates[]): ChecklistInstance {
+  const previousById = new Map(previousItemDates.map((dates) => [dates.id, dates]));
+  return {
+    ...checklist,
+    items: checklist.items.map((item) => {
+      const previous = previousById.get(item.id);
+      return previous ? { ...item, ...previous } : item;
+    }),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// Warnings for new dates that start or end on a weekend, holiday or closure day
+export function getRescheduleWarnings(dates: ActivityDates, getHoliday: HolidayLookup = getCAStateHoliday): string[] {
+  const warnings: string[] = [];
+  const startReason = getNonBusinessDayReason(parseISO(dates.startDate), getHoliday);
+  if (startReason) warnings.push(`Starts on ${startReason}`);
+  if (dates.endDate !== dates.startDate) {
+    const endReason = getNonBusinessDayReason(parseISO(dates.endDate), getHoliday);
+    if (endReason) warnings.push(`Ends on ${endReason}`);
+  }
+  return warnings;
+}
+
+// Checklist due dates that would move with a new start date
+export function previewRescheduleShifts(
+  activity: AnyActivity,
+  checklist: ChecklistInstance | undefined,
+  templates: ProcedureTemplate[],
+  newStartDate: string,
+  getHoliday: HolidayLookup = getCAStateHoliday
+): ChecklistDateShift[] {
+  if (!checklist || newStartDate === activity.startDate) return [];
+  const template = templates.find((t) => t.id === checklist.procedureTemplateId);
+  if (!template) return [];
+  return previewChecklistDateShifts(
+    checklist,
+    getTemplateAtVersion(template, checklist.procedureTemplateVersion),
+    activity.startDate,
+    newStartDate,
+    getHoliday
+  );
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { createChecklist, createItem } from '../test/fixtures';
+import { analyzeSchedule } from './scheduleRisk';
+
+const today = new Date(2026, 7, 1); // 2026-08-01
+
+describe('analyzeSchedule', () => {
+  // research (2 days) -> book-booth (1 day), research -> ship-samples (3 days); print-flyers and
+  // call-venue stand alone
+  const checklist = createChecklist([
+    createItem({ taskId: 'research', estimatedHours: 16, dueDate: '2026-08-05' }),
+    createItem({ taskId: 'book-booth', estimatedHours: 8, dueDate: '2026-08-04', dependsOnTaskIds: ['research'] }),
+    createItem({ taskId: 'ship-samples', estimatedHours: 24, dueDate: '2026-08-10', dependsOnTaskIds: ['research'] }),
+    createItem({ taskId: 'print-flyers', estimatedHours: 8, dueDate: '2026-08-03' }),
+    createItem({ taskId: 'call-venue', estimatedHours: 8, dueDate: '2026-08-02' }),
+    createItem({ taskId: 'done', status: 'completed', dueDate: '2026-07-01' }),
+  ]);
+
+  it('schedules open tasks after their predecessors and back from their dependents', () => {
+    const { tasks } = analyzeSchedule(checklist, undefined, today);
+    const byTask = Object.fromEntries(tasks.map((task) => [task.item.taskId, task]));
+
+    expect(Object.keys(byTask)).not.toContain('done');
+    // Forward pass: ship-samples starts after research's two days
+    expect(byTask['ship-samples']).toMatchObject({ earliestFinish: '2026-08-05', slackDays: 5 });
+    // Backward pass: research must finish in time for book-booth, before its own due date
+    expect(byTask.research).toMatchObject({ earliestFinish: '2026-08-02', latestFinish: '2026-08-03', slackDays: 1 });
+    expect(byTask['print-flyers'].slackDays).toBe(2);
+  });
+
+  it('follows predecessors from the tightest final task', () => {
+    const { criticalPath, tasks } = analyzeSchedule(checklist, undefined, today);
+
+    // call-venue has as little slack, but isn't part of the chain that finishes last
+    expect(criticalPath.map((task) => task.item.taskId)).toEqual(['research', 'book-booth']);
+    expect(tasks.filter((task) => task.isCritical)).toEqual(criticalPath);
+  });
+
+  it('weighs each kind of risk', () => {
+    const risky = createChecklist([
+      createItem({ taskId: 'overdue', assigneeId: 'staff-1', dueDate: '2026-07-30' }),
+      createItem({ taskId: 'late', assigneeId: 'staff-1', estimatedHours: 16, dueDate: '2026-08-01' }),
+      createItem({ taskId: 'blocked', assigneeId: 'staff-1', status: 'blocked', dueDate: '2026-09-01' }),
+      createItem({ taskId: 'unassigned', dueDate: '2026-09-01' }),
+    ]);
+
+    const analysis = analyzeSchedule(risky, undefined, today);
+    expect(analysis.riskFactors).toEqual([
+      '1 overdue task on the critical path',
+      "1 task can't finish by the due date",
+      '1 blocked task',
+      '1 required task unassigned',
+    ]);
+    expect(analysis).toMatchObject({ riskScore: 25 + 10 + 15 + 5, riskLevel: 'high' });
+  });
+});
@@ -0,0 +1,161 @@
+import { addDays, differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+import type { AnyActivity, ChecklistInstance, ChecklistItem, ProcedureTemplate } from '../types';
+import { getDependencyLayers } from './taskDependencies';
+import { getItemHours } from './workload';
+
+export const WORK_HOURS_PER_DAY = 8;
+
+export interface TaskSchedule {
+  item: ChecklistItem;
+  durationDays: number; // From estimated hours; at least one day
+  earliestFinish: string; // YYYY-MM-DD, if started today and predecessors finish on time
+  latestFinish: string; // YYYY-MM-DD, latest finish that keeps this and every dependent on time
+  slackDays: number; // Negative when the task can no longer finish in time
+  isCritical: boolean; // On the critical path
+  isOverdue: boolean;
+}
+
+export type ScheduleRiskLevel = 'low' | 'medium' | 'high';
+
+export interface ScheduleAnalysis {
+  tasks: TaskSchedule[]; // Open tasks, predecessors first
+  criticalPath: TaskSchedule[]; // Chain of dependent tasks, first to last, ending at the tightest final task
+  riskScore: number; // 0-100
+  riskLevel: ScheduleRiskLevel;
+  riskFactors: string[];
+}
+
+const RISK_WEIGHTS = {
+  overdueCritical: 25,
+  late: 10, // Not yet overdue, but can't finish by its due date
+  blocked: 15,
+  unassignedRequired: 5,
+};
+
+function isClosed(item: ChecklistItem): boolean {
+  return item.status === 'completed' || item.status === 'skipped';
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count !== 1 ? 's' : ''}`;
+}
+
+export function getRiskLevel(score: number): ScheduleRiskLevel {
+  if (score >= 50) return 'high';
+  if (score >= 20) return 'medium';
+  return 'low';
+}
+
+// Critical path and schedule risk for a checklist. Open tasks are scheduled from today:
+// a task can start once its open predecessors finish, and must finish by its due date
+// and in time for every task that depends on it. Days are counted from the start of today.
+export function analyzeSchedule(
+  checklist: ChecklistInstance,
+  template: ProcedureTemplate | undefined,
+  today: Date = new Date()
+): ScheduleAnalysis {
+  const day0 = startOfDay(today);
+  const open = getDependencyLayers(checklist).flat().filter((item) => !isClosed(item));
+  const openByTaskId = new Map(open.map((item) => [item.taskId, item]));
+
+  const duration = new Map<string, number>();
+  const successors = new Map<string, ChecklistItem[]>();
+  for (const item of open) {
+    duration.set(item.id, Math.max(1, Math.ceil(getItemHours(item, template) / WORK_HOURS_PER_DAY)));
+    for (const taskId of item.dependsOnTaskIds || []) {
+      const predecessor = openByTaskId.get(taskId);
+      if (predecessor) successors.set(predecessor.id, [...(successors.get(predecessor.id) || []), item]);
+    }
+  }
+
+  // Forward pass: earliest finish
+  const earliestFinish = new Map<string, number>();
+  for (const item of open) {
+    const start = Math.max(
+      0,
+      ...(item.dependsOnTaskIds || []).map((taskId) => {
+        const predecessor = openByTaskId.get(taskId);
+        return predecessor ? earliestFinish.get(predecessor.id) ?? 0 : 0;
+      })
+    );
+    earliestFinish.set(item.id, start + duration.get(item.id)!);
+  }
+
+  // Backward pass: latest finish
+  const latestFinish = new Map<string, number>();
+  for (const item of [...open].reverse()) {
+    const dueBy = differenceInCalendarDays(parseISO(item.dueDate), day0) + 1;
+    const successorStarts = (successors.get(item.id) || []).map(
+      (successor) => (latestFinish.get(successor.id) ?? dueBy) - duration.get(successor.id)!
+    );
+    latestFinish.set(item.id, Math.min(dueBy, ...successorStarts));
+  }
+
+  // Critical path: from the tightest task nothing else depends on, back through its tightest
+  // predecessor at each step. Ties go to the later finish, the one that holds up the chain.
+  const slack = (item: ChecklistItem) => latestFinish.get(item.id)! - earliestFinish.get(item.id)!;
+  const tighter = (a: ChecklistItem, b: ChecklistItem) =>
+    slack(a) - slack(b) || earliestFinish.get(b.id)! - earliestFinish.get(a.id)!;
+  const finalTasks = open.filter((item) => !successors.has(item.id));
+  const pathIds: string[] = [];
+  // Only a dependency cycle in older data leaves no final task
+  let step: ChecklistItem | undefined = (finalTasks.length > 0 ? finalTasks : [...open]).sort(tighter)[0];
+  while (step && !pathIds.includes(step.id)) {
+    pathIds.unshift(step.id);
+    step = (step.dependsOnTaskIds || [])
+      .map((taskId) => openByTaskId.get(taskId))
+      .filter((item): item is ChecklistItem => !!item)
+      .sort(tighter)[0];
+  }
+
+  const tasks: TaskSchedule[] = open.map((item) => {
+    const slackDays = slack(item);
+    return {
+      item,
+      durationDays: duration.get(item.id)!,
+      earliestFinish: format(addDays(day0, earliestFinish.get(item.id)! - 1), 'yyyy-MM-dd'),
+      latestFinish: format(addDays(day0, latestFinish.get(item.id)! - 1), 'yyyy-MM-dd'),
+      slackDays,
+      isCritical: pathIds.includes(item.id),
+      isOverdue: parseISO(item.dueDate) < day0,
+    };
+  });
+  const tasksById = new Map(tasks.map((task) => [task.item.id, task]));
+  const criticalPath = pathIds.map((id) => tasksById.get(id)!);
+
+  const overdueCritical = criticalPath.filter((task) => task.isOverdue).length;
+  // Overdue tasks off the critical path are late too
+  const late = tasks.filter((task) => task.slackDays < 0 && !(task.isOverdue && task.isCritical)).length;
+  const blocked = open.filter((item) => item.status === 'blocked').length;
+  const unassignedRequired = open.filter((item) => item.isRequired && !item.assigneeId).length;
+
+  const riskFactors: string[] = [];
+  if (overdueCritical > 0) riskFactors.push(`${plural(overdueCritical, 'overdue task')} on the critical path`);
+  if (late > 0) riskFactors.push(`${plural(late, 'task')} can't finish by the due date`);
+  if (blocked > 0) riskFactors.push(`${plural(blocked, 'blocked task')}`);
+  if (unassignedRequired > 0) riskFactors.push(`${plural(unassignedRequired, 'required task')} unassigned`);
+
+  const riskScore = Math.min(
+    100,
+    overdueCritical * RISK_WEIGHTS.overdueCritical +
+      late * RISK_WEIGHTS.late +
+      blocked * RISK_WEIGHTS.blocked +
+      unassignedRequired * RISK_WEIGHTS.unassignedRequired
+  );
+
+  return { tasks, criticalPath, riskScore, riskLevel: getRiskLevel(riskScore), riskFactors };
+}
+
+// Schedule analysis for an activity, or null when there is nothing left to schedule
+export function getActivityScheduleAnalysis(
+  activity: AnyActivity,
+  checklist: ChecklistInstance | undefined,
+  templates: ProcedureTemplate[]
+): ScheduleAnalysis | null {
+  if (!checklist || activity.status === 'completed' || activity.status === 'cancelled') return null;
+  const analysis = analyzeSchedule(
+    checklist,
+    templates.find((t) => t.id === checklist.procedureTemplateId)
+  );
+  return analysis.tasks.length > 0 ? analysis : null;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { createActivity, createStaff } from '../test/fixtures';
+import { CURRENT_SCHEMA_VERSION, DataValidationError, migratePersistedData } from './schemaMigration';
+
+describe('migratePersistedData', () => {
+  const broken = { ...createActivity({ id: 'activity-2', name: 'Broken' }), startDate: '09/01/2026' };
+  const saved = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    activities: [createActivity(), broken],
+    staffMembers: [createStaff(), 'not a record'],
+  };
+
+  it('rejects the whole file when any record is invalid', () => {
+    expect(() => migratePersistedData(saved)).toThrow(DataValidationError);
+  });
+
+  it('keeps the valid records and reports the invalid ones when dropping them', () => {
+    const { data, droppedRecords } = migratePersistedData(saved, { dropInvalidRecords: true });
+
+    expect(data.activities?.map((a) => a.id)).toEqual(['activity-1']);
+    expect(data.staffMembers?.map((s) => s.id)).toEqual(['staff-1']);
+    expect(droppedRecords).toEqual([
+      {
+        store: 'activities',
+        record: broken,
+        issues: ['activities[1] ("Broken"): startDate "09/01/2026" is not a YYYY-MM-DD date'],
+      },
+      { store: 'staffMembers', record: 'not a record', issues: ['staffMembers[1] is not an object'] },
+    ]);
+  });
+
+  it('still rejects data that is unusable as a whole', () => {
+    expect(() => migratePersistedData({ ...saved, activities: {} }, { dropInvalidRecords: true })).toThrow(
+      'activities must be a list'
+    );
+  });
+});
@@ -0,0 +1,255 @@
+import type { BuiltInActivityType, EducationalFormat, TradeEventType } from '../types';
+import type { EntityStoreName, PersistedData } from '../services/storage';
+
+// Bump when the saved data shape changes, and add a migration from the previous version
+export const CURRENT_SCHEMA_VERSION = 2;
+// Data saved before versioning was added has no schemaVersion
+const UNVERSIONED_SCHEMA_VERSION = 1;
+const MAX_REPORTED_ISSUES = 5;
+
+type DataRecord = Record<string, unknown>;
+
+// Saved or imported data that can't be used, with every problem found
+export class DataValidationError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'DataValidationError';
+    this.issues = issues;
+  }
+}
+
+// A saved record left out because it failed validation
+export interface DroppedRecord {
+  store: EntityStoreName;
+  record: unknown;
+  issues: string[];
+}
+
+export interface MigrationResult {
+  data: Partial<PersistedData>; // Validated; missing lists are filled in by normalizeData
+  fromVersion: number; // Schema version the data was saved with
+  droppedRecords: DroppedRecord[]; // Only when migrating with dropInvalidRecords
+}
+
+export interface MigrationOptions {
+  // Leave out records that fail validation instead of rejecting the data, so one bad record
+  // doesn't hide everything else. Problems with the data as a whole still throw.
+  dropInvalidRecords?: boolean;
+}
+
+const LEGACY_EVENT_TYPES: Record<TradeEventType, BuiltInActivityType> = {
+  trade_show: 'trade_show',
+  trade_mission: 'outbound_trade_mission',
+  reverse_mission: 'inbound_trade_mission',
+};
+
+// Formats without a built-in type of their own became seminars
+const LEGACY_FORMATS: Record<EducationalFormat, BuiltInActivityType> = {
+  seminar: 'seminar',
+  webinar: 'webinar',
+  workshop: 'seminar',
+  conference: 'seminar',
+  training: 'seminar',
+};
+
+// Same defaults the create actions use for each legacy program
+const LEGACY_PROGRAM_TYPES: Record<string, BuiltInActivityType> = {
+  trade_assistance: 'trade_show',
+  educational: 'webinar',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isRecord(value: unknown): value is DataRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function mapRecords(value: unknown, migrate: (record: DataRecord) => DataRecord): unknown {
+  return Array.isArray(value) ? value.map((item) => (isRecord(item) ? migrate(item) : item)) : value;
+}
+
+// Version 1 -> 2: activityType replaces the legacy eventType/format fields, and list fields are always set
+function migrateActivityV2(activity: DataRecord): DataRecord {
+  const { eventType, format, ...rest } = activity;
+  const activityType =
+    (typeof rest.activityType === 'string' && rest.activityType) ||
+    LEGACY_EVENT_TYPES[eventType as TradeEventType] ||
+    LEGACY_FORMATS[format as EducationalFormat] ||
+    LEGACY_PROGRAM_TYPES[rest.type as string] ||
+    rest.activityType;
+  return {
+    ...rest,
+    activityType,
+    locations: Array.isArray(rest.locations) ? rest.locations : [],
+    teamMemberIds: Array.isArray(rest.teamMemberIds) ? rest.teamMemberIds : [],
+    tags: Array.isArray(rest.tags) ? rest.tags : [],
+  };
+}
+
+// Migrations keyed by the version they upgrade from
+const MIGRATIONS: Record<number, (data: DataRecord) => DataRecord> = {
+  1: (data) => ({ ...data, activities: mapRecords(data.activities, migrateActivityV2) }),
+};
+
+function getSchemaVersion(data: DataRecord): number {
+  const version = data.schemaVersion ?? UNVERSIONED_SCHEMA_VERSION;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < UNVERSIONED_SCHEMA_VERSION) {
+    throw new DataValidationError(`Unrecognized schema version: ${String(version)}`);
+  }
+  return version;
+}
+
+function describeRecord(store: string, index: number, record: DataRecord): string {
+  return typeof record.name === 'string' && record.name ? `${store}[${index}] ("${record.name}")` : `${store}[${index}]`;
+}
+
+function checkString(issues: string[], label: string, record: DataRecord, field: string, allowEmpty = true) {
+  const value = record[field];
+  if (typeof value !== 'string' || (!allowEmpty && !value)) {
+    issues.push(`${label}: ${field} is missing`);
+  }
+}
+
+function checkDate(issues: string[], label: string, record: DataRecord, field: string) {
+  const value = record[field];
+  if (typeof value !== 'string') {
+    issues.push(`${label}: ${field} is missing`);
+  } else if (value && !DATE_PATTERN.test(value)) {
+    issues.push(`${label}: ${field} "${value}" is not a YYYY-MM-DD date`);
+  }
+}
+
+// Field checks per store, beyond every record needing a unique id
+const RECORD_CHECKS: Record<EntityStoreName, (issues: string[], label: string, record: DataRecord) => void> = {
+  activities: (issues, label, record) => {
+    checkString(issues, label, record, 'name');
+    checkString(issues, label, record, 'activityType', false);
+    checkDate(issues, label, record, 'startDate');
+    checkDate(issues, label, record, 'endDate');
+  },
+  checklistInstances: (issues, label, record) => {
+    checkString(issues, label, record, 'activityId', false);
+    if (!Array.isArray(record.items)) issues.push(`${label}: items must be a list`);
+  },
+  staffMembers: (issues, label, record) => checkString(issues, label, record, 'name'),
+  customActivityTypes: (issues, label, record) => checkString(issues, label, record, 'name'),
+  closureDays: (issues, label, record) => checkDate(issues, label, record, 'date'),
+  procedureTemplates: (issues, label, record) => {
+    checkString(issues, label, record, 'name');
+    if (!Array.isArray(record.phases)) issues.push(`${label}: phases must be a list`);
+  },
+};
+
+interface RecordIssues {
+  store: EntityStoreName;
+  index: number;
+  issues: string[];
+}
+
+// Problems with the record lists, and with each record, in the order found
+function findStoreIssues(data: DataRecord): { issues: string[]; recordIssues: RecordIssues[] } {
+  const issues: string[] = [];
+  const recordIssues: RecordIssues[] = [];
+
+  for (const store of Object.keys(RECORD_CHECKS) as EntityStoreName[]) {
+    const checkRecord = RECORD_CHECKS[store];
+    const records = data[store];
+    if (records === undefined) continue;
+    if (!Array.isArray(records)) {
+      issues.push(`${store} must be a list`);
+      continue;
+    }
+
+    const seenIds = new Set<string>();
+    records.forEach((record, index) => {
+      const found: string[] = [];
+      if (!isRecord(record)) {
+        found.push(`${store}[${index}] is not an object`);
+      } else {
+        const label = describeRecord(store, index, record);
+        if (typeof record.id !== 'string' || !record.id) {
+          found.push(`${label}: id is missing`);
+        } else if (seenIds.has(record.id)) {
+          found.push(`${label}: id "${record.id}" is used more than once`);
+        } else {
+          seenIds.add(record.id);
+        }
+        checkRecord(found, label, record);
+      }
+      if (found.length > 0) recordIssues.push({ store, index, issues: found });
+    });
+  }
+  return { issues, recordIssues };
+}
+
+// Problems that would stop the app from using the data, described for the person importing it
+export function validatePersistedData(data: DataRecord): string[] {
+  const { issues, recordIssues } = findStoreIssues(data);
+  const allIssues = [...issues, ...recordIssues.flatMap((r) => r.issues)];
+
+  if (data.currentUserId != null && typeof data.currentUserId !== 'string') {
+    allIssues.push('currentUserId must be text');
+  }
+  for (const key of ['reminderStates', 'userPreferences']) {
+    if (data[key] !== undefined && !isRecord(data[key])) allIssues.push(`${key} must be an object`);
+  }
+  return allIssues;
+}
+
+// Split the records that fail validation out of the data
+function dropInvalidRecords(data: DataRecord): { data: DataRecord; droppedRecords: DroppedRecord[] } {
+  const { recordIssues } = findStoreIssues(data);
+  if (recordIssues.length === 0) return { data, droppedRecords: [] };
+
+  const kept = { ...data };
+  const droppedRecords: DroppedRecord[] = [];
+  for (const store of new Set(recordIssues.map((r) => r.store))) {
+    const records = data[store] as unknown[];
+    const invalid = new Map(recordIssues.filter((r) => r.store === store).map((r) => [r.index, r.issues]));
+    kept[store] = records.filter((_, index) => !invalid.has(index));
+    invalid.forEach((issues, index) => droppedRecords.push({ store, record: records[index], issues }));
+  }
+  return { data: kept, droppedRecords };
+}
+
+// Bring saved or imported data up to the current schema and check it can be loaded.
+// Throws a DataValidationError if it is malformed or from a newer version of the app.
+export function migratePersistedData(
+  raw: unknown,
+  { dropInvalidRecords: dropInvalid = false }: MigrationOptions = {}
+): MigrationResult {
+  if (!isRecord(raw)) {
+    throw new DataValidationError('Data must be a JSON object');
+  }
+
+  const fromVersion = getSchemaVersion(raw);
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new DataValidationError(
+      `This data was saved by a newer version of Project Manager (schema ${fromVersion}, this version reads up to ${CURRENT_SCHEMA_VERSION}). Update the app to open it.`
+    );
+  }
+
+  let data = raw;
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    data = MIGRATIONS[version](data);
+  }
+
+  let droppedRecords: DroppedRecord[] = [];
+  if (dropInvalid) ({ data, droppedRecords } = dropInvalidRecords(data));
+
+  const issues = validatePersistedData(data);
+  if (issues.length > 0) {
+    const listed = issues.slice(0, MAX_REPORTED_ISSUES).join('; ');
+    const more = issues.length > MAX_REPORTED_ISSUES ? ` (and ${issues.length - MAX_REPORTED_ISSUES} more)` : '';
+    throw new DataValidationError(
+      `Found ${issues.length} problem${issues.length === 1 ? '' : 's'} in the data: ${listed}${more}`,
+      issues
+    );
+  }
+
+  const fields = { ...data };
+  delete fields.schemaVersion;
+  return { data: fields as Partial<PersistedData>, fromVersion, droppedRecords };
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { createStaffFromAuthUser, getAuthProfileUpdates, getClaimedRole, hasActiveManager } from './staff';
+
+// An unsigned JWT carrying the given claims, base64url encoded like a real ID token
+function createIdToken(claims: Record<string, unknown>): string {
+  const encode = (value: object) =>
+    btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `${encode({ alg: 'none' })}.${encode(claims)}.`;
+}
+
+describe('staff roles from the Hub', () => {
+  const user = { uid: 'user-1', email: 'ana@example.com', displayName: 'Ana', photoURL: null };
+
+  it('reads the role the Hub granted in the ID token', () => {
+    expect(getClaimedRole(createIdToken({ sub: 'user-1', projectManagerRole: 'manager' }))).toBe('manager');
+  });
+
+  it('ignores missing, unknown and malformed claims', () => {
+    expect(getClaimedRole(null)).toBeNull();
+    expect(getClaimedRole(createIdToken({ sub: 'user-1' }))).toBeNull();
+    expect(getClaimedRole(createIdToken({ projectManagerRole: 'owner' }))).toBeNull();
+    expect(getClaimedRole('not-a-token')).toBeNull();
+  });
+
+  it('starts users without a claimed role as specialists', () => {
+    expect(createStaffFromAuthUser(user, null, false).role).toBe('specialist');
+    expect(createStaffFromAuthUser(user, 'admin', false).role).toBe('admin');
+  });
+
+  it('makes the first user of a team without a manager its admin', () => {
+    const specialist = { ...createStaffFromAuthUser(user, null, false), id: 'user-2' };
+    const manager = { ...specialist, id: 'user-3', role: 'manager' as const };
+
+    expect(hasActiveManager([specialist])).toBe(false);
+    expect(hasActiveManager([specialist, { ...manager, isActive: false }])).toBe(false);
+    expect(hasActiveManager([specialist, manager])).toBe(true);
+    expect(createStaffFromAuthUser(user, null, true).role).toBe('admin');
+    expect(createStaffFromAuthUser(user, 'viewer', true).role).toBe('viewer');
+  });
+
+  it('promotes an existing specialist when no manager is left', () => {
+    const staff = createStaffFromAuthUser(user, null, false);
+
+    expect(getAuthProfileUpdates(staff, user, null, true)).toEqual({ role: 'admin' });
+    expect(getAuthProfileUpdates(staff, user, null, false)).toBeNull();
+    expect(getAuthProfileUpdates({ ...staff, isActive: false }, user, null, true)).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import type { AnyActivity, ChecklistInstance, StaffMember, StaffRole } from '../types';
+import type { AuthUser } from '../services/authBridge';
+
+export const STAFF_ROLES: { value: StaffRole; label: string }[] = [
+  { value: 'admin', label: 'Admin' },
+  { value: 'manager', label: 'Manager' },
+  { value: 'coordinator', label: 'Coordinator' },
+  { value: 'specialist', label: 'Specialist' },
+  { value: 'viewer', label: 'Viewer' },
+];
+
+// Custom claim the Hub sets on a user's ID token to grant them a role in this app
+const ROLE_CLAIM = 'projectManagerRole';
+
+// Role the Hub granted in the ID token's claims, or null when it grants none
+export function getClaimedRole(idToken: string | null): StaffRole | null {
+  const payload = idToken?.split('.')[1];
+  if (!payload) return null;
+  try {
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    const role = claims[ROLE_CLAIM];
+    return STAFF_ROLES.some((r) => r.value === role) ? role : null;
+  } catch {
+    return null;
+  }
+}
+
+// Role of whoever uses the app outside the Hub or signed out. The data is only in their
+// browser, so they manage all of it.
+export const LOCAL_USER_ROLE: StaffRole = 'admin';
+
+// Whether any active staff member can manage staff, and so promote the others
+export function hasActiveManager(staffMembers: StaffMember[]): boolean {
+  return staffMembers.some((s) => s.isActive && (s.role === 'admin' || s.role === 'manager'));
+}
+
+// Build a staff record for a Hub user. The role comes from the Hub's claims; without one the
+// first user of a team with no manager becomes its admin, and anyone else starts as a
+// specialist until a manager changes it.
+export function createStaffFromAuthUser(
+  user: AuthUser,
+  claimedRole: StaffRole | null,
+  isFirstManager: boolean
+): StaffMember {
+  return {
+    id: user.uid,
+    name: user.displayName || user.email || 'Unnamed user',
+    email: user.email || '',
+    role: claimedRole ?? (isFirstManager ? 'admin' : 'specialist'),
+    isActive: true,
+    avatarUrl: user.photoURL || undefined,
+  };
+}
+
+// Profile fields and role that changed in the Hub since the staff record was last synced.
+// An active user becomes admin when the team has no manager left to promote anyone.
+export function getAuthProfileUpdates(
+  staff: StaffMember,
+  user: AuthUser,
+  claimedRole: StaffRole | null,
+  isFirstManager: boolean
+): Partial<StaffMember> | null {
+  const updates: Partial<StaffMember> = {};
+  if (user.displayName && user.displayName !== staff.name) updates.name = user.displayName;
+  if (user.email && user.email !== staff.email) updates.email = user.email;
+  if ((user.photoURL || undefined) !== staff.avatarUrl) updates.avatarUrl = user.photoURL || undefined;
+  if (claimedRole && claimedRole !== staff.role) {
+    updates.role = claimedRole;
+  } else if (!claimedRole && isFirstManager && staff.isActive && staff.role !== 'admin') {
+    updates.role = 'admin';
+  }
+  return Object.keys(updates).length > 0 ? updates : null;
+}
+
+// Count where a staff member is referenced (lead, team member, task assignee)
+export function getStaffUsageCount(
+  staffId: string,
+  activities: AnyActivity[],
+  checklists: ChecklistInstance[]
+): number {
+  const activityCount = activities.filter(
+    (a) => a.leadStaffId === staffId || a.teamMemberIds.includes(staffId)
+  ).length;
+  const taskCount = checklists.reduce(
+    (sum, c) => sum + c.items.filter((item) => item.assigneeId === staffId).length,
+    0
+  );
+  return activityCount + taskCount;
+}
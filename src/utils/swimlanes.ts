@@ -0,0 +1,123 @@
+import type { AnyActivity, CustomActivityType, StaffMember, TradeActivity } from '../types';
+import { getActivityCategory } from '../types';
+import { getPrimaryCountry } from './holidays';
+import { findStaffOverlaps, getActivityStaffIds, type LeadOverlap } from './workload';
+
+export type SwimlaneGroupBy = 'none' | 'lead' | 'team' | 'market' | 'country' | 'fiscalYear' | 'category';
+
+export const SWIMLANE_GROUP_OPTIONS: { value: SwimlaneGroupBy; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'lead', label: 'Lead staff' },
+  { value: 'team', label: 'Team member' },
+  { value: 'market', label: 'Target market' },
+  { value: 'country', label: 'Country' },
+  { value: 'fiscalYear', label: 'Fiscal year' },
+  { value: 'category', label: 'Category' },
+];
+
+export interface SwimlaneConflict extends LeadOverlap {
+  start: string; // First day both activities run (YYYY-MM-DD)
+  end: string; // Last day both activities run
+}
+
+export interface Swimlane {
+  key: string; // Empty for the lane of activities without a value
+  label: string;
+  activities: AnyActivity[];
+  conflicts: SwimlaneConflict[]; // Same staff member on overlapping activities in this lane
+  conflictActivityIds: Set<string>;
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  trade: 'Trade',
+  educational: 'Educational',
+  consultation: 'Consultation',
+  other: 'Other',
+};
+
+const EMPTY_LANE_LABELS: Record<Exclude<SwimlaneGroupBy, 'none'>, string> = {
+  lead: 'No lead',
+  team: 'No staff',
+  market: 'No target market',
+  country: 'No country',
+  fiscalYear: 'No fiscal year',
+  category: 'Other',
+};
+
+// Lane keys for an activity; staffed activities appear in one lane per team member
+function getLaneKeys(activity: AnyActivity, groupBy: SwimlaneGroupBy, customTypes: CustomActivityType[]): string[] {
+  switch (groupBy) {
+    case 'lead':
+      return [activity.leadStaffId || ''];
+    case 'team': {
+      const staffIds = getActivityStaffIds(activity);
+      return staffIds.length > 0 ? staffIds : [''];
+    }
+    case 'market':
+      return [(activity as TradeActivity).targetMarket?.trim() || ''];
+    case 'country':
+      return [getPrimaryCountry(activity) || ''];
+    case 'fiscalYear':
+      return [activity.fiscalYear || ''];
+    case 'category':
+      return [getActivityCategory(activity.activityType, customTypes)];
+    default:
+      return [''];
+  }
+}
+
+function getLaneLabel(
+  key: string,
+  groupBy: Exclude<SwimlaneGroupBy, 'none'>,
+  staffMembers: StaffMember[]
+): string {
+  if (!key) return EMPTY_LANE_LABELS[groupBy];
+  if (groupBy === 'lead' || groupBy === 'team') {
+    return staffMembers.find((s) => s.id === key)?.name || 'Unknown staff';
+  }
+  if (groupBy === 'category') return CATEGORY_LABELS[key] || key;
+  return key;
+}
+
+// Arrange activities into lanes, sorted by label with the empty lane last. Activities keep their order within a lane.
+export function getSwimlanes(
+  activities: AnyActivity[],
+  groupBy: Exclude<SwimlaneGroupBy, 'none'>,
+  staffMembers: StaffMember[],
+  customTypes: CustomActivityType[] = []
+): Swimlane[] {
+  const byKey = new Map<string, AnyActivity[]>();
+  for (const activity of activities) {
+    for (const key of getLaneKeys(activity, groupBy, customTypes)) {
+      byKey.set(key, [...(byKey.get(key) || []), activity]);
+    }
+  }
+
+  const isStaffLane = groupBy === 'lead' || groupBy === 'team';
+  const lanes = Array.from(byKey.entries()).map(([key, laneActivities]) => {
+    const conflicts = findStaffOverlaps(laneActivities, staffMembers)
+      // In a staff lane only that person's double-booking matters
+      .filter((overlap) => !isStaffLane || overlap.staffId === key)
+      .map((overlap) => ({
+        ...overlap,
+        start: overlap.first.startDate > overlap.second.startDate ? overlap.first.startDate : overlap.second.startDate,
+        end:
+          (overlap.first.endDate || overlap.first.startDate) < (overlap.second.endDate || overlap.second.startDate)
+            ? overlap.first.endDate || overlap.first.startDate
+            : overlap.second.endDate || overlap.second.startDate,
+      }));
+    return {
+      key,
+      label: getLaneLabel(key, groupBy, staffMembers),
+      activities: laneActivities,
+      conflicts,
+      conflictActivityIds: new Set(conflicts.flatMap((c) => [c.first.id, c.second.id])),
+    };
+  });
+
+  return lanes.sort((a, b) => {
+    if (!a.key) return 1;
+    if (!b.key) return -1;
+    return a.label.localeCompare(b.label);
+  });
+}
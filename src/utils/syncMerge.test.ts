@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { createActivity, createChecklist, createItem } from '../test/fixtures';
+import { mergeActivity, mergeChecklist, resolveMergeConflicts } from './syncMerge';
+
+describe('mergeActivity', () => {
+  const base = createActivity({ revision: 1 });
+
+  it('takes the side that changed when the other is still at the base revision', () => {
+    const local = { ...base, name: 'Renamed here', revision: 2 };
+
+    expect(mergeActivity(base, local, base).merged).toBe(local);
+    expect(mergeActivity(base, base, local).merged).toBe(local);
+  });
+
+  it('combines different fields and reports fields both sides changed', () => {
+    const local = { ...base, name: 'Renamed here', location: 'Tokyo', revision: 2 };
+    const remote = { ...base, notes: 'Booth confirmed', location: 'Osaka', revision: 2 };
+
+    const { merged, conflicts } = mergeActivity(base, local, remote);
+    expect(merged).toMatchObject({ name: 'Renamed here', notes: 'Booth confirmed', location: 'Tokyo', revision: 3 });
+    expect(conflicts).toEqual([{ field: 'location', path: 'location', local: 'Tokyo', remote: 'Osaka' }]);
+    expect(resolveMergeConflicts({ merged, conflicts }, new Set(['location'])).location).toBe('Osaka');
+  });
+});
+
+describe('mergeChecklist', () => {
+  const book = createItem({ taskId: 'book-booth', revision: 1 });
+  const ship = createItem({ taskId: 'ship-samples', revision: 1 });
+  const base = createChecklist([book, ship]);
+
+  it('merges item by item and recounts', () => {
+    const local = createChecklist([{ ...book, status: 'completed', revision: 2 }, ship]);
+    const remote = createChecklist([book, { ...ship, assigneeId: 'staff-2', revision: 2 }]);
+
+    const { merged, conflicts } = mergeChecklist(base, local, remote);
+    expect(conflicts).toEqual([]);
+    expect(merged.items.map((item) => [item.status, item.assigneeId])).toEqual([
+      ['completed', undefined],
+      ['not_started', 'staff-2'],
+    ]);
+    expect(merged.completedCount).toBe(1);
+  });
+
+  it('keeps items added on either side and an edited item the other side deleted', () => {
+    const added = createItem({ taskId: 'print-flyers' });
+    const local = createChecklist([book, { ...ship, notes: [], title: 'Ship samples by air', revision: 2 }, added]);
+    const remote = createChecklist([book]);
+
+    expect(mergeChecklist(base, local, remote).merged.items.map((item) => item.id)).toEqual([
+      book.id,
+      ship.id,
+      added.id,
+    ]);
+    // Deleted remotely without local edits: stays deleted
+    expect(mergeChecklist(base, base, remote).merged.items.map((item) => item.id)).toEqual([book.id]);
+  });
+
+  it('reports item fields both sides changed by item path', () => {
+    const local = createChecklist([{ ...book, dueDate: '2026-08-05', revision: 2 }, ship]);
+    const remote = createChecklist([{ ...book, dueDate: '2026-08-10', revision: 2 }, ship]);
+
+    const { conflicts } = mergeChecklist(base, local, remote);
+    expect(conflicts.map((c) => [c.path, c.itemId])).toEqual([[`items.${book.id}.dueDate`, book.id]]);
+  });
+});
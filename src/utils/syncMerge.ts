@@ -0,0 +1,176 @@
+import type { AnyActivity, ChecklistInstance, ChecklistItem } from '../types';
+import { updateChecklistCounts } from './reminderScheduler';
+
+export interface FieldConflict {
+  path: string; // Field name, or items.<itemId>.<field> for a checklist item field
+  field: string;
+  itemId?: string; // Set for checklist item fields
+  local: unknown;
+  remote: unknown;
+}
+
+export interface MergeResult<T> {
+  merged: T; // Both sides' changes combined, with the local value wherever they conflict
+  conflicts: FieldConflict[];
+}
+
+// Checklist fields derived from the items, recalculated after merging
+const CHECKLIST_DERIVED_FIELDS = ['items', 'completedCount', 'totalCount', 'overdueCount', 'updatedAt'];
+
+// Deep equality that ignores key order and treats missing, undefined and null alike
+export function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a == null || b == null) return a == null && b == null;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((v, i) => isSameValue(v, b[i]));
+  }
+  if (typeof a === 'object' && typeof b === 'object') {
+    const aRecord = a as Record<string, unknown>;
+    const bRecord = b as Record<string, unknown>;
+    const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+    return Array.from(keys).every((key) => isSameValue(aRecord[key], bRecord[key]));
+  }
+  return false;
+}
+
+// Three-way merge of a record's fields: a field changed on one side only takes that side's value
+function mergeFields<T extends object>(
+  base: T | undefined,
+  local: T,
+  remote: T,
+  skipFields: string[]
+): { merged: T; conflicts: Array<{ field: string; local: unknown; remote: unknown }> } {
+  const baseRecord = (base || {}) as Record<string, unknown>;
+  const localRecord = local as Record<string, unknown>;
+  const remoteRecord = remote as Record<string, unknown>;
+  const merged: Record<string, unknown> = { ...localRecord };
+  const conflicts: Array<{ field: string; local: unknown; remote: unknown }> = [];
+
+  const fields = new Set([...Object.keys(localRecord), ...Object.keys(remoteRecord)]);
+  for (const field of fields) {
+    if (skipFields.includes(field)) continue;
+    const localValue = localRecord[field];
+    const remoteValue = remoteRecord[field];
+    if (isSameValue(localValue, remoteValue) || isSameValue(baseRecord[field], remoteValue)) continue;
+    if (isSameValue(baseRecord[field], localValue)) {
+      merged[field] = remoteValue;
+    } else {
+      conflicts.push({ field, local: localValue, remote: remoteValue });
+    }
+  }
+  return { merged: merged as T, conflicts };
+}
+
+const getRevision = (record: { revision?: number } | undefined) => record?.revision ?? 0;
+
+function nextRevision(local: { revision?: number }, remote: { revision?: number }): number {
+  return Math.max(getRevision(local), getRevision(remote)) + 1;
+}
+
+// Combine local and remote edits made to an activity since the base revision both started from
+export function mergeActivity(base: AnyActivity | undefined, local: AnyActivity, remote: AnyActivity): MergeResult<AnyActivity> {
+  if (base && getRevision(remote) === getRevision(base)) return { merged: local, conflicts: [] };
+  if (base && getRevision(local) === getRevision(base)) return { merged: remote, conflicts: [] };
+
+  const { merged, conflicts } = mergeFields(base, local, remote, ['revision', 'updatedAt']);
+  return {
+    merged: { ...merged, revision: nextRevision(local, remote), updatedAt: new Date().toISOString() },
+    conflicts: conflicts.map((c) => ({ ...c, path: c.field })),
+  };
+}
+
+// Combine local and remote edits to a record without revisions (staff, types, templates,
+// closure days), field by field against the last synced version
+export function mergeRecordFields<T extends object>(base: T | undefined, local: T, remote: T): MergeResult<T> {
+  if (base && isSameValue(remote, base)) return { merged: local, conflicts: [] };
+  if (base && isSameValue(local, base)) return { merged: remote, conflicts: [] };
+
+  const { merged, conflicts } = mergeFields(base, local, remote, ['updatedAt']);
+  const mergedRecord = 'updatedAt' in merged ? { ...merged, updatedAt: new Date().toISOString() } : merged;
+  return { merged: mergedRecord, conflicts: conflicts.map((c) => ({ ...c, path: c.field })) };
+}
+
+function mergeChecklistItem(
+  base: ChecklistItem | undefined,
+  local: ChecklistItem,
+  remote: ChecklistItem
+): MergeResult<ChecklistItem> {
+  if (getRevision(remote) === getRevision(base)) return { merged: local, conflicts: [] };
+  if (getRevision(local) === getRevision(base)) return { merged: remote, conflicts: [] };
+
+  const { merged, conflicts } = mergeFields(base, local, remote, ['revision']);
+  return {
+    merged: { ...merged, revision: nextRevision(local, remote) },
+    conflicts: conflicts.map((c) => ({ ...c, itemId: local.id, path: `items.${local.id}.${c.field}` })),
+  };
+}
+
+// Combine local and remote edits to a checklist item by item. An item deleted on one side
+// is kept if the other side edited it.
+export function mergeChecklist(
+  base: ChecklistInstance | undefined,
+  local: ChecklistInstance,
+  remote: ChecklistInstance
+): MergeResult<ChecklistInstance> {
+  const { merged, conflicts } = mergeFields(base, local, remote, CHECKLIST_DERIVED_FIELDS);
+  const allConflicts: FieldConflict[] = conflicts.map((c) => ({ ...c, path: c.field }));
+
+  const baseItems = new Map((base?.items || []).map((item) => [item.id, item]));
+  const localItems = new Map(local.items.map((item) => [item.id, item]));
+  const remoteItems = new Map(remote.items.map((item) => [item.id, item]));
+  const itemIds = [...localItems.keys(), ...remote.items.map((item) => item.id).filter((id) => !localItems.has(id))];
+
+  const items = itemIds.flatMap((id): ChecklistItem[] => {
+    const baseItem = baseItems.get(id);
+    const localItem = localItems.get(id);
+    const remoteItem = remoteItems.get(id);
+    if (localItem && remoteItem) {
+      const result = mergeChecklistItem(baseItem, localItem, remoteItem);
+      allConflicts.push(...result.conflicts);
+      return [result.merged];
+    }
+    const item = (localItem || remoteItem) as ChecklistItem;
+    // Added on one side, or deleted on the other after being edited here
+    return !baseItem || getRevision(item) !== getRevision(baseItem) ? [item] : [];
+  });
+
+  return {
+    merged: updateChecklistCounts({ ...merged, items, updatedAt: new Date().toISOString() }),
+    conflicts: allConflicts,
+  };
+}
+
+// The merged record with the remote value taken for the chosen conflicting fields
+export function resolveMergeConflicts<T extends object>(result: MergeResult<T>, useRemote: Set<string>): T {
+  const chosen = result.conflicts.filter((c) => useRemote.has(c.path));
+  if (chosen.length === 0) return result.merged;
+
+  const resolved = { ...result.merged } as Record<string, unknown>;
+  for (const conflict of chosen.filter((c) => !c.itemId)) {
+    resolved[conflict.field] = conflict.remote;
+  }
+  const itemConflicts = chosen.filter((c) => c.itemId);
+  if (itemConflicts.length > 0) {
+    resolved.items = (resolved.items as ChecklistItem[]).map((item) => {
+      const updates = Object.fromEntries(
+        itemConflicts.filter((c) => c.itemId === item.id).map((c) => [c.field, c.remote])
+      );
+      return Object.keys(updates).length > 0 ? { ...item, ...updates } : item;
+    });
+  }
+  return resolved as T;
+}
+
+// Bump the revision of each checklist item that differs from its previous version
+export function withItemRevisions(previous: ChecklistInstance | undefined, next: ChecklistInstance): ChecklistInstance {
+  const previousItems = new Map((previous?.items || []).map((item) => [item.id, item]));
+  let changed = false;
+  const items = next.items.map((item) => {
+    const previousItem = previousItems.get(item.id);
+    if (!previousItem || item === previousItem) return item;
+    if (isSameValue({ ...previousItem, revision: 0 }, { ...item, revision: 0 })) return item;
+    changed = true;
+    return { ...item, revision: getRevision(previousItem) + 1 };
+  });
+  return changed ? { ...next, items } : next;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { createChecklist, createItem } from '../test/fixtures';
+import { clearStaleDependencyOverrides } from './taskDependencies';
+
+describe('clearStaleDependencyOverrides', () => {
+  // The predecessor is overdue, so the dependent due before today has slipped
+  const predecessor = createItem({ taskId: 'book-venue', dueDate: '2020-01-05', dependsOnTaskIds: [] });
+  const overridden = createItem({
+    taskId: 'send-invites',
+    status: 'in_progress',
+    dueDate: '2020-01-08',
+    dependsOnTaskIds: ['book-venue'],
+    dependencyOverride: true,
+  });
+
+  it('keeps the override while predecessors are unchanged', () => {
+    const previous = createChecklist([predecessor, overridden]);
+    const next = createChecklist([predecessor, { ...overridden, title: 'Send invitations' }]);
+
+    expect(clearStaleDependencyOverrides(previous, next)).toBe(next);
+  });
+
+  it('clears the override and blocks again when a predecessor changes status', () => {
+    const previous = createChecklist([predecessor, overridden]);
+    const next = createChecklist([{ ...predecessor, status: 'in_progress' }, overridden]);
+
+    const item = clearStaleDependencyOverrides(previous, next).items[1];
+    expect(item.dependencyOverride).toBeUndefined();
+    expect(item.status).toBe('blocked');
+    expect(item.blockedFromStatus).toBe('in_progress');
+  });
+});
@@ -0,0 +1,160 @@
+import { parseISO, startOfDay, isBefore } from 'date-fns';
+import type { ChecklistInstance, ChecklistItem, ProcedurePhase } from '../types';
+
+function isClosed(item: ChecklistItem): boolean {
+  return item.status === 'completed' || item.status === 'skipped';
+}
+
+// Find a dependency cycle among template tasks. Returns the task IDs forming the
+// cycle (first ID repeated at the end), or null if the dependencies are acyclic.
+export function findDependencyCycle(phases: ProcedurePhase[]): string[] | null {
+  const dependencies = new Map<string, string[]>();
+  for (const phase of phases) {
+    for (const task of phase.tasks) {
+      dependencies.set(task.id, task.dependsOnTaskIds);
+    }
+  }
+
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (taskId: string): string[] | null => {
+    if (visiting.has(taskId)) {
+      return [...path.slice(path.indexOf(taskId)), taskId];
+    }
+    if (visited.has(taskId) || !dependencies.has(taskId)) return null;
+
+    visiting.add(taskId);
+    path.push(taskId);
+    for (const dependencyId of dependencies.get(taskId)!) {
+      const cycle = visit(dependencyId);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    visiting.delete(taskId);
+    visited.add(taskId);
+    return null;
+  };
+
+  for (const taskId of dependencies.keys()) {
+    const cycle = visit(taskId);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+// Describe a dependency cycle using task titles, e.g. "Book venue → Confirm budget → Book venue"
+export function describeDependencyCycle(phases: ProcedurePhase[], cycle: string[]): string {
+  const titles = new Map(phases.flatMap((phase) => phase.tasks.map((task) => [task.id, task.title] as const)));
+  return cycle.map((taskId) => titles.get(taskId) || taskId).join(' → ');
+}
+
+// Reject templates whose task dependencies form a cycle
+export function assertAcyclicDependencies(phases: ProcedurePhase[]): void {
+  const cycle = findDependencyCycle(phases);
+  if (cycle) {
+    throw new Error(`Task dependencies form a cycle: ${describeDependencyCycle(phases, cycle)}`);
+  }
+}
+
+// Get the checklist items an item depends on
+export function getPredecessors(checklist: ChecklistInstance, item: ChecklistItem): ChecklistItem[] {
+  const dependsOn = item.dependsOnTaskIds || [];
+  if (dependsOn.length === 0) return [];
+  return checklist.items.filter((other) => dependsOn.includes(other.taskId));
+}
+
+// Get predecessors that are neither completed nor skipped
+export function getOpenPredecessors(checklist: ChecklistInstance, item: ChecklistItem): ChecklistItem[] {
+  return getPredecessors(checklist, item).filter((predecessor) => !isClosed(predecessor));
+}
+
+// A predecessor has slipped when it cannot finish before the dependent is due:
+// its due date is later, or it is overdue and the dependent's due date has passed.
+function hasSlipped(predecessor: ChecklistItem, dependent: ChecklistItem, today: Date): boolean {
+  const predecessorDue = parseISO(predecessor.dueDate);
+  const expectedFinish = isBefore(predecessorDue, today) ? today : predecessorDue;
+  return isBefore(parseISO(dependent.dueDate), expectedFinish);
+}
+
+// Block open items whose predecessors slipped past their due date, and release
+// items that were blocked automatically once their predecessors are back on track.
+export function updateDependencyBlocking(checklist: ChecklistInstance): ChecklistInstance {
+  const today = startOfDay(new Date());
+  let changed = false;
+
+  const items = checklist.items.map((item) => {
+    if (item.dependencyOverride) return item;
+
+    const isSlipping = getOpenPredecessors(checklist, item).some((p) => hasSlipped(p, item, today));
+
+    if (isSlipping && (item.status === 'not_started' || item.status === 'in_progress')) {
+      changed = true;
+      return { ...item, status: 'blocked' as const, blockedFromStatus: item.status };
+    }
+    if (!isSlipping && item.status === 'blocked' && item.blockedFromStatus) {
+      changed = true;
+      return { ...item, status: item.blockedFromStatus, blockedFromStatus: undefined };
+    }
+    return item;
+  });
+
+  return changed ? { ...checklist, items } : checklist;
+}
+
+// Drop the dependency override of items whose predecessors changed status, then re-check
+// blocking so the item follows its predecessors again instead of staying overridden.
+export function clearStaleDependencyOverrides(
+  previous: ChecklistInstance,
+  next: ChecklistInstance
+): ChecklistInstance {
+  const previousStatuses = new Map(previous.items.map((item) => [item.taskId, item.status]));
+  const changedTaskIds = new Set(
+    next.items.filter((item) => previousStatuses.get(item.taskId) !== item.status).map((item) => item.taskId)
+  );
+  if (changedTaskIds.size === 0) return next;
+
+  let changed = false;
+  const items = next.items.map((item) => {
+    if (!item.dependencyOverride || !(item.dependsOnTaskIds || []).some((id) => changedTaskIds.has(id))) {
+      return item;
+    }
+    changed = true;
+    return { ...item, dependencyOverride: undefined };
+  });
+
+  return changed ? updateDependencyBlocking({ ...next, items }) : next;
+}
+
+// Arrange checklist items into columns for the dependency graph: each item is placed
+// one column to the right of its furthest predecessor.
+export function getDependencyLayers(checklist: ChecklistInstance): ChecklistItem[][] {
+  const itemsByTaskId = new Map(checklist.items.map((item) => [item.taskId, item]));
+  const depths = new Map<string, number>();
+
+  const getDepth = (item: ChecklistItem, seen: Set<string>): number => {
+    const known = depths.get(item.id);
+    if (known !== undefined) return known;
+    // Guard against cycles left over in older data
+    if (seen.has(item.id)) return 0;
+    seen.add(item.id);
+
+    let depth = 0;
+    for (const taskId of item.dependsOnTaskIds || []) {
+      const predecessor = itemsByTaskId.get(taskId);
+      if (predecessor) {
+        depth = Math.max(depth, getDepth(predecessor, seen) + 1);
+      }
+    }
+    depths.set(item.id, depth);
+    return depth;
+  };
+
+  const layers: ChecklistItem[][] = [];
+  for (const item of checklist.items) {
+    const depth = getDepth(item, new Set());
+    (layers[depth] ||= []).push(item);
+  }
+  return Array.from(layers, (layer) => layer || []);
+}
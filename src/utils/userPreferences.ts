@@ -0,0 +1,42 @@
+import { format } from 'date-fns';
+import type { UserPreferences } from '../types';
+
+export const DEFAULT_ACTIVITY_REMINDER_DAYS = [14, 3];
+
+export const DEFAULT_AGENDA_WEEKS = 4;
+
+export const DEFAULT_QUIET_HOURS = { start: '20:00', end: '07:00' };
+
+export function getDefaultUserPreferences(userId: string): UserPreferences {
+  return {
+    userId,
+    defaultCalendarView: 'month',
+    agendaWeeks: DEFAULT_AGENDA_WEEKS,
+    emailNotifications: false,
+    desktopNotifications: false,
+    quietHoursStart: DEFAULT_QUIET_HOURS.start,
+    quietHoursEnd: DEFAULT_QUIET_HOURS.end,
+    reminderDaysBefore: DEFAULT_ACTIVITY_REMINDER_DAYS,
+    theme: 'system',
+  };
+}
+
+// Parse a comma-separated list of day offsets ("14, 3, 1"), dropping anything invalid
+export function parseReminderDays(value: string): number[] {
+  const days = value
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map(Number)
+    .filter((day) => Number.isInteger(day) && day >= 0);
+  return Array.from(new Set(days)).sort((a, b) => b - a);
+}
+
+// Whether a time falls within quiet hours. Ranges that end before they start wrap past midnight.
+export function isWithinQuietHours(preferences: UserPreferences, now: Date = new Date()): boolean {
+  const { quietHoursStart: start, quietHoursEnd: end } = preferences;
+  if (!start || !end || start === end) return false;
+
+  const time = format(now, 'HH:mm');
+  return start < end ? time >= start && time < end : time >= start || time < end;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import type { ProcedureTemplate } from '../types';
+import { createActivity, createChecklist, createItem, createStaff } from '../test/fixtures';
+import { createBlankPhase, createBlankTask } from './procedureTemplates';
+import { getStaffWorkload } from './workload';
+
+describe('getStaffWorkload', () => {
+  const ana = createStaff();
+  const ben = createStaff({ id: 'staff-2', name: 'Ben Ortiz', weeklyCapacityHours: 20 });
+  // Weeks start on Sunday: 2026-07-26 and 2026-08-02
+  const weeks = ['2026-07-26', '2026-08-02'];
+
+  it('sums open hours per person per week, with unassigned work last', () => {
+    const checklist = createChecklist([
+      createItem({ taskId: 'a', assigneeId: ana.id, dueDate: '2026-07-28', estimatedHours: 3 }),
+      createItem({ taskId: 'b', assigneeId: ana.id, dueDate: '2026-07-30', estimatedHours: 2 }),
+      createItem({ taskId: 'c', assigneeId: ana.id, dueDate: '2026-08-03', estimatedHours: 4 }),
+      createItem({ taskId: 'd', dueDate: '2026-08-04', estimatedHours: 1 }),
+      createItem({ taskId: 'e', assigneeId: ana.id, dueDate: '2026-07-29', estimatedHours: 8, status: 'completed' }),
+      createItem({ taskId: 'f', assigneeId: ana.id, dueDate: '2026-09-01', estimatedHours: 8 }),
+    ]);
+
+    const rows = getStaffWorkload([checklist], [createActivity()], [], [ben, ana], weeks);
+    expect(rows.map((row) => row.staff?.name ?? null)).toEqual(['Ana Reyes', 'Ben Ortiz', null]);
+    expect(rows[0].weeks['2026-07-26'].hours).toBe(5);
+    expect(rows[0].weeks['2026-08-02'].hours).toBe(4);
+    expect(rows[1]).toMatchObject({ capacity: 20, weeks: {} });
+    expect(rows[2].weeks['2026-08-02'].hours).toBe(1);
+  });
+
+  it('falls back to the template task hours and skips finished activities', () => {
+    const task = { ...createBlankTask(1), id: 'task-1', estimatedHours: 6 };
+    const template: ProcedureTemplate = {
+      id: 'template-1',
+      name: 'Trade Show',
+      description: '',
+      activityType: 'trade_assistance',
+      version: '1.0',
+      isActive: true,
+      phases: [{ ...createBlankPhase(1), tasks: [task] }],
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    };
+    const checklist = createChecklist([createItem({ assigneeId: ana.id, dueDate: '2026-07-28' })]);
+
+    const [row] = getStaffWorkload([checklist], [createActivity()], [template], [ana], weeks);
+    expect(row.weeks['2026-07-26'].hours).toBe(6);
+
+    const [idle] = getStaffWorkload([checklist], [createActivity({ status: 'completed' })], [template], [ana], weeks);
+    expect(idle.weeks).toEqual({});
+  });
+});
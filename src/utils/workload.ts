@@ -0,0 +1,159 @@
+import { addWeeks, format, parseISO, startOfWeek, areIntervalsOverlapping } from 'date-fns';
+import type {
+  AnyActivity,
+  ChecklistInstance,
+  ChecklistItem,
+  ProcedureTemplate,
+  StaffMember,
+} from '../types';
+
+export const DEFAULT_WEEKLY_CAPACITY_HOURS = 40;
+
+export interface WorkloadWeek {
+  hours: number;
+  items: Array<{ activity: AnyActivity; item: ChecklistItem; hours: number }>;
+}
+
+export interface StaffWorkload {
+  staff: StaffMember | null; // null collects unassigned work
+  capacity: number;
+  weeks: Record<string, WorkloadWeek>; // Keyed by week start (yyyy-MM-dd)
+}
+
+export interface LeadOverlap {
+  staff: StaffMember | undefined;
+  staffId: string;
+  first: AnyActivity;
+  second: AnyActivity;
+}
+
+// Week start dates (Sunday) covering a number of weeks from a given date
+export function getWorkloadWeeks(from: Date, count: number): string[] {
+  const first = startOfWeek(from);
+  return Array.from({ length: count }, (_, i) => format(addWeeks(first, i), 'yyyy-MM-dd'));
+}
+
+export function getStaffCapacity(staff: StaffMember | null): number {
+  return staff?.weeklyCapacityHours ?? DEFAULT_WEEKLY_CAPACITY_HOURS;
+}
+
+// Activities that no longer need staff time are left out of the report
+function isActiveWork(activity: AnyActivity): boolean {
+  return !activity.isArchived && activity.status !== 'completed' && activity.status !== 'cancelled';
+}
+
+// Estimated hours of a checklist item, falling back to its template task for older checklists
+export function getItemHours(item: ChecklistItem, template: ProcedureTemplate | undefined): number {
+  if (item.estimatedHours !== undefined) return item.estimatedHours;
+  for (const phase of template?.phases || []) {
+    const task = phase.tasks.find((t) => t.id === item.taskId);
+    if (task) return task.estimatedHours ?? 0;
+  }
+  return 0;
+}
+
+// Sum open estimated hours per staff member per week (by item due date)
+export function getStaffWorkload(
+  checklists: ChecklistInstance[],
+  activities: AnyActivity[],
+  templates: ProcedureTemplate[],
+  staffMembers: StaffMember[],
+  weeks: string[]
+): StaffWorkload[] {
+  const weekSet = new Set(weeks);
+  const rows = new Map<string, StaffWorkload>();
+
+  const getRow = (staffId: string | undefined): StaffWorkload => {
+    const key = staffId || '';
+    let row = rows.get(key);
+    if (!row) {
+      const staff = staffMembers.find((s) => s.id === staffId) || null;
+      row = { staff, capacity: getStaffCapacity(staff), weeks: {} };
+      rows.set(key, row);
+    }
+    return row;
+  };
+
+  // Every active staff member gets a row, even with no assigned work
+  for (const staff of staffMembers.filter((s) => s.isActive)) {
+    getRow(staff.id);
+  }
+
+  for (const checklist of checklists) {
+    const activity = activities.find((a) => a.id === checklist.activityId);
+    if (!activity || !isActiveWork(activity)) continue;
+    const template = templates.find((t) => t.id === checklist.procedureTemplateId);
+
+    for (const item of checklist.items) {
+      if (item.status === 'completed' || item.status === 'skipped') continue;
+
+      const week = format(startOfWeek(parseISO(item.dueDate)), 'yyyy-MM-dd');
+      if (!weekSet.has(week)) continue;
+
+      const hours = getItemHours(item, template);
+      if (hours <= 0) continue;
+
+      const row = getRow(item.assigneeId);
+      const cell = (row.weeks[week] ||= { hours: 0, items: [] });
+      cell.hours += hours;
+      cell.items.push({ activity, item, hours });
+    }
+  }
+
+  // Named staff alphabetically, unassigned last
+  return Array.from(rows.values()).sort((a, b) => {
+    if (!a.staff) return 1;
+    if (!b.staff) return -1;
+    return a.staff.name.localeCompare(b.staff.name);
+  });
+}
+
+function getActivityInterval(activity: AnyActivity): { start: Date; end: Date } {
+  const end = activity.endDate && activity.endDate >= activity.startDate ? activity.endDate : activity.startDate;
+  return { start: parseISO(activity.startDate), end: parseISO(end) };
+}
+
+// Find staff involved in two activities whose date ranges collide, one entry per shared person
+function findOverlaps(
+  activities: AnyActivity[],
+  staffMembers: StaffMember[],
+  getInvolvedStaffIds: (activity: AnyActivity) => string[]
+): LeadOverlap[] {
+  const overlaps: LeadOverlap[] = [];
+  const staffed = activities.filter((a) => a.startDate && isActiveWork(a) && getInvolvedStaffIds(a).length > 0);
+
+  for (let i = 0; i < staffed.length; i++) {
+    for (let j = i + 1; j < staffed.length; j++) {
+      const first = staffed[i];
+      const second = staffed[j];
+      const secondStaff = getInvolvedStaffIds(second);
+      const shared = getInvolvedStaffIds(first).filter((id) => secondStaff.includes(id));
+      if (shared.length === 0) continue;
+
+      const overlapping = areIntervalsOverlapping(getActivityInterval(first), getActivityInterval(second), {
+        inclusive: true,
+      });
+      if (!overlapping) continue;
+      for (const staffId of shared) {
+        overlaps.push({ staff: staffMembers.find((s) => s.id === staffId), staffId, first, second });
+      }
+    }
+  }
+
+  return overlaps.sort((a, b) => a.first.startDate.localeCompare(b.first.startDate));
+}
+
+// Find staff who lead two activities whose date ranges collide
+export function findLeadOverlaps(activities: AnyActivity[], staffMembers: StaffMember[]): LeadOverlap[] {
+  return findOverlaps(activities, staffMembers, (activity) => (activity.leadStaffId ? [activity.leadStaffId] : []));
+}
+
+// Staff on an activity: its lead plus team members
+export function getActivityStaffIds(activity: AnyActivity): string[] {
+  return [...new Set([activity.leadStaffId, ...(activity.teamMemberIds || [])].filter(Boolean))];
+}
+
+// Find staff who lead or work on two activities whose date ranges collide
+export function findStaffOverlaps(activities: AnyActivity[], staffMembers: StaffMember[]): LeadOverlap[] {
+  return findOverlaps(activities, staffMembers, getActivityStaffIds);
+}